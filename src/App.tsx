@@ -1,4 +1,10 @@
-import { Navigate, Route, BrowserRouter, Routes } from 'react-router-dom';
+import {
+  createBrowserRouter,
+  Navigate,
+  Route,
+  RouterProvider,
+  Routes,
+} from 'react-router-dom';
 import WatchedHistory from './pages/WatchedHistory';
 import Subscriptions from './pages/Subscriptions';
 import LikedVideos from './pages/LikedVideos';
@@ -24,6 +30,7 @@ import {
   WATCH_LIVE_PATH,
   FEED_SEARCH_PATH,
   LIVE_STREAM_SOFTWARE_PATH,
+  LIVE_STREAM_SCREEN_PATH,
 } from './data/route';
 import Register from './pages/Auth/Register';
 import Login from './pages/Auth/Login';
@@ -42,60 +49,67 @@ import FeedSearch from './pages/Feed/Search';
 import ProtectedLayout from './layouts/ProtectedLayout';
 import StreamerProfile from './pages/StreamerProfile';
 import LiveStreamSoftware from './pages/LiveStream/Software';
+import LiveStreamScreen from './pages/LiveStream/Screen';
 
-function App() {
+const AppRoutes = () => {
   return (
-    <BrowserRouter>
-      <Routes>
-        {/* Public Routes */}
-        <Route path="/" element={<Navigate to={LOGIN_PATH} />} />
-        <Route path={LOGIN_PATH} element={<Login />} />
-        <Route path={REGISTRATION_PATH} element={<Register />} />
-        <Route path={FORGOT_PASSWORD_PATH} element={<ForgotPassword />} />
-        <Route path={LOGOUT_PATH} element={<LogoutPage />} />
-        <Route path={PRIVACY_DOCS_PATH} element={<Privacy />} />
-        <Route
-          path={TERMS_OF_SERVICES_DOCS_PATH}
-          element={<TermsOfServices />}
-        />
+    <Routes>
+      {/* Public Routes */}
+      <Route path="/" element={<Navigate to={LOGIN_PATH} />} />
+      <Route path={LOGIN_PATH} element={<Login />} />
+      <Route path={REGISTRATION_PATH} element={<Register />} />
+      <Route path={FORGOT_PASSWORD_PATH} element={<ForgotPassword />} />
+      <Route path={LOGOUT_PATH} element={<LogoutPage />} />
+      <Route path={PRIVACY_DOCS_PATH} element={<Privacy />} />
+      <Route path={TERMS_OF_SERVICES_DOCS_PATH} element={<TermsOfServices />} />
 
-        {/* Protected Routes */}
-        <Route
-          path="*"
-          element={
-            <ProtectedLayout>
-              <Routes>
-                <Route path="/" element={<Navigate to={FEED_PATH} />} />
-                <Route path={FEED_PATH} element={<Feed />} />
-                <Route path={FEED_SEARCH_PATH} element={<FeedSearch />} />
-                <Route path={SUBSCRIPTIONS_PATH} element={<Subscriptions />} />
-                <Route path={HISTORY_PATH} element={<WatchedHistory />} />
-                <Route path={LIKED_VIDEOS_PATH} element={<LikedVideos />} />
-                <Route path={SAVED_VIDEOS_PATH} element={<BookmarkVideos />} />
-                <Route path={LIVE_STREAM_PATH} element={<LiveStream />} />
-                <Route
-                  path={LIVE_STREAM_WEBCAM_PATH}
-                  element={<LiveStreamWebcam />}
-                />
-                <Route
-                  path={LIVE_STREAM_SOFTWARE_PATH}
-                  element={<LiveStreamSoftware />}
-                />
-                <Route path={SETTINGS_PATH} element={<Settings />} />
-                <Route path={WATCH_VIDEO_PATH} element={<WatchVideo />} />
-                <Route path={WATCH_LIVE_PATH} element={<WatchLive />} />
-                <Route
-                  path={STREAMER_PROFILE_PATH}
-                  element={<StreamerProfile />}
-                />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </ProtectedLayout>
-          }
-        />
-      </Routes>
-    </BrowserRouter>
+      {/* Protected Routes */}
+      <Route
+        path="*"
+        element={
+          <ProtectedLayout>
+            <Routes>
+              <Route path="/" element={<Navigate to={FEED_PATH} />} />
+              <Route path={FEED_PATH} element={<Feed />} />
+              <Route path={FEED_SEARCH_PATH} element={<FeedSearch />} />
+              <Route path={SUBSCRIPTIONS_PATH} element={<Subscriptions />} />
+              <Route path={HISTORY_PATH} element={<WatchedHistory />} />
+              <Route path={LIKED_VIDEOS_PATH} element={<LikedVideos />} />
+              <Route path={SAVED_VIDEOS_PATH} element={<BookmarkVideos />} />
+              <Route path={LIVE_STREAM_PATH} element={<LiveStream />} />
+              <Route
+                path={LIVE_STREAM_WEBCAM_PATH}
+                element={<LiveStreamWebcam />}
+              />
+              <Route
+                path={LIVE_STREAM_SOFTWARE_PATH}
+                element={<LiveStreamSoftware />}
+              />
+              <Route
+                path={LIVE_STREAM_SCREEN_PATH}
+                element={<LiveStreamScreen />}
+              />
+              <Route path={SETTINGS_PATH} element={<Settings />} />
+              <Route path={WATCH_VIDEO_PATH} element={<WatchVideo />} />
+              <Route path={WATCH_LIVE_PATH} element={<WatchLive />} />
+              <Route
+                path={STREAMER_PROFILE_PATH}
+                element={<StreamerProfile />}
+              />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </ProtectedLayout>
+        }
+      />
+    </Routes>
   );
+};
+
+// a data router, so pages can block navigation (eg: while broadcasting)
+const router = createBrowserRouter([{ path: '*', element: <AppRoutes /> }]);
+
+function App() {
+  return <RouterProvider router={router} />;
 }
 
 export default React.memo(App);
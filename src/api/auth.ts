@@ -4,11 +4,14 @@ import {
   ApiResult,
   ApiService,
   SuccessResponse,
+  successSchema,
 } from '@/data/api';
 import {
   ForgotPasswordRequest,
   LoginUserResponse,
+  LoginUserResponseSchema,
   RegisterUserResponse,
+  RegisterUserResponseSchema,
 } from '@/data/dto/auth';
 import { liveStreamApi } from './utils';
 import { RegisterAccountFields } from '@/data/types/auth';
@@ -33,10 +36,11 @@ export const apiLogin = async (
     method: API_METHOD.POST,
     data: requestBody,
     authToken: false,
+    schema: LoginUserResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: LoginUserResponse = {} as LoginUserResponse;
   if (success) {
@@ -47,6 +51,7 @@ export const apiLogin = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -69,10 +74,11 @@ export const apiRegister = async ({
     method: API_METHOD.POST,
     data: requestBody,
     authToken: false,
+    schema: RegisterUserResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: RegisterUserResponse = {} as RegisterUserResponse;
   if (success) {
@@ -83,6 +89,7 @@ export const apiRegister = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -103,14 +110,16 @@ export const apiForgotPassword = async ({
     method: API_METHOD.PUT,
     authToken: false,
     data: payload,
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { data, code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, data, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: data?.code === 200 },
+    data: { success: success && data?.code === 200 },
     message,
     code,
+    error,
   };
 };
@@ -1,22 +1,25 @@
 import { API_METHOD, ApiRequest, ApiResult, ApiService } from '@/data/api';
-import { CategoryResponse } from '@/data/dto/category';
+import { z } from 'zod';
+import { CategoryResponse, CategoryResponseSchema } from '@/data/dto/category';
 import { liveStreamApi } from './utils';
 
 const CATEGORY_API = '/category';
 const CATEGORY_LIST_API = CATEGORY_API + '/list';
 
-export const apiFetchCategories = async (): Promise<
-  ApiResult<CategoryResponse[]>
-> => {
+export const apiFetchCategories = async (
+  signal?: AbortSignal
+): Promise<ApiResult<CategoryResponse[]>> => {
   const request: ApiRequest = {
     service: ApiService.liveStream,
     url: CATEGORY_LIST_API,
     method: API_METHOD.GET,
     authToken: true,
+    schema: z.array(CategoryResponseSchema),
+    signal,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: CategoryResponse[] = [];
   if (success) {
@@ -27,5 +30,6 @@ export const apiFetchCategories = async (): Promise<
     data: rp,
     message,
     code,
+    error,
   };
 };
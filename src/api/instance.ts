@@ -0,0 +1,5 @@
+import axios from 'axios';
+
+export const apiInstance = axios.create({
+  baseURL: import.meta.env.VITE_BE_API_URL,
+});
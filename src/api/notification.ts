@@ -7,11 +7,15 @@ import {
   CommonFiltersType,
   FindAndCountResponse,
   SuccessResponse,
+  findAndCountSchema,
+  successSchema,
 } from '@/data/api';
 import { liveStreamApi } from './utils';
 import {
   NotificationCountResponse,
+  NotificationCountResponseSchema,
   NotificationResponse,
+  NotificationResponseSchema,
 } from '@/data/dto/notification';
 import { mapToQueryString } from '@/lib/utils';
 
@@ -31,10 +35,11 @@ export const apiFetchNotificationsCount = async (): Promise<
     url: NOTIFICATION_COUNT_API,
     method: API_METHOD.GET,
     authToken: true,
+    schema: NotificationCountResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: NotificationCountResponse = { num: 0 };
   if (success) {
@@ -45,6 +50,7 @@ export const apiFetchNotificationsCount = async (): Promise<
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -56,10 +62,11 @@ export const apiResetNotificationsCount = async (): Promise<
     url: NOTIFICATION_COUNT_RESET_API,
     method: API_METHOD.PUT,
     authToken: true,
+    schema: NotificationCountResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: NotificationCountResponse = { num: 0 };
   if (success) {
@@ -70,11 +77,13 @@ export const apiResetNotificationsCount = async (): Promise<
     data: rp,
     message,
     code,
+    error,
   };
 };
 
 export const apiFetchNotificationsList = async (
-  payload: CommonFilters
+  payload: CommonFilters,
+  signal?: AbortSignal
 ): Promise<ApiResult<FindAndCountResponse<NotificationResponse>>> => {
   const { page, limit } = payload;
   const queryString = mapToQueryString<CommonFiltersType>({
@@ -87,10 +96,12 @@ export const apiFetchNotificationsList = async (
     url: `${NOTIFICATION_LIST_API}?${queryString}`,
     method: API_METHOD.GET,
     authToken: true,
+    schema: findAndCountSchema(NotificationResponseSchema),
+    signal,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: FindAndCountResponse<NotificationResponse> = {};
   if (success) {
@@ -101,6 +112,7 @@ export const apiFetchNotificationsList = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -112,15 +124,17 @@ export const apiReadNotification = async (
     url: NOTIFICATION_READ_API.replace(RESOURCE_ID, id.toString()),
     method: API_METHOD.PUT,
     authToken: true,
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { data, code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, data, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: data?.is_read },
+    data: { success: success && !!data?.is_read },
     message,
     code,
+    error,
   };
 };
 
@@ -132,14 +146,16 @@ export const apiHideNotification = async (
     url: NOTIFICATION_HIDE_API.replace(RESOURCE_ID, id.toString()),
     method: API_METHOD.PUT,
     authToken: true,
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: code === 200 },
+    data: { success: success && code === 200 },
     message,
     code,
+    error,
   };
 };
@@ -0,0 +1,141 @@
+import moment from 'moment-timezone';
+import { AxiosError } from 'axios';
+import { apiInstance } from './instance';
+import { RefreshTokenResponseSchema } from '@/data/dto/auth';
+import {
+  getLoggedInUserInfo,
+  isAuthTokenExpiring,
+  notifyUnauthorizedUser,
+  renewAuthToken,
+  retrieveAuthToken,
+  subscribeAccountChange,
+  syncStoredAuthToken,
+} from '@/data/model/userAccount';
+import logger from '@/lib/logger';
+import { runWithTabLock } from '@/lib/tab-channel';
+
+const REFRESH_TOKEN_API = '/auth/refresh-token';
+
+const REFRESH_AHEAD_MS = 5 * 60 * 1000; // renew 5 minutes before expiry
+const REFRESH_RETRY_MS = 30 * 1000; // retry delay after a failed refresh
+const REFRESH_LOCK = 'auth-refresh';
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1; // setTimeout overflows above this
+
+let refreshPromise: Promise<boolean> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// only these mean the refresh token itself was turned down
+const isRefreshRejected = (e: unknown): boolean =>
+  e instanceof AxiosError &&
+  (e.response?.status === 401 || e.response?.status === 400);
+
+// whether another tab renewed the token this one started out with
+const isRenewedElsewhere = (token: string | null): boolean => {
+  syncStoredAuthToken();
+  return getLoggedInUserInfo().token !== token;
+};
+
+const sendRefreshRequest = async (refreshToken: string): Promise<boolean> => {
+  try {
+    const { data: responseData } = await apiInstance.request({
+      url: REFRESH_TOKEN_API,
+      method: 'post',
+      data: { refresh_token: refreshToken },
+      timeout: 10000,
+    });
+
+    const result = RefreshTokenResponseSchema.safeParse(responseData?.data);
+    if (!result.success) throw new Error('Invalid refresh token response.');
+
+    const { token, refresh_token, expiration_time } = result.data;
+    renewAuthToken(
+      token,
+      refresh_token || refreshToken,
+      moment(expiration_time)
+    );
+
+    return true;
+  } catch (e: unknown) {
+    logger.error('Error refreshing auth token:', e);
+
+    if (isRefreshRejected(e)) {
+      // a tab without Web Locks may have spent the token first
+      if (isRenewedElsewhere(getLoggedInUserInfo().token)) return true;
+
+      notifyUnauthorizedUser();
+      return false;
+    }
+
+    // network down, server error or an odd response: keep the session
+    scheduleRefresh(REFRESH_RETRY_MS);
+    return false;
+  }
+};
+
+const requestNewAuthToken = (): Promise<boolean> => {
+  const { token: currentToken, refresh_token: refreshToken } =
+    getLoggedInUserInfo();
+  if (!refreshToken) return Promise.resolve(false);
+
+  // tabs share the refresh token and a rotated one works only once,
+  // so one tab refreshes at a time and the others take over its result
+  return runWithTabLock(REFRESH_LOCK, () =>
+    isRenewedElsewhere(currentToken)
+      ? Promise.resolve(true)
+      : sendRefreshRequest(refreshToken)
+  );
+};
+
+/**
+ * Renews the access token with the stored refresh token.
+ * Concurrent callers share the same in-flight refresh.
+ */
+export const refreshAuthSession = (): Promise<boolean> => {
+  if (!refreshPromise) {
+    refreshPromise = requestNewAuthToken().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+/**
+ * Returns an access token that is safe to send, waiting for (or starting)
+ * a refresh when the current one is about to expire.
+ */
+export const retrieveValidAuthToken = async (): Promise<string | null> => {
+  if (refreshPromise) await refreshPromise;
+  else if (isAuthTokenExpiring() && getLoggedInUserInfo().refresh_token)
+    await refreshAuthSession();
+
+  return retrieveAuthToken();
+};
+
+const scheduleRefresh = (delay: number): void => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+
+  refreshTimer = setTimeout(
+    () => {
+      refreshTimer = null;
+      refreshAuthSession();
+    },
+    Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS)
+  );
+};
+
+// proactively renew the session before the access token expires
+const scheduleAuthSessionRefresh = (): void => {
+  const { expiration_time, refresh_token } = getLoggedInUserInfo();
+
+  if (!expiration_time || !refresh_token) {
+    if (refreshTimer) clearTimeout(refreshTimer);
+    refreshTimer = null;
+    return;
+  }
+
+  scheduleRefresh(expiration_time.diff(moment()) - REFRESH_AHEAD_MS);
+};
+
+subscribeAccountChange(scheduleAuthSessionRefresh);
+scheduleAuthSessionRefresh();
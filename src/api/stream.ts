@@ -3,15 +3,21 @@ import { liveStreamApi } from './utils';
 import { StreamDetailsUpdateRequest } from '@/data/types/stream';
 import {
   CommentsResponse,
+  CommentsResponseSchema,
   StreamDetailsResponse,
+  StreamDetailsResponseSchema,
   StreamsResponse,
+  StreamsResponseSchema,
   CommentsListRequest,
   VideoDetailsResponse,
+  VideoDetailsResponseSchema,
   VideosListRequest,
   CreateCommentRequest,
   UpdateCommentRequest,
   AddViewResponse,
+  AddViewResponseSchema,
   AddShareResponse,
+  AddShareResponseSchema,
 } from '@/data/dto/stream';
 import {
   API_ERROR,
@@ -21,14 +27,18 @@ import {
   ApiService,
   FindAndCountResponse,
   SuccessResponse,
+  UploadOptions,
+  findAndCountSchema,
+  successSchema,
 } from '@/data/api';
 import { mapToQueryString } from '@/lib/utils';
-import { Reaction, ReactionStats } from '@/data/chat';
+import { Reaction, ReactionStats, ReactionStatsSchema } from '@/data/chat';
 
 const STREAM_API = '/streams';
 const STREAM_CREATE_API = STREAM_API + '/start';
 const VIDEO_DETAILS_API = STREAM_API + '/:videoId';
 const STREAM_DETAILS_UPDATE_API = VIDEO_DETAILS_API + '/update';
+const STREAM_END_API = VIDEO_DETAILS_API + '/end';
 const SUBSCRIBE_API = 'subscribe';
 const ADD_VIEW_API = STREAM_API + '/:videoId/add-view';
 const REACT_API = STREAM_API + '/:videoId/like';
@@ -39,13 +49,16 @@ const COMMENT_UPDATE_API = STREAM_API + '/update-comment';
 const BOOKMARK_API = STREAM_API + '/:videoId/bookmark';
 const SHARE_API = STREAM_API + '/:videoId/share';
 
-export const apiCreateStream = async ({
-  title,
-  description,
-  categories,
-  streamType,
-  thumbnailImage,
-}: StreamDetailsUpdateRequest): Promise<ApiResult<StreamDetailsResponse>> => {
+export const apiCreateStream = async (
+  {
+    title,
+    description,
+    categories,
+    streamType,
+    thumbnailImage,
+  }: StreamDetailsUpdateRequest,
+  { signal, onUploadProgress }: UploadOptions = {}
+): Promise<ApiResult<StreamDetailsResponse>> => {
   const formData = new FormData();
   formData.append('title', title);
   formData.append('description', description || '');
@@ -61,10 +74,15 @@ export const apiCreateStream = async ({
     method: API_METHOD.POST,
     data: formData,
     authToken: true,
+    // a dropped connection restarts the upload without creating a second stream
+    idempotencyKey: crypto.randomUUID(),
+    schema: StreamDetailsResponseSchema,
+    signal,
+    onUploadProgress,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: StreamDetailsResponse = {} as StreamDetailsResponse;
   if (success) {
@@ -75,18 +93,20 @@ export const apiCreateStream = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
 
-export const apiUpdateStreamDetails = async ({
-  id,
-  title,
-  description,
-  categories,
-  thumbnailImage,
-}: StreamDetailsUpdateRequest): Promise<
-  ApiResult<StreamDetailsResponse | null>
-> => {
+export const apiUpdateStreamDetails = async (
+  {
+    id,
+    title,
+    description,
+    categories,
+    thumbnailImage,
+  }: StreamDetailsUpdateRequest,
+  { signal, onUploadProgress }: UploadOptions = {}
+): Promise<ApiResult<StreamDetailsResponse | null>> => {
   if (!id)
     return {
       data: null,
@@ -109,10 +129,14 @@ export const apiUpdateStreamDetails = async ({
     method: API_METHOD.PUT,
     data: formData,
     authToken: true,
+    idempotencyKey: crypto.randomUUID(),
+    schema: StreamDetailsResponseSchema,
+    signal,
+    onUploadProgress,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: StreamDetailsResponse = {} as StreamDetailsResponse;
   if (success) {
@@ -123,11 +147,13 @@ export const apiUpdateStreamDetails = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
 
 export const apiFetchVideosList = async (
-  payload: VideosListRequest
+  payload: VideosListRequest,
+  signal?: AbortSignal
 ): Promise<ApiResult<FindAndCountResponse<StreamsResponse>>> => {
   const {
     page,
@@ -168,10 +194,12 @@ export const apiFetchVideosList = async (
     url,
     method: API_METHOD.GET,
     authToken: true,
+    schema: findAndCountSchema(StreamsResponseSchema),
+    signal,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: FindAndCountResponse<StreamsResponse> = {};
   if (success) {
@@ -182,26 +210,38 @@ export const apiFetchVideosList = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
 export const apiFetchVideoDetails = async (
-  id: string
+  id: string,
+  signal?: AbortSignal
 ): Promise<ApiResult<VideoDetailsResponse | null>> => {
   const request: ApiRequest = {
     service: ApiService.liveStream,
     url: VIDEO_DETAILS_API.replace(':videoId', id),
     method: API_METHOD.GET,
     authToken: true,
+    schema: VideoDetailsResponseSchema,
+    signal,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const {
+    success,
+    data: responseData,
+    code,
+    message,
+    error: responseError,
+  } = apiResponse;
 
   let rp: VideoDetailsResponse | null = null;
   let error: API_ERROR | undefined = undefined;
   if (success) {
     rp = responseData?.data;
+  } else if (responseError) {
+    error = responseError;
   } else {
     switch (code) {
       case 404:
@@ -229,15 +269,17 @@ export const apiSubscribeUnSubscribe = async (
     method: API_METHOD.POST,
     data: { streamer_id: streamerId },
     authToken: true,
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { data, code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, data, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: data?.code === 200 },
+    data: { success: success && data?.code === 200 },
     message,
     code,
+    error,
   };
 };
 
@@ -251,10 +293,11 @@ export const apiAddView = async (
     url,
     method: API_METHOD.POST,
     authToken: true,
+    schema: AddViewResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: AddViewResponse | null = null;
   if (success) {
@@ -265,6 +308,7 @@ export const apiAddView = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -288,10 +332,12 @@ export const apiReactOnVideo = async ({
       like_type: likeType,
     },
     authToken: true,
+    idempotencyKey: crypto.randomUUID(),
+    schema: ReactionStatsSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: ReactionStats | null = null;
   if (success) {
@@ -302,11 +348,13 @@ export const apiReactOnVideo = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
 
 export const apiFetchCommentsList = async (
-  payload: CommentsListRequest
+  payload: CommentsListRequest,
+  signal?: AbortSignal
 ): Promise<ApiResult<FindAndCountResponse<CommentsResponse>>> => {
   const { page, limit, videoId } = payload;
   const queryString = mapToQueryString<CommentsListRequest>({
@@ -324,10 +372,12 @@ export const apiFetchCommentsList = async (
     url,
     method: API_METHOD.GET,
     authToken: true,
+    schema: findAndCountSchema(CommentsResponseSchema),
+    signal,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: FindAndCountResponse<CommentsResponse> = {};
   if (success) {
@@ -338,6 +388,7 @@ export const apiFetchCommentsList = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -353,10 +404,12 @@ export const apiCreateComment = async ({
     method: API_METHOD.POST,
     data: { content },
     authToken: true,
+    idempotencyKey: crypto.randomUUID(),
+    schema: CommentsResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: CommentsResponse | null = null;
   if (success) {
@@ -367,6 +420,7 @@ export const apiCreateComment = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -380,15 +434,17 @@ export const apiDeleteComment = async (
     url,
     method: API_METHOD.DELETE,
     authToken: true,
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { data, code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, data, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: data?.code === 200 },
+    data: { success: success && data?.code === 200 },
     message,
     code,
+    error,
   };
 };
 
@@ -405,10 +461,11 @@ export const apiUpdateComment = async ({
       content,
     },
     authToken: true,
+    schema: CommentsResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: CommentsResponse | null = null;
   if (success) {
@@ -419,6 +476,7 @@ export const apiUpdateComment = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -430,15 +488,42 @@ export const apiBookmarkVideo = async (
     url: BOOKMARK_API.replace(':videoId', videoId.toString()),
     method: API_METHOD.POST,
     authToken: true,
+    idempotencyKey: crypto.randomUUID(),
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { data, code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, data, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: data?.code === 200 },
+    data: { success: success && data?.code === 200 },
     message,
     code,
+    error,
+  };
+};
+
+// ends a broadcast that has no upload connection to close, eg: after a reload
+export const apiEndStream = async (
+  videoId: number
+): Promise<ApiResult<SuccessResponse>> => {
+  const request: ApiRequest = {
+    service: ApiService.liveStream,
+    url: STREAM_END_API.replace(':videoId', videoId.toString()),
+    method: API_METHOD.POST,
+    authToken: true,
+    idempotencyKey: crypto.randomUUID(),
+    schema: successSchema,
+  };
+
+  const apiResponse = await liveStreamApi(request);
+  const { success, data, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+
+  return {
+    data: { success: success && data?.code === 200 },
+    message,
+    code,
+    error,
   };
 };
 
@@ -450,15 +535,18 @@ export const apiUnBookmarkVideo = async (
     url: BOOKMARK_API.replace(':videoId', videoId.toString()),
     method: API_METHOD.DELETE,
     authToken: true,
+    idempotencyKey: crypto.randomUUID(),
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { data, code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, data, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: data?.code === 200 },
+    data: { success: success && data?.code === 200 },
     message,
     code,
+    error,
   };
 };
 
@@ -470,10 +558,12 @@ export const apiShareVideo = async (
     url: SHARE_API.replace(':videoId', videoId.toString()),
     method: API_METHOD.POST,
     authToken: true,
+    idempotencyKey: crypto.randomUUID(),
+    schema: AddShareResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: AddViewResponse | null = null;
   if (success) {
@@ -484,5 +574,6 @@ export const apiShareVideo = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
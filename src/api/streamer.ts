@@ -1,5 +1,8 @@
 import { API_METHOD, ApiRequest, ApiResult, ApiService } from '@/data/api';
-import { StreamerDetailsResponse } from '@/data/dto/streamer';
+import {
+  StreamerDetailsResponse,
+  StreamerDetailsResponseSchema,
+} from '@/data/dto/streamer';
 import { liveStreamApi } from './utils';
 
 const RESOURCE_ID = ':id';
@@ -7,17 +10,20 @@ const STREAM_API = '/streams';
 const STREAMER_DETAILS_API = `${STREAM_API}/channel/${RESOURCE_ID}`;
 
 export const apiFetchStreamerDetails = async (
-  streamerId: string
+  streamerId: string,
+  signal?: AbortSignal
 ): Promise<ApiResult<StreamerDetailsResponse | null>> => {
   const request: ApiRequest = {
     service: ApiService.liveStream,
     url: STREAMER_DETAILS_API.replace(RESOURCE_ID, streamerId.toString()),
     method: API_METHOD.GET,
     authToken: true,
+    schema: StreamerDetailsResponseSchema,
+    signal,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: StreamerDetailsResponse | null = null;
   if (success) {
@@ -28,5 +34,6 @@ export const apiFetchStreamerDetails = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
@@ -5,10 +5,13 @@ import {
   ApiService,
   FindAndCountResponse,
   SuccessResponse,
+  findAndCountSchema,
+  successSchema,
 } from '@/data/api';
 import {
   SubscriptionListRequest,
   SubscriptionResponse,
+  SubscriptionResponseSchema,
 } from '@/data/dto/subscription';
 import { mapToQueryString } from '@/lib/utils';
 import { liveStreamApi } from './utils';
@@ -18,7 +21,8 @@ const SUBSCRIPTION_LIST_API = SUBSCRIPTION_API + '/list';
 const NOTIFICATION_MUTE_API = `${SUBSCRIPTION_API}/mute`;
 
 export const apiFetchSubscriptionList = async (
-  payload: SubscriptionListRequest
+  payload: SubscriptionListRequest,
+  signal?: AbortSignal
 ): Promise<ApiResult<FindAndCountResponse<SubscriptionResponse>>> => {
   const { page, limit } = payload;
 
@@ -32,10 +36,12 @@ export const apiFetchSubscriptionList = async (
     url: `${SUBSCRIPTION_LIST_API}?${queryString}`,
     method: API_METHOD.GET,
     authToken: true,
+    schema: findAndCountSchema(SubscriptionResponseSchema),
+    signal,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: FindAndCountResponse<SubscriptionResponse> = {};
   if (success) {
@@ -46,6 +52,7 @@ export const apiFetchSubscriptionList = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -59,14 +66,16 @@ export const apiToggleMuteNotificationsFromChannel = async (
     method: API_METHOD.PUT,
     data: { is_mute: isMute, streamer_id: streamerId },
     authToken: true,
+    schema: successSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { code, message } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
+  const { success, code, message, error } = apiResponse; // success -> data: { message: 'Successful', code: 200 }
 
   return {
-    data: { success: code === 200 },
+    data: { success: success && code === 200 },
     message,
     code,
+    error,
   };
 };
@@ -1,13 +1,22 @@
 import { liveStreamApi } from './utils';
 import {
   User2FACheckResponse,
+  User2FACheckResponseSchema,
   User2FAVerityResponse,
+  User2FAVerityResponseSchema,
   ChangePasswordRequest,
   UserProfileInfoUpdateResponse,
+  UserProfileInfoUpdateResponseSchema,
   ChangePasswordResponse,
   UserProfileInfoUpdateRequest,
 } from '@/data/dto/user';
-import { API_METHOD, ApiRequest, ApiResult, ApiService } from '@/data/api';
+import {
+  API_METHOD,
+  ApiRequest,
+  ApiResult,
+  ApiService,
+  UploadOptions,
+} from '@/data/api';
 
 const USER_API = '/user';
 const USER_UPDATE_API = USER_API + '/update';
@@ -23,10 +32,11 @@ export const apiFetch2FactorAuth = async (): Promise<
     url: USER_2FA_CHECK_API,
     method: API_METHOD.GET,
     authToken: true,
+    schema: User2FACheckResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: User2FACheckResponse = {
     secret: '',
@@ -41,6 +51,7 @@ export const apiFetch2FactorAuth = async (): Promise<
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -53,10 +64,11 @@ export const apiVerity2FactorAuthWithOTP = async (
     method: API_METHOD.POST,
     authToken: true,
     data: { otp: otpCode },
+    schema: User2FAVerityResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: User2FAVerityResponse = {
     is_verified: false,
@@ -69,6 +81,7 @@ export const apiVerity2FactorAuthWithOTP = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -81,10 +94,11 @@ export const apiChange2FactorAuth = async (
     method: API_METHOD.PUT,
     authToken: true,
     data: { is_enabled: isEnabled },
+    schema: User2FACheckResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: User2FACheckResponse = {
     secret: '',
@@ -99,6 +113,7 @@ export const apiChange2FactorAuth = async (
     data: rp,
     message,
     code,
+    error,
   };
 };
 
@@ -116,10 +131,11 @@ export const apiChangePassword = async ({
     method: API_METHOD.PUT,
     authToken: true,
     data: formData,
+    schema: UserProfileInfoUpdateResponseSchema,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: UserProfileInfoUpdateResponse = {
     username: '',
@@ -136,15 +152,14 @@ export const apiChangePassword = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
 
-export const apiUpdateUserProfileInfo = async ({
-  displayName,
-  avatarFile,
-}: UserProfileInfoUpdateRequest): Promise<
-  ApiResult<UserProfileInfoUpdateResponse>
-> => {
+export const apiUpdateUserProfileInfo = async (
+  { displayName, avatarFile }: UserProfileInfoUpdateRequest,
+  { signal, onUploadProgress }: UploadOptions = {}
+): Promise<ApiResult<UserProfileInfoUpdateResponse>> => {
   const formData = new FormData();
   if (displayName) formData.append('display_name', displayName);
   if (avatarFile) formData.append('avatar', avatarFile);
@@ -155,10 +170,14 @@ export const apiUpdateUserProfileInfo = async ({
     method: API_METHOD.PUT,
     authToken: true,
     data: formData,
+    idempotencyKey: crypto.randomUUID(),
+    schema: UserProfileInfoUpdateResponseSchema,
+    signal,
+    onUploadProgress,
   };
 
   const apiResponse = await liveStreamApi(request);
-  const { success, data: responseData, code, message } = apiResponse;
+  const { success, data: responseData, code, message, error } = apiResponse;
 
   let rp: UserProfileInfoUpdateResponse = {
     username: '',
@@ -175,5 +194,6 @@ export const apiUpdateUserProfileInfo = async ({
     data: rp,
     message,
     code,
+    error,
   };
 };
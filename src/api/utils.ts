@@ -1,15 +1,148 @@
-import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+} from 'axios';
 
 import {
+  API_ERROR,
   API_ERROR_CODE,
+  API_METHOD,
   ApiRequest,
   ApiResponse,
   ApiService,
+  AUTH_FAILURE_STATUSES,
+  DEFAULT_REQUEST_TIMEOUT,
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  UPLOAD_TIMEOUT_POLICY,
 } from '@/data/api';
-import { retrieveAuthToken } from '@/data/model/userAccount';
+import {
+  getLoggedInUserInfo,
+  notifyUnauthorizedUser,
+  retrieveAuthToken,
+} from '@/data/model/userAccount';
 import logger from '@/lib/logger';
+import { apiInstance } from './instance';
+import { refreshAuthSession, retrieveValidAuthToken } from './session';
+
+const getRetryPolicy = ({
+  method,
+  retry,
+  idempotencyKey,
+}: ApiRequest): RetryPolicy | null => {
+  if (retry === false) return null;
+
+  // retrying a mutation without an idempotency key could apply it twice
+  if (method !== API_METHOD.GET && !idempotencyKey) return null;
+
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+};
+
+const isRetryableError = (e: unknown, policy: RetryPolicy): boolean => {
+  if (axios.isCancel(e) || !(e instanceof AxiosError)) return false;
+
+  // no response at all: network failure or timeout
+  if (!e.response) return true;
+
+  return policy.retryOnStatus.includes(e.response.status);
+};
+
+const getRetryDelay = (
+  e: unknown,
+  attempt: number,
+  policy: RetryPolicy
+): number => {
+  if (e instanceof AxiosError) {
+    const retryAfter = Number(e.response?.headers?.['retry-after']);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, policy.maxDelay);
+  }
+
+  // exponential backoff with full jitter
+  const delay = Math.min(policy.baseDelay * 2 ** attempt, policy.maxDelay);
+  return Math.round(Math.random() * delay);
+};
+
+const waitForRetry = (delay: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new axios.CanceledError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const getPayloadSize = (data: ApiRequest['data']): number => {
+  if (!(data instanceof FormData)) return 0;
+
+  let size = 0;
+  data.forEach((value) => {
+    size += typeof value === 'string' ? value.length : value.size;
+  });
+
+  return size;
+};
+
+const getRequestTimeout = ({ timeout, data }: ApiRequest): number => {
+  if (timeout) return timeout;
 
-const apiInstance = axios.create({ baseURL: import.meta.env.VITE_BE_API_URL });
+  const size = getPayloadSize(data);
+  if (!size) return DEFAULT_REQUEST_TIMEOUT;
+
+  const uploadTime = (size / UPLOAD_TIMEOUT_POLICY.minBytesPerSecond) * 1000;
+  return Math.min(
+    DEFAULT_REQUEST_TIMEOUT + Math.round(uploadTime),
+    UPLOAD_TIMEOUT_POLICY.maxTimeout
+  );
+};
+
+const requestWithRetry = async (
+  instance: AxiosInstance,
+  config: AxiosRequestConfig,
+  policy: RetryPolicy | null
+): Promise<AxiosResponse> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await instance.request(config);
+    } catch (e: unknown) {
+      if (!policy || attempt >= policy.retries || !isRetryableError(e, policy))
+        throw e;
+
+      const delay = getRetryDelay(e, attempt, policy);
+      logger.warn(
+        `Retrying ${config.url} in ${delay}ms (attempt ${attempt + 1}/${
+          policy.retries
+        })`
+      );
+      await waitForRetry(delay, config.signal as AbortSignal | undefined);
+    }
+  }
+};
+
+const isAuthFailure = (e: unknown): boolean =>
+  e instanceof AxiosError &&
+  !!e.response &&
+  AUTH_FAILURE_STATUSES.includes(e.response.status);
+
+// a token to replay a request the server turned down, null if none is to be had
+const renewAuthSecret = async (
+  usedSecret: string | null
+): Promise<string | null> => {
+  // another request may have renewed the session in the meantime
+  const currentSecret = await retrieveValidAuthToken();
+  if (currentSecret && currentSecret !== usedSecret) return currentSecret;
+
+  if (!(await refreshAuthSession())) return null;
+  return retrieveAuthToken();
+};
 
 const liveStreamApi = async (request: ApiRequest): Promise<ApiResponse> => {
   const {
@@ -21,10 +154,14 @@ const liveStreamApi = async (request: ApiRequest): Promise<ApiResponse> => {
     extraHeaders,
     authToken,
     download,
-    timeout,
+    schema,
+    signal,
+    idempotencyKey,
+    onUploadProgress,
   } = request;
 
   const headers = { ...extraHeaders };
+  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
 
   let instance: AxiosInstance = apiInstance;
   let secret = null;
@@ -32,7 +169,8 @@ const liveStreamApi = async (request: ApiRequest): Promise<ApiResponse> => {
   switch (service) {
     case ApiService.liveStream:
       instance = apiInstance;
-      if (authToken) secret = retrieveAuthToken();
+      // waits for an in-flight token refresh before sending the request
+      if (authToken) secret = await retrieveValidAuthToken();
       break;
   }
 
@@ -40,7 +178,9 @@ const liveStreamApi = async (request: ApiRequest): Promise<ApiResponse> => {
     apiResponse = null,
     code = null,
     resHeaders = null,
-    message = null;
+    message = null,
+    error: API_ERROR | undefined = undefined,
+    isReplayed = false;
 
   if (authToken) {
     if (secret) {
@@ -62,32 +202,96 @@ const liveStreamApi = async (request: ApiRequest): Promise<ApiResponse> => {
         params,
         data,
         headers,
-        timeout: timeout || 10000,
+        timeout: getRequestTimeout(request),
         responseType: download ? 'blob' : undefined,
+        signal,
+        onUploadProgress: onUploadProgress
+          ? ({ loaded, total }) =>
+              onUploadProgress({
+                loaded,
+                total,
+                percent: total ? Math.round((loaded / total) * 100) : 0,
+              })
+          : undefined,
       };
 
-      const axiosResponse = await instance.request(config);
+      let axiosResponse: AxiosResponse;
+      try {
+        axiosResponse = await requestWithRetry(
+          instance,
+          config,
+          getRetryPolicy(request)
+        );
+      } catch (e: unknown) {
+        // an expired access token is renewed and the request sent once more
+        const renewedSecret =
+          authToken && isAuthFailure(e) ? await renewAuthSecret(secret) : null;
+        if (!renewedSecret) throw e;
+
+        isReplayed = true;
+        config.headers = {
+          ...headers,
+          Authorization: 'Bearer ' + renewedSecret,
+        };
+        axiosResponse = await requestWithRetry(
+          instance,
+          config,
+          getRetryPolicy(request)
+        );
+      }
 
       success = true;
       apiResponse = axiosResponse.data;
       resHeaders = axiosResponse.headers;
       code = axiosResponse?.status;
+
+      if (schema) {
+        const result = schema.safeParse(apiResponse?.data);
+        if (result.success) {
+          apiResponse = { ...apiResponse, data: result.data };
+        } else {
+          logger.error(
+            `Invalid response data from ${url}:`,
+            result.error.issues
+          );
+
+          success = false;
+          error = API_ERROR.DATA_INVALID;
+          message = 'Received invalid data. Please try again later.';
+        }
+      }
     } catch (e: unknown) {
       success = false;
 
-      if (e instanceof AxiosError) {
+      if (axios.isCancel(e)) {
+        error = API_ERROR.CANCELLED;
+        message = 'Request cancelled.';
+      } else if (e instanceof AxiosError && !e.response) {
+        // the request never reached the server (offline, DNS, CORS, timeout)
+        error = API_ERROR.NETWORK_ERROR;
+        message = 'Network unavailable. Please check your connection.';
+      } else if (e instanceof AxiosError) {
         const errorResponse = e.response?.data; // message, code
-        if (errorResponse) {
-          code = errorResponse?.code;
-          message = errorResponse.message;
-        }
+        // the HTTP status stands in for a body without a code
+        code = errorResponse?.code ?? e.response?.status;
+        if (errorResponse) message = errorResponse.message;
+
+        // the session is over when even a renewed token is turned down, or
+        // there is no refresh token to renew it with; a failed refresh
+        // already ended it, or keeps it while the server is unreachable
+        if (
+          authToken &&
+          isAuthFailure(e) &&
+          (isReplayed || !getLoggedInUserInfo().refresh_token)
+        )
+          notifyUnauthorizedUser();
       } else if (e instanceof Error) {
         logger.error(`Unexpected error: ${e.message}`);
       } else {
         logger.error('An unknown error occurred.');
       }
 
-      if (!code) {
+      if (!code && !error) {
         code = API_ERROR_CODE.SERVER_ERROR;
         message = 'Please try again later.';
       }
@@ -100,6 +304,7 @@ const liveStreamApi = async (request: ApiRequest): Promise<ApiResponse> => {
     headers: resHeaders,
     code,
     message,
+    error,
   };
 };
 
@@ -1,4 +1,11 @@
-import { useState, useRef, useLayoutEffect, useEffect, FormEvent } from 'react';
+import {
+  useState,
+  useRef,
+  useLayoutEffect,
+  useEffect,
+  FormEvent,
+  Fragment,
+} from 'react';
 import { Send, X } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
@@ -14,6 +21,7 @@ import MessageItem from './MessageItem';
 import Reactions, { OnReactOnLiveParams } from './Reactions';
 import { LiveCommentInfo, LiveInitialStatsResponse } from '@/data/dto/chat';
 import { UserAccountModel } from '@/data/model/userAccount';
+import { SOCKET_STATE } from '@/lib/socket-connection';
 
 interface ComponentProps {
   currentUser: UserAccountModel;
@@ -21,6 +29,8 @@ interface ComponentProps {
   onToggleVisibility: () => void;
   onReactOnLive: (params: OnReactOnLiveParams) => void;
   onCommentOnLive: (content: string) => void;
+  connectionState?: SOCKET_STATE;
+  commentGaps?: number[]; // ids of the comments followed by missing ones
 }
 
 const Chat = (props: ComponentProps) => {
@@ -30,6 +40,8 @@ const Chat = (props: ComponentProps) => {
     onToggleVisibility,
     onReactOnLive,
     onCommentOnLive,
+    connectionState = SOCKET_STATE.OPEN,
+    commentGaps = [],
   } = props;
 
   const [input, setInput] = useState('');
@@ -39,10 +51,11 @@ const Chat = (props: ComponentProps) => {
   const contentRef = useRef<HTMLDivElement>(null);
   const footerRef = useRef<HTMLDivElement>(null);
   const inputLength = input.trim().length;
+  const isConnected = connectionState === SOCKET_STATE.OPEN;
 
   const handleMessageSend = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (inputLength === 0) return;
+    if (inputLength === 0 || !isConnected) return;
     onCommentOnLive(input);
     setInput('');
   };
@@ -72,7 +85,14 @@ const Chat = (props: ComponentProps) => {
     >
       <CardHeader ref={headerRef} className="border-b py-1 pl-3.5 pr-1">
         <div className="flex justify-between items-center">
-          <p className="text-sm font-medium leading-none">Live Chat</p>
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium leading-none">Live Chat</p>
+            {!isConnected && (
+              <span className="text-xs text-muted-foreground animate-pulse">
+                Reconnecting...
+              </span>
+            )}
+          </div>
           <div
             onClick={onToggleVisibility}
             className="rounded-full cursor-pointer p-2 hover:bg-secondary/50"
@@ -89,23 +109,29 @@ const Chat = (props: ComponentProps) => {
       >
         <div className="space-y-2 pt-2">
           {initialStats?.comments?.map((message: LiveCommentInfo) => (
-            <div
-              key={message.id}
-              className={cn(
-                'gap-0 rounded-md px-2 py-1 text-xs w-max max-w-[95%]',
-                message.username === currentUser.username
-                  ? 'ml-auto bg-background border text-black dark:text-white'
-                  : 'bg-muted dark:bg-muted/60'
+            <Fragment key={message.id}>
+              <div
+                className={cn(
+                  'gap-0 rounded-md px-2 py-1 text-xs w-max max-w-[95%]',
+                  message.username === currentUser.username
+                    ? 'ml-auto bg-background border text-black dark:text-white'
+                    : 'bg-muted dark:bg-muted/60'
+                )}
+              >
+                <MessageItem
+                  // isSelfSent={message.username === currentUser.username}
+                  content={message.content}
+                  avatarUrl={message.avatar_url}
+                  displayName={message.display_name}
+                  createdAt={message.created_at}
+                />
+              </div>
+              {commentGaps.includes(message.id) && (
+                <p className="text-center text-xs text-muted-foreground border-y border-dashed py-1">
+                  Some messages could not be loaded
+                </p>
               )}
-            >
-              <MessageItem
-                // isSelfSent={message.username === currentUser.username}
-                content={message.content}
-                avatarUrl={message.avatar_url}
-                displayName={message.display_name}
-                createdAt={message.created_at}
-              />
-            </div>
+            </Fragment>
           ))}
         </div>
       </CardContent>
@@ -134,7 +160,11 @@ const Chat = (props: ComponentProps) => {
               value={input}
               onChange={(event) => setInput(event.target.value)}
             />
-            <Button type="submit" size="icon" disabled={inputLength === 0}>
+            <Button
+              type="submit"
+              size="icon"
+              disabled={inputLength === 0 || !isConnected}
+            >
               <Send />
             </Button>
           </form>
@@ -0,0 +1,59 @@
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+import { ConfirmModal } from '@/components/ConfirmationModal';
+import { clearActiveStream } from '@/data/model/activeStream';
+import { LoginRedirectState } from '@/data/route';
+import { modalTexts } from '@/data/stream';
+import { useLiveStreamStatus } from '@/hooks/useLiveStreamStatus';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+
+// leaving the live page ends the broadcast, so ask first while it's live
+const LiveStreamGuard = () => {
+  const isStreamingLive = useLiveStreamStatus();
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      isStreamingLive &&
+      currentLocation.pathname !== nextLocation.pathname &&
+      // an expired session can't stream on, the login redirect goes through
+      !(nextLocation.state as LoginRedirectState | null)?.sessionExpired
+  );
+
+  useWakeLock(isStreamingLive);
+
+  const handleConfirm = () => {
+    // the page closes its stream socket when it unmounts
+    EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_END);
+    clearActiveStream();
+    blocker.proceed?.();
+  };
+
+  const handleCancel = () => blocker.reset?.();
+
+  // closing or reloading the tab gets the browser's own prompt
+  useEffect(() => {
+    if (!isStreamingLive) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = ''; // older browsers need it set to show the prompt
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isStreamingLive]);
+
+  return (
+    <ConfirmModal
+      isDanger
+      isOpen={blocker.state === 'blocked'}
+      title={modalTexts.stream.confirmToEnd.title}
+      description={modalTexts.stream.confirmToEnd.description}
+      proceedBtnText="Confirm to End"
+      onConfirm={handleConfirm}
+      onCancel={handleCancel}
+    />
+  );
+};
+
+export default LiveStreamGuard;
@@ -26,6 +26,7 @@ import AppButton from '../AppButton';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { toggleMuteNotificationsFromChannel } from '@/services/subscription';
+import { PENDING_SYNC_DESCRIPTION } from '@/data/types/outbox';
 
 const NotificationContent = ({ closeSheet }: { closeSheet: () => void }) => {
   const navigate = useNavigate();
@@ -41,7 +42,8 @@ const NotificationContent = ({ closeSheet }: { closeSheet: () => void }) => {
     totalItems,
     refetchData,
     fetchNextPage,
-    setData,
+    removeItem,
+    updateItem,
   } = useNotificationsList();
 
   const handleNotificationClick = (noti: NotificationResponse) => {
@@ -76,9 +78,7 @@ const NotificationContent = ({ closeSheet }: { closeSheet: () => void }) => {
   };
 
   const handleHideNotification = async (noti: NotificationResponse) => {
-    const oldData = [...data];
-
-    setData((prev) => prev.filter((p) => p.id !== noti.id));
+    const rollback = removeItem(noti.id);
 
     try {
       const isSuccess = await hideNotification(noti.id);
@@ -86,11 +86,11 @@ const NotificationContent = ({ closeSheet }: { closeSheet: () => void }) => {
       if (isSuccess?.success) {
         toast.success('Notification hidden!');
       } else {
-        setData(oldData);
+        rollback();
         toast.error('Failed to hide notification.');
       }
     } catch {
-      setData(oldData);
+      rollback();
       toast.error('An error occurred while hiding the notification.');
     }
   };
@@ -98,13 +98,8 @@ const NotificationContent = ({ closeSheet }: { closeSheet: () => void }) => {
   const handleMuteNotificationsFromChannel = async (
     noti: NotificationResponse
   ) => {
-    const oldData = [...data];
     const newData = !noti.is_mute;
-    setData((prev) =>
-      prev.map((item) =>
-        item.id === noti.id ? { ...item, is_mute: newData } : item
-      )
-    );
+    const rollback = updateItem(noti.id, { is_mute: newData });
     try {
       if (
         (noti.type === NOTIFICATION_TYPE.SUBSCRIBE_LIVE ||
@@ -118,16 +113,20 @@ const NotificationContent = ({ closeSheet }: { closeSheet: () => void }) => {
 
         if (isSuccess?.success) {
           const action = newData ? 'muted' : 'turned on';
-          toast.success(`Notification ${action}!`);
+          toast.success(`Notification ${action}!`, {
+            description: isSuccess.pending
+              ? PENDING_SYNC_DESCRIPTION
+              : undefined,
+          });
         } else {
-          setData(oldData);
+          rollback();
           toast.error(
             `Failed to ${newData ? 'mute' : 'turn on'} the notification.`
           );
         }
       }
     } catch {
-      setData(oldData);
+      rollback();
       toast.error(
         `An error occurred while ${
           newData ? 'muting' : 'unmuting'
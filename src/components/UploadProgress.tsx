@@ -0,0 +1,37 @@
+import { X } from 'lucide-react';
+import { Button } from './ui/button';
+import { UploadProgress as Progress } from '@/data/api';
+import { formatFileSize } from '@/lib/utils';
+
+interface ComponentProps {
+  progress: Progress;
+  onCancel: () => void;
+}
+
+const UploadProgress = ({ progress, onCancel }: ComponentProps) => {
+  const { loaded, total, percent } = progress;
+
+  return (
+    <div className="grid gap-1">
+      <div className="flex justify-between items-center text-xs text-muted-foreground">
+        <span>
+          Uploading... {percent}%
+          {total
+            ? ` (${formatFileSize(loaded)} / ${formatFileSize(total)})`
+            : ''}
+        </span>
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          <X /> Cancel
+        </Button>
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-secondary">
+        <div
+          className="h-full bg-primary transition-[width]"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default UploadProgress;
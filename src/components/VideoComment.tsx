@@ -52,8 +52,8 @@ const VideoComment = ({ videoId }: ComponentProps) => {
     isLoading,
     totalItems,
     fetchNextPage,
-    setComments,
-    setTotalItems,
+    insertComment,
+    removeComment,
   } = useComments({
     videoId,
     limit: DEFAULT_PAGE_SIZE,
@@ -71,11 +71,7 @@ const VideoComment = ({ videoId }: ComponentProps) => {
       });
       if (data) {
         setNewComment('');
-        comments.unshift({
-          ...data,
-          is_me: true,
-        } as unknown as CommentsResponse);
-        setTotalItems((prev) => prev + 1);
+        insertComment({ ...data, is_me: true } as CommentsResponse);
       }
       setIsApiCommentCreating(false);
     }
@@ -97,11 +93,7 @@ const VideoComment = ({ videoId }: ComponentProps) => {
   const handleDeleteCommentConfirmed = async (commentId: number) => {
     const isSuccess = await deleteComment(commentId);
     if (isSuccess) {
-      setComments((prevComments) =>
-        prevComments.filter((comment) => comment.id !== commentId)
-      );
-
-      setTotalItems((prev) => prev - 1);
+      removeComment(commentId);
 
       showToastMessage(
         'Comment deleted',
@@ -129,13 +121,6 @@ const VideoComment = ({ videoId }: ComponentProps) => {
       content: editingContent,
     });
     if (updatedComment) {
-      setComments((prevComments) =>
-        prevComments.map((comment) =>
-          comment.id === commentId
-            ? { ...comment, content: editingContent, is_edited: true }
-            : comment
-        )
-      );
       handleCancelEdit();
 
       showToastMessage(
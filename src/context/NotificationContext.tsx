@@ -1,5 +1,7 @@
 import React, {
   createContext,
+  SetStateAction,
+  useCallback,
   useContext,
   useEffect,
   useRef,
@@ -7,12 +9,18 @@ import React, {
 } from 'react';
 import logger from '@/lib/logger';
 import { NotificationResponse } from '@/data/dto/notification';
+import { retrieveAuthToken } from '@/data/model/userAccount';
 import {
-  // invalidateAccount,
-  retrieveAuthToken,
-} from '@/data/model/userAccount';
-import { fetchNotificationsCount } from '@/services/notification';
-// import { LOGOUT_PATH } from '@/data/route';
+  NOTIFICATION_SOCKET_LEADER,
+  NOTIFICATION_TAB_EVENT,
+} from '@/data/types/notification';
+import {
+  fetchNotificationsCount,
+  notificationTabChannel,
+} from '@/services/notification';
+import { useAuthTokenRefresh } from '@/hooks/useAuthTokenRefresh';
+import { useTabLeader } from '@/hooks/useTabLeader';
+import { SOCKET_STATE, SocketConnection } from '@/lib/socket-connection';
 
 const wsURL = import.meta.env.VITE_WS_NOTIFICATION_URL;
 
@@ -20,6 +28,7 @@ type WebSocketContextType = {
   newNotifications: NotificationResponse[];
   count: number;
   isConnected: boolean;
+  connectionState: SOCKET_STATE;
   sendMessage: (data: unknown) => void;
   setCount: React.Dispatch<React.SetStateAction<number>>;
 };
@@ -29,62 +38,152 @@ const WebSocketContext = createContext<WebSocketContextType | null>(null);
 export const NotificationWSProvider: React.FC<{
   children: React.ReactNode;
 }> = ({ children }) => {
-  const [count, setCount] = useState<number>(0);
+  const [count, setLocalCount] = useState<number>(0);
+  const countRef = useRef(0);
   const [newNotifications, setNewNotifications] = useState<
     NotificationResponse[]
   >([]);
-  const [isConnected, setIsConnected] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
+  // the leader's socket state, mirrored in the other tabs
+  const [connectionState, setConnectionState] = useState(SOCKET_STATE.IDLE);
+  const connectionStateRef = useRef(SOCKET_STATE.IDLE);
+  const wsRef = useRef<SocketConnection | null>(null);
+
+  // re-render on sign in/out; a renewed token is read on the next reconnect
+  useAuthTokenRefresh();
+  const hasToken = !!retrieveAuthToken();
+
+  // one tab holds the socket, the others get its events over the tab channel
+  const isLeader = useTabLeader(
+    NOTIFICATION_SOCKET_LEADER,
+    !!wsURL && hasToken
+  );
+  const isLeaderRef = useRef(isLeader);
+  isLeaderRef.current = isLeader;
+
+  const applyCount = (nextCount: number) => {
+    countRef.current = nextCount;
+    setLocalCount(nextCount);
+  };
 
-  const token = retrieveAuthToken();
+  // shared with the other tabs, so clearing the badge clears it everywhere
+  const setCount = useCallback((action: SetStateAction<number>) => {
+    const nextCount =
+      typeof action === 'function' ? action(countRef.current) : action;
+    applyCount(nextCount);
+    notificationTabChannel.post({
+      type: NOTIFICATION_TAB_EVENT.COUNT,
+      count: nextCount,
+    });
+  }, []);
+
+  const addNotification = (notification: NotificationResponse) =>
+    setNewNotifications((prev) => {
+      const isAlreadyExists = prev.some((item) => item.id === notification.id);
+      if (!isAlreadyExists) {
+        setLocalCount((prevCount) => {
+          countRef.current = prevCount + 1;
+          return countRef.current;
+        });
+        return [notification, ...prev];
+      }
+      return prev;
+    });
+
+  const applyConnectionState = (state: SOCKET_STATE) => {
+    connectionStateRef.current = state;
+    setConnectionState(state);
+  };
 
   useEffect(() => {
-    if (!wsURL || !token) return;
-    if (wsRef.current && wsRef.current.readyState !== WebSocket.CLOSED) return;
+    if (!hasToken) return;
+
+    const unsubscribe = notificationTabChannel.subscribe((message) => {
+      switch (message.type) {
+        case NOTIFICATION_TAB_EVENT.NOTIFICATION:
+          addNotification(message.notification);
+          return;
+        case NOTIFICATION_TAB_EVENT.COUNT:
+          applyCount(message.count);
+          return;
+        case NOTIFICATION_TAB_EVENT.READ:
+          setNewNotifications((prev) =>
+            prev.map((item) =>
+              item.id === message.id ? { ...item, is_read: true } : item
+            )
+          );
+          return;
+        case NOTIFICATION_TAB_EVENT.HIDE:
+          setNewNotifications((prev) =>
+            prev.filter((item) => item.id !== message.id)
+          );
+          return;
+        case NOTIFICATION_TAB_EVENT.CONNECTION_STATE:
+          if (!isLeaderRef.current) applyConnectionState(message.state);
+          return;
+        case NOTIFICATION_TAB_EVENT.SEND:
+          if (isLeaderRef.current) wsRef.current?.sendJSON(message.data);
+          return;
+        case NOTIFICATION_TAB_EVENT.SYNC_REQUEST:
+          if (!isLeaderRef.current) return;
+          notificationTabChannel.post({
+            type: NOTIFICATION_TAB_EVENT.CONNECTION_STATE,
+            state: connectionStateRef.current,
+          });
+          notificationTabChannel.post({
+            type: NOTIFICATION_TAB_EVENT.COUNT,
+            count: countRef.current,
+          });
+          return;
+      }
+    });
 
-    const fullURL = `${wsURL}?token=${token}`;
-    const ws = new WebSocket(fullURL);
-    wsRef.current = ws;
+    notificationTabChannel.post({ type: NOTIFICATION_TAB_EVENT.SYNC_REQUEST });
 
-    ws.onopen = () => {
-      logger.log('WebSocket connected:', fullURL);
-      setIsConnected(true);
-    };
+    return unsubscribe;
+  }, [hasToken]);
 
-    ws.onmessage = (event) => {
+  useEffect(() => {
+    if (!wsURL || !hasToken || !isLeader) return;
+
+    const handleMessage = (event: MessageEvent) => {
       try {
         const message: NotificationResponse = JSON.parse(event.data);
         logger.log('New message received:', message);
 
-        setNewNotifications((prev) => {
-          const isAlreadyExists = prev.some((item) => item.id === message.id);
-          if (!isAlreadyExists) {
-            setCount((prevCount) => prevCount + 1);
-            return [message, ...prev];
-          }
-          return prev;
+        addNotification(message);
+        notificationTabChannel.post({
+          type: NOTIFICATION_TAB_EVENT.NOTIFICATION,
+          notification: message,
         });
       } catch (error) {
         logger.error('Error parsing WebSocket message:', error);
       }
     };
 
-    ws.onerror = (error) => logger.error('WebSocket error:', error);
-
-    ws.onclose = (event) => {
-      logger.warn('WebSocket closed:', event);
-      setIsConnected(false);
-
-      // TODO: commented while development
-      // invalidateAccount();
-      // window.location.href = LOGOUT_PATH;
-    };
+    const ws = new SocketConnection({
+      getUrl: () => wsURL,
+      isAuthFrameSupported: true,
+      heartbeat: true,
+      onOpen: () => logger.log('WebSocket connected:', wsURL),
+      onMessage: handleMessage,
+      onStateChange: (state) => {
+        applyConnectionState(state);
+        notificationTabChannel.post({
+          type: NOTIFICATION_TAB_EVENT.CONNECTION_STATE,
+          state,
+        });
+      },
+      onClose: (event) => logger.warn('WebSocket closed:', event),
+    });
+    wsRef.current = ws;
+    ws.connect();
 
     return () => {
       ws.close();
+      wsRef.current = null;
       logger.log('WebSocket connection closed.');
     };
-  }, [token]);
+  }, [hasToken, isLeader]);
 
   useEffect(() => {
     const getContents = async () => {
@@ -95,7 +194,7 @@ export const NotificationWSProvider: React.FC<{
           throw new Error('Failed to fetch notification count!');
         }
 
-        setCount(response?.num);
+        applyCount(response?.num);
       } catch {
         logger.error('Error fetching notification count');
       }
@@ -105,16 +204,25 @@ export const NotificationWSProvider: React.FC<{
   }, []);
 
   const sendMessage = (data: unknown) => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(data));
-    } else {
+    if (!isLeader) {
+      notificationTabChannel.post({ type: NOTIFICATION_TAB_EVENT.SEND, data });
+    } else if (!wsRef.current?.sendJSON(data)) {
       logger.error('WebSocket is not connected.');
     }
   };
 
+  const isConnected = connectionState === SOCKET_STATE.OPEN;
+
   return (
     <WebSocketContext.Provider
-      value={{ newNotifications, count, isConnected, sendMessage, setCount }}
+      value={{
+        newNotifications,
+        count,
+        isConnected,
+        connectionState,
+        sendMessage,
+        setCount,
+      }}
     >
       {children}
     </WebSocketContext.Provider>
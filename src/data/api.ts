@@ -1,4 +1,5 @@
 import { AxiosRequestHeaders } from 'axios';
+import { z, ZodTypeAny } from 'zod';
 
 export enum ApiService {
   liveStream = 'liveStream',
@@ -17,6 +18,8 @@ export enum API_ERROR {
   BLOCKED = 'BLOCKED',
   INACTIVE = 'INACTIVE',
   DATA_INVALID = 'DATA_INVALID',
+  CANCELLED = 'CANCELLED',
+  NETWORK_ERROR = 'NETWORK_ERROR',
 }
 
 export enum API_METHOD {
@@ -26,6 +29,41 @@ export enum API_METHOD {
   DELETE = 'delete',
 }
 
+export type RetryPolicy = {
+  retries: number;
+  baseDelay: number; // ms, doubled on every attempt
+  maxDelay: number; // ms
+  retryOnStatus: number[];
+};
+
+// GETs are retried with this policy unless the request opts out with `retry: false`.
+// Mutating requests are only retried when they carry an idempotency key.
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+};
+
+export const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+// uploads get extra time for their payload, assuming at least this throughput
+export const UPLOAD_TIMEOUT_POLICY = {
+  minBytesPerSecond: 32 * 1024,
+  maxTimeout: 10 * 60 * 1000,
+};
+
+export type UploadProgress = {
+  loaded: number; // bytes
+  total?: number; // bytes, unknown for some payloads
+  percent: number;
+};
+
+export type UploadOptions = {
+  signal?: AbortSignal;
+  onUploadProgress?: (progress: UploadProgress) => void;
+};
+
 export type ApiRequest = {
   service: ApiService;
   url: string;
@@ -34,8 +72,15 @@ export type ApiRequest = {
   data?: Record<string, unknown> | FormData;
   extraHeaders?: AxiosRequestHeaders;
   authToken?: boolean;
-  timeout?: number;
+  timeout?: number; // defaults to a value scaled with the FormData payload size
   download?: boolean;
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy> | false;
+  // sent as `Idempotency-Key` so the server can drop duplicates of a retried mutation
+  idempotencyKey?: string;
+  // validates (and coerces) the `data` field of the response body
+  schema?: ZodTypeAny;
+  onUploadProgress?: (progress: UploadProgress) => void;
 };
 
 export type ApiResult<T> = {
@@ -59,6 +104,7 @@ export type ApiResponse = {
   headers?: any;
   message: string;
   code: number;
+  error?: API_ERROR;
 };
 
 export type ServiceResponse<T, S extends string> = {
@@ -82,8 +128,27 @@ export interface FindAndCountResponse<T> {
   next?: number;
 }
 
+export const findAndCountSchema = <T extends ZodTypeAny>(itemSchema: T) =>
+  z.object({
+    page: z.array(itemSchema).optional(),
+    index: z.number().optional(),
+    current_page: z.number().optional(),
+    length: z.number().optional(),
+    total_items: z.number().optional(),
+    page_size: z.number().optional(),
+    next: z
+      .number()
+      .nullish()
+      .transform((next) => next ?? undefined),
+  });
+
+// the `data` of requests answered with a status only: none, or an object
+// whose fields aren't read
+export const successSchema = z.record(z.unknown()).nullish();
+
 export interface SuccessResponse {
   success: boolean;
+  pending?: boolean; // queued while offline, synced later
 }
 
 export interface CountResponse {
@@ -106,6 +171,16 @@ export const API_ERROR_CODE = {
   BAD_REQUEST: 400,
 };
 
+// HTTP statuses meaning the session is no longer accepted by the server
+export const AUTH_FAILURE_STATUSES: number[] = [
+  API_ERROR_CODE.ACCESS_DENIED, // 401
+  API_ERROR_CODE.UNAUTHORIZED, // 403
+];
+
+// WebSocket close codes used by the server to reject the session, the
+// 401/403 of the socket world. The generic policy violation (1008) isn't one
+export const WS_AUTH_FAILURE_CLOSE_CODES: number[] = [4001, 4003, 4401, 4403];
+
 export const getApiErrorMessage = (errorCode: string) => {
   switch (errorCode) {
     case API_ERROR_CODE.UNAUTHORIZED.toString():
@@ -1,21 +1,36 @@
-interface UserResponse {
-  id?: string;
-  email: string;
-  username: string;
-  display_name: string;
-  avatar_file_url: string;
-  role_type: string;
-}
+import { z } from 'zod';
 
-export interface LoginUserResponse extends UserResponse {
-  token: string;
-  expiration_time?: string;
-}
+const UserResponseSchema = z.object({
+  id: z.coerce.string().optional(),
+  email: z.string(),
+  username: z.string(),
+  display_name: z.string(),
+  avatar_file_url: z
+    .string()
+    .nullish()
+    .transform((url) => url ?? ''),
+  role_type: z.string(),
+});
 
-export interface RegisterUserResponse extends UserResponse {
-  token: string;
-  expiration_time?: string;
-}
+export const LoginUserResponseSchema = UserResponseSchema.extend({
+  token: z.string(),
+  refresh_token: z.string().optional(),
+  expiration_time: z.string().optional(),
+});
+
+export type LoginUserResponse = z.infer<typeof LoginUserResponseSchema>;
+
+export const RegisterUserResponseSchema = LoginUserResponseSchema;
+
+export type RegisterUserResponse = z.infer<typeof RegisterUserResponseSchema>;
+
+export const RefreshTokenResponseSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string().optional(),
+  expiration_time: z.string(),
+});
+
+export type RefreshTokenResponse = z.infer<typeof RefreshTokenResponseSchema>;
 
 export interface ForgotPasswordRequest {
   usernameOrEmail: string;
@@ -1,4 +1,8 @@
-export interface CategoryResponse {
-  id: number;
-  name: string;
-}
+import { z } from 'zod';
+
+export const CategoryResponseSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+export type CategoryResponse = z.infer<typeof CategoryResponseSchema>;
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { Reaction } from '@/data/chat';
+import {
+  decodeLiveInteractionMessage,
+  encodeLiveInteractionMessage,
+  isNewerLiveInteractionProtocol,
+  LIVE_INTERACTION_PROTOCOL_VERSION,
+  LiveCommentInfo,
+  LiveInteractionType,
+  mergeComments,
+} from '@/data/dto/chat';
+
+const comment = (id: number, createdAt: string): LiveCommentInfo => ({
+  id,
+  username: 'viewer',
+  display_name: 'Viewer',
+  avatar_url: '',
+  content: `comment ${id}`,
+  created_at: createdAt,
+});
+
+describe('live interaction codec', () => {
+  describe('decode', () => {
+    it('decodes a typed frame', () => {
+      const result = decodeLiveInteractionMessage(
+        JSON.stringify({
+          type: LiveInteractionType.VIEW_INFO,
+          v: 1,
+          data: { total: 3 },
+        })
+      );
+
+      expect(result).toEqual({
+        success: true,
+        message: {
+          type: LiveInteractionType.VIEW_INFO,
+          v: 1,
+          data: { total: 3 },
+        },
+      });
+    });
+
+    it('fills the defaults of the initial stats', () => {
+      const result = decodeLiveInteractionMessage({
+        type: LiveInteractionType.INITIAL,
+        current_like_type: null,
+      });
+
+      expect(result).toEqual({
+        success: true,
+        message: {
+          type: LiveInteractionType.INITIAL,
+          comments: [],
+          like_count: 0,
+          like_info: {},
+          current_like_type: undefined,
+          share_count: 0,
+        },
+      });
+    });
+
+    it('reads an empty legacy frame as a reset', () => {
+      const result = decodeLiveInteractionMessage('{}');
+
+      expect(result).toEqual({
+        success: true,
+        message: { type: LiveInteractionType.RESET },
+      });
+    });
+
+    it('reads a bare legacy comment as a comment', () => {
+      const legacyComment = comment(1, '2024-01-01T10:00:00Z');
+
+      const result = decodeLiveInteractionMessage(
+        JSON.stringify(legacyComment)
+      );
+
+      expect(result).toEqual({
+        success: true,
+        message: { ...legacyComment, type: LiveInteractionType.COMMENT },
+      });
+    });
+
+    it('refuses malformed JSON', () => {
+      expect(decodeLiveInteractionMessage('{"type":')).toEqual({
+        success: false,
+        reason: 'Malformed JSON',
+        frame: '{"type":',
+      });
+    });
+
+    it('names the invalid fields of a frame', () => {
+      const result = decodeLiveInteractionMessage({
+        type: LiveInteractionType.SHARE,
+        share_count: 'many',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.reason).toMatch(/^share_count: /);
+    });
+
+    it('refuses unknown frame types', () => {
+      const result = decodeLiveInteractionMessage({ type: 'poll' });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('flags frames of a newer protocol', () => {
+      const decode = (v?: number) => {
+        const result = decodeLiveInteractionMessage({
+          type: LiveInteractionType.LIVE_ENDED,
+          v,
+        });
+        if (!result.success) throw new Error(result.reason);
+        return result.message;
+      };
+
+      expect(isNewerLiveInteractionProtocol(decode())).toBe(false);
+      expect(
+        isNewerLiveInteractionProtocol(
+          decode(LIVE_INTERACTION_PROTOCOL_VERSION)
+        )
+      ).toBe(false);
+      expect(
+        isNewerLiveInteractionProtocol(
+          decode(LIVE_INTERACTION_PROTOCOL_VERSION + 1)
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('encode', () => {
+    it('stamps the protocol version', () => {
+      const frame = encodeLiveInteractionMessage({
+        type: LiveInteractionType.LIKE,
+        data: { like_status: true, like_type: Reaction.LIKE },
+      });
+
+      expect(JSON.parse(frame!)).toEqual({
+        type: LiveInteractionType.LIKE,
+        data: { like_status: true, like_type: Reaction.LIKE },
+        v: LIVE_INTERACTION_PROTOCOL_VERSION,
+      });
+    });
+
+    it('trims comments and refuses blank ones', () => {
+      const encodeComment = (content: string) =>
+        encodeLiveInteractionMessage({
+          type: LiveInteractionType.COMMENT,
+          data: { content },
+        });
+
+      expect(JSON.parse(encodeComment('  hello ')!).data).toEqual({
+        content: 'hello',
+      });
+      expect(encodeComment('   ')).toBeNull();
+    });
+  });
+});
+
+describe('mergeComments', () => {
+  it('orders comments by posting time, then id', () => {
+    const merged = mergeComments(
+      [comment(3, '2024-01-01T10:02:00Z'), comment(1, '2024-01-01T10:00:00Z')],
+      [comment(4, '2024-01-01T10:01:00Z'), comment(2, '2024-01-01T10:00:00Z')]
+    );
+
+    expect(merged.map(({ id }) => id)).toEqual([1, 2, 4, 3]);
+  });
+
+  it('keeps each comment once, as it was first shown', () => {
+    const shown = comment(1, '2024-01-01T10:00:00Z');
+
+    const merged = mergeComments(
+      [shown],
+      [{ ...shown, content: 'resent' }, comment(2, '2024-01-01T10:01:00Z')]
+    );
+
+    expect(merged).toEqual([shown, comment(2, '2024-01-01T10:01:00Z')]);
+  });
+});
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { Reaction, ReactionStats } from '../chat';
+import _ from 'lodash';
+import { Reaction, ReactionStatsSchema } from '../chat';
 
 // started_software
 export enum LiveStreamBySoftware {
@@ -15,40 +16,18 @@ export enum LiveInteractionType {
   'VIEW_INFO' = 'view_info',
   'LIVE_ENDED' = 'live_ended',
   'SHARE' = 'share',
+  'RESET' = 'reset', // older servers send it as an empty frame
+  'RESUME' = 'resume',
+  'PAUSE' = 'pause', // the streamer stepped away, the broadcast shows a slate
 }
 
-export interface LiveComment {
-  content: string;
-}
-
-export interface LiveInitialStatsResponse {
-  type: LiveInteractionType;
-  comments: LiveCommentInfo[];
-  like_count: number;
-  like_info: ReactionStats;
-  current_like_type?: Reaction;
-  share_count: number;
-}
+// sent as `v` on every outgoing frame; incoming frames without one are v1
+export const LIVE_INTERACTION_PROTOCOL_VERSION = 1;
 
-export interface LiveReactionRequest {
-  type: LiveInteractionType;
-  data: {
-    like_status: boolean;
-    like_type: Reaction;
-  };
-}
-
-export type LiveReactionResponse = LiveReactionRequest;
+const ProtocolVersionSchema = z.number().int().positive().optional();
 
-export interface LiveCommentRequest {
-  type: LiveInteractionType;
-  data: {
-    content: string;
-  };
-}
-
-export interface LiveShareRequest {
-  type: LiveInteractionType.SHARE;
+export interface LiveComment {
+  content: string;
 }
 
 export const LiveCommentInfoSchema = z.object({
@@ -62,22 +41,246 @@ export const LiveCommentInfoSchema = z.object({
 
 export type LiveCommentInfo = z.infer<typeof LiveCommentInfoSchema>;
 
-export const isLiveCommentInfoObj = (obj: unknown): obj is LiveCommentInfo => {
-  return LiveCommentInfoSchema.safeParse(obj).success;
+export const compareComments = (
+  a: LiveCommentInfo,
+  b: LiveCommentInfo
+): number =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime() ||
+  a.id - b.id;
+
+// comments in posting order, each once
+export const mergeComments = (
+  current: LiveCommentInfo[],
+  incoming: LiveCommentInfo[]
+): LiveCommentInfo[] =>
+  _.uniqBy([...current, ...incoming], 'id').sort(compareComments);
+
+const ReactionDataSchema = z.object({
+  like_status: z.boolean(),
+  like_type: z.nativeEnum(Reaction),
+});
+
+// ---- server -> client ----
+
+export const LiveInitialStatsResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.INITIAL),
+  v: ProtocolVersionSchema,
+  comments: z.array(LiveCommentInfoSchema).default([]),
+  like_count: z.number().default(0),
+  like_info: ReactionStatsSchema.default({}),
+  current_like_type: z
+    .nativeEnum(Reaction)
+    .nullish()
+    .transform((value) => value ?? undefined),
+  share_count: z.number().default(0),
+  is_paused: z.boolean().optional(),
+});
+
+export type LiveInitialStatsResponse = z.infer<
+  typeof LiveInitialStatsResponseSchema
+>;
+
+export const LiveReactionResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.LIKE),
+  v: ProtocolVersionSchema,
+  data: ReactionDataSchema,
+});
+
+export type LiveReactionResponse = z.infer<typeof LiveReactionResponseSchema>;
+
+export const LiveCommentResponseSchema = LiveCommentInfoSchema.extend({
+  type: z.literal(LiveInteractionType.COMMENT),
+  v: ProtocolVersionSchema,
+});
+
+export const LiveReactionStatsResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.LIKE_INFO),
+  v: ProtocolVersionSchema,
+  data: ReactionStatsSchema,
+});
+
+export const LiveViewResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.VIEW_INFO),
+  v: ProtocolVersionSchema,
+  data: z.object({
+    total: z.number(),
+  }),
+});
+
+export type LiveViewResponse = z.infer<typeof LiveViewResponseSchema>;
+
+export const LiveEndedResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.LIVE_ENDED),
+  v: ProtocolVersionSchema,
+});
+
+export type LiveEndedResponse = z.infer<typeof LiveEndedResponseSchema>;
+
+export const LiveShareResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.SHARE),
+  v: ProtocolVersionSchema,
+  share_count: z.number(),
+});
+
+export type LiveShareResponse = z.infer<typeof LiveShareResponseSchema>;
+
+export const LiveResetResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.RESET),
+  v: ProtocolVersionSchema,
+});
+
+// the comments posted after the requested one; `complete` is false when the
+// server no longer has all of them
+export const LiveResumeResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.RESUME),
+  v: ProtocolVersionSchema,
+  comments: z.array(LiveCommentInfoSchema).default([]),
+  complete: z.boolean().default(true),
+});
+
+export type LiveResumeResponse = z.infer<typeof LiveResumeResponseSchema>;
+
+export const LivePauseResponseSchema = z.object({
+  type: z.literal(LiveInteractionType.PAUSE),
+  v: ProtocolVersionSchema,
+  is_paused: z.boolean(),
+});
+
+export type LivePauseResponse = z.infer<typeof LivePauseResponseSchema>;
+
+export const LiveInteractionServerMessageSchema = z.discriminatedUnion('type', [
+  LiveInitialStatsResponseSchema,
+  LiveReactionResponseSchema,
+  LiveCommentResponseSchema,
+  LiveReactionStatsResponseSchema,
+  LiveViewResponseSchema,
+  LiveEndedResponseSchema,
+  LiveShareResponseSchema,
+  LiveResetResponseSchema,
+  LiveResumeResponseSchema,
+  LivePauseResponseSchema,
+]);
+
+export type LiveInteractionServerMessage = z.infer<
+  typeof LiveInteractionServerMessageSchema
+>;
+
+// ---- client -> server ----
+
+export const LiveReactionRequestSchema = z.object({
+  type: z.literal(LiveInteractionType.LIKE),
+  data: ReactionDataSchema,
+});
+
+export type LiveReactionRequest = z.infer<typeof LiveReactionRequestSchema>;
+
+export const LiveCommentRequestSchema = z.object({
+  type: z.literal(LiveInteractionType.COMMENT),
+  data: z.object({
+    content: z.string().trim().min(1),
+  }),
+});
+
+export type LiveCommentRequest = z.infer<typeof LiveCommentRequestSchema>;
+
+export const LiveShareRequestSchema = z.object({
+  type: z.literal(LiveInteractionType.SHARE),
+});
+
+export type LiveShareRequest = z.infer<typeof LiveShareRequestSchema>;
+
+// asks for the comments missed while disconnected
+export const LiveResumeRequestSchema = z.object({
+  type: z.literal(LiveInteractionType.RESUME),
+  data: z.object({
+    last_comment_id: z.number(),
+    last_comment_at: z.string(),
+  }),
+});
+
+export type LiveResumeRequest = z.infer<typeof LiveResumeRequestSchema>;
+
+// only taken from the streamer, relayed to the viewers
+export const LivePauseRequestSchema = z.object({
+  type: z.literal(LiveInteractionType.PAUSE),
+  data: z.object({
+    is_paused: z.boolean(),
+  }),
+});
+
+export type LivePauseRequest = z.infer<typeof LivePauseRequestSchema>;
+
+export const LiveInteractionClientMessageSchema = z.discriminatedUnion('type', [
+  LiveReactionRequestSchema,
+  LiveCommentRequestSchema,
+  LiveShareRequestSchema,
+  LiveResumeRequestSchema,
+  LivePauseRequestSchema,
+]);
+
+export type LiveInteractionClientMessage = z.infer<
+  typeof LiveInteractionClientMessageSchema
+>;
+
+// ---- codec ----
+
+export type LiveInteractionDecodeResult =
+  | { success: true; message: LiveInteractionServerMessage }
+  | { success: false; reason: string; frame: unknown };
+
+// frames from before the protocol was typed: a bare comment or `{}`
+const normalizeLegacyFrame = (frame: unknown): unknown => {
+  if (_.isPlainObject(frame) && _.isEmpty(frame))
+    return { type: LiveInteractionType.RESET };
+
+  if (
+    _.isPlainObject(frame) &&
+    !('type' in (frame as object)) &&
+    LiveCommentInfoSchema.safeParse(frame).success
+  )
+    return { ...(frame as object), type: LiveInteractionType.COMMENT };
+
+  return frame;
 };
 
-export interface LiveViewResponse {
-  type: LiveInteractionType.VIEW_INFO;
-  data: {
-    total: number;
-  };
-}
+export const decodeLiveInteractionMessage = (
+  data: unknown
+): LiveInteractionDecodeResult => {
+  let frame: unknown;
+  try {
+    frame = typeof data === 'string' ? JSON.parse(data) : data;
+  } catch {
+    return { success: false, reason: 'Malformed JSON', frame: data };
+  }
 
-export interface LiveEndedResponse {
-  type: LiveInteractionType.LIVE_ENDED;
-}
+  const result = LiveInteractionServerMessageSchema.safeParse(
+    normalizeLegacyFrame(frame)
+  );
+  if (!result.success)
+    return {
+      success: false,
+      reason: result.error.issues
+        .map(({ path, message }) => `${path.join('.') || 'frame'}: ${message}`)
+        .join(', '),
+      frame,
+    };
 
-export interface LiveShareResponse {
-  type: LiveInteractionType.SHARE;
-  share_count: number;
-}
+  return { success: true, message: result.data };
+};
+
+// validates before sending, so a bad payload never reaches the server
+export const encodeLiveInteractionMessage = (
+  message: LiveInteractionClientMessage
+): string | null => {
+  const result = LiveInteractionClientMessageSchema.safeParse(message);
+  if (!result.success) return null;
+
+  return JSON.stringify({
+    ...result.data,
+    v: LIVE_INTERACTION_PROTOCOL_VERSION,
+  });
+};
+
+export const isNewerLiveInteractionProtocol = (
+  message: LiveInteractionServerMessage
+): boolean => (message.v ?? 1) > LIVE_INTERACTION_PROTOCOL_VERSION;
@@ -1,26 +1,34 @@
-export type NotificationCountResponse = {
-  num: number;
-};
-
-export type NotificationResponse = {
-  id: number;
-  avatar_url: string;
-  content: string;
-  thumbnail_url: string;
-  stream_id: number;
-  type: NOTIFICATION_TYPE;
-  is_read: boolean;
-  is_mute: boolean;
-  streamer_id: number | string;
-  created_at: string;
-};
-
-export type NotificationReadResponse = {
-  is_read: boolean;
-};
+import { z } from 'zod';
 
 export enum NOTIFICATION_TYPE {
   SUBSCRIBE_VIDEO = 'subscribe_video',
   SUBSCRIBE_LIVE = 'subscribe_live',
   ACCOUNT_BLOCKED = 'account_blocked',
 }
+
+export const NotificationCountResponseSchema = z.object({
+  num: z.coerce.number(),
+});
+
+export type NotificationCountResponse = z.infer<
+  typeof NotificationCountResponseSchema
+>;
+
+export const NotificationResponseSchema = z.object({
+  id: z.number(),
+  avatar_url: z.string(),
+  content: z.string(),
+  thumbnail_url: z.string(),
+  stream_id: z.number(),
+  type: z.nativeEnum(NOTIFICATION_TYPE),
+  is_read: z.boolean(),
+  is_mute: z.boolean(),
+  streamer_id: z.union([z.number(), z.string()]),
+  created_at: z.string(),
+});
+
+export type NotificationResponse = z.infer<typeof NotificationResponseSchema>;
+
+export type NotificationReadResponse = {
+  is_read: boolean;
+};
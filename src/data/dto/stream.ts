@@ -1,17 +1,26 @@
-import { Reaction, ReactionStats } from '../chat';
+import { z } from 'zod';
+import { Reaction, ReactionStatsSchema } from '../chat';
 import { CONTENT_STATUS } from '../types/stream';
-import { CategoryResponse } from './category';
-
-export interface StreamDetailsResponse {
-  id: number | null;
-  title: string | null;
-  description: string | null;
-  thumbnail_url: string | null;
-  broadcast_url: string | null;
-  push_url: string | null;
-  started_at?: string | null;
-  category_ids: number[];
-}
+import { CategoryResponseSchema } from './category';
+
+// sent as null when not set; read as empty like the untyped responses were
+const nullableString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? '');
+
+export const StreamDetailsResponseSchema = z.object({
+  id: z.number().nullable(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  thumbnail_url: z.string().nullable(),
+  broadcast_url: z.string().nullable(),
+  push_url: z.string().nullable(),
+  started_at: z.string().nullish(),
+  category_ids: z.array(z.coerce.number()),
+});
+
+export type StreamDetailsResponse = z.infer<typeof StreamDetailsResponseSchema>;
 
 export type VideosListRequest = {
   page?: number;
@@ -28,58 +37,62 @@ export type VideosListRequest = {
   streamer_id?: number;
 };
 
-export interface StreamsResponse {
-  id: number;
-  title: string;
-  thumbnail_url: string;
-  status: CONTENT_STATUS;
-  broadcast_url: string;
-  video_url: string;
-  started_at: string;
-  scheduled_at?: string;
-  user_id: number;
-  display_name: string;
-  avatar_file_url: string;
-  views: number;
-  likes: number;
-  comments: number;
-  duration: number;
-  is_saved: boolean;
-  is_mute: boolean;
-}
-
-export interface VideoDetailsResponse {
-  id: number;
-
-  title: string;
-  description: string;
-  thumbnail_url: string;
-  broadcast_url: string;
-  video_url: string;
-  status: CONTENT_STATUS;
-  created_at: string;
-  started_at: string;
-  scheduled_at?: string;
-
-  user_id: number;
-  display_name: string;
-  avatar_file_url: string;
-  subscriptions: number;
-
-  views: number;
-  comments: number;
-  shares: number;
-  likes: ReactionStats;
-  current_like_type: Reaction | null;
-  is_current_like: boolean;
-  is_owner: boolean;
-  is_subscribed: boolean;
-  is_mute: boolean;
-  is_saved: boolean;
-  duration: number;
-
-  categories: CategoryResponse[];
-}
+export const StreamsResponseSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  thumbnail_url: nullableString,
+  status: z.nativeEnum(CONTENT_STATUS),
+  broadcast_url: nullableString,
+  video_url: nullableString,
+  started_at: z.string(),
+  scheduled_at: z.string().nullish(),
+  user_id: z.number(),
+  display_name: z.string(),
+  avatar_file_url: nullableString,
+  views: z.coerce.number(),
+  likes: z.coerce.number(),
+  comments: z.coerce.number(),
+  duration: z.coerce.number(),
+  is_saved: z.boolean(),
+  is_mute: z.boolean(),
+});
+
+export type StreamsResponse = z.infer<typeof StreamsResponseSchema>;
+
+export const VideoDetailsResponseSchema = z.object({
+  id: z.number(),
+
+  title: z.string(),
+  description: nullableString,
+  thumbnail_url: nullableString,
+  broadcast_url: nullableString,
+  video_url: nullableString,
+  status: z.nativeEnum(CONTENT_STATUS),
+  created_at: z.string(),
+  started_at: z.string(),
+  scheduled_at: z.string().nullish(),
+
+  user_id: z.number(),
+  display_name: z.string(),
+  avatar_file_url: nullableString,
+  subscriptions: z.coerce.number(),
+
+  views: z.coerce.number(),
+  comments: z.coerce.number(),
+  shares: z.coerce.number(),
+  likes: ReactionStatsSchema,
+  current_like_type: z.nativeEnum(Reaction).nullable(),
+  is_current_like: z.boolean(),
+  is_owner: z.boolean(),
+  is_subscribed: z.boolean(),
+  is_mute: z.boolean(),
+  is_saved: z.boolean(),
+  duration: z.coerce.number(),
+
+  categories: z.array(CategoryResponseSchema),
+});
+
+export type VideoDetailsResponse = z.infer<typeof VideoDetailsResponseSchema>;
 
 export type CommentsListRequest = {
   page?: number;
@@ -87,15 +100,17 @@ export type CommentsListRequest = {
   videoId: number;
 };
 
-export interface CommentsResponse {
-  id: number;
-  display_name: string;
-  avatar_url: string;
-  content: string;
-  created_at: string;
-  is_me: boolean;
-  is_edited: boolean;
-}
+export const CommentsResponseSchema = z.object({
+  id: z.number(),
+  display_name: z.string(),
+  avatar_url: z.string(),
+  content: z.string(),
+  created_at: z.string(),
+  is_me: z.boolean(),
+  is_edited: z.boolean(),
+});
+
+export type CommentsResponse = z.infer<typeof CommentsResponseSchema>;
 
 export type CreateCommentRequest = {
   videoId: number;
@@ -107,10 +122,14 @@ export type UpdateCommentRequest = {
   content: string;
 };
 
-export interface AddViewResponse {
-  is_added: boolean;
-}
+export const AddViewResponseSchema = z.object({
+  is_added: z.boolean(),
+});
+
+export type AddViewResponse = z.infer<typeof AddViewResponseSchema>;
+
+export const AddShareResponseSchema = z.object({
+  is_added: z.boolean(),
+});
 
-export interface AddShareResponse {
-  is_added: boolean;
-}
+export type AddShareResponse = z.infer<typeof AddShareResponseSchema>;
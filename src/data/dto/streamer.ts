@@ -1,17 +1,23 @@
-export interface StreamerDetailsResponse {
-  id: number;
-  streamer_name: string;
-  streamer_avatar_url: string;
+import { z } from 'zod';
 
-  is_subscribed: boolean;
-  is_mute: boolean;
-  is_me: boolean;
+export const StreamerDetailsResponseSchema = z.object({
+  id: z.number(),
+  streamer_name: z.string(),
+  streamer_avatar_url: z.string(),
 
-  created_at: string;
-  total_like: number;
-  total_view: number;
-  total_comment: number;
-  total_share: number;
-  total_subscribe: number;
-  total_video: number;
-}
+  is_subscribed: z.boolean(),
+  is_mute: z.boolean(),
+  is_me: z.boolean(),
+
+  created_at: z.string(),
+  total_like: z.coerce.number(),
+  total_view: z.coerce.number(),
+  total_comment: z.coerce.number(),
+  total_share: z.coerce.number(),
+  total_subscribe: z.coerce.number(),
+  total_video: z.coerce.number(),
+});
+
+export type StreamerDetailsResponse = z.infer<
+  typeof StreamerDetailsResponseSchema
+>;
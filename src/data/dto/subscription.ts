@@ -1,12 +1,16 @@
-export interface SubscriptionResponse {
-  id: number;
-  streamer_id: number;
-  streamer_name: string;
-  streamer_avatar_url: string;
-  num_subscribed: number;
-  num_video: number;
-  is_mute: boolean;
-}
+import { z } from 'zod';
+
+export const SubscriptionResponseSchema = z.object({
+  id: z.number(),
+  streamer_id: z.number(),
+  streamer_name: z.string(),
+  streamer_avatar_url: z.string(),
+  num_subscribed: z.coerce.number(),
+  num_video: z.coerce.number(),
+  is_mute: z.boolean(),
+});
+
+export type SubscriptionResponse = z.infer<typeof SubscriptionResponseSchema>;
 
 export type SubscriptionListRequest = {
   page?: number;
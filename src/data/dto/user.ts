@@ -1,12 +1,18 @@
-export interface User2FACheckResponse {
-  secret: string;
-  qr_code: string;
-  is2fa_enabled: boolean;
-}
+import { z } from 'zod';
 
-export interface User2FAVerityResponse {
-  is_verified: boolean;
-}
+export const User2FACheckResponseSchema = z.object({
+  secret: z.string(),
+  qr_code: z.string(),
+  is2fa_enabled: z.boolean(),
+});
+
+export type User2FACheckResponse = z.infer<typeof User2FACheckResponseSchema>;
+
+export const User2FAVerityResponseSchema = z.object({
+  is_verified: z.boolean(),
+});
+
+export type User2FAVerityResponse = z.infer<typeof User2FAVerityResponseSchema>;
 
 export interface ChangePasswordRequest {
   currentPassword: string;
@@ -19,12 +25,19 @@ export interface UserProfileInfoUpdateRequest {
   avatarPreview?: string | null;
 }
 
-export interface UserProfileInfoUpdateResponse {
-  username: string;
-  display_name: string;
-  avatar_file_url: string;
-  email: string;
-  role_type: string;
-}
+export const UserProfileInfoUpdateResponseSchema = z.object({
+  username: z.string(),
+  display_name: z.string(),
+  avatar_file_url: z
+    .string()
+    .nullish()
+    .transform((url) => url ?? ''),
+  email: z.string(),
+  role_type: z.string(),
+});
+
+export type UserProfileInfoUpdateResponse = z.infer<
+  typeof UserProfileInfoUpdateResponseSchema
+>;
 
 export type ChangePasswordResponse = UserProfileInfoUpdateResponse;
@@ -0,0 +1,67 @@
+import { StreamDetailsResponse } from '@/data/dto/stream';
+import { getLoggedInUserInfo } from '@/data/model/userAccount';
+import { STREAM_TYPE } from '@/data/types/stream';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+
+const STORAGE_KEY = 'activeStream';
+
+// the broadcast this user started from this device and hasn't ended yet,
+// kept so a reload doesn't lose track of it
+export type ActiveStreamModel = {
+  type: STREAM_TYPE;
+  details: StreamDetailsResponse;
+};
+
+const getStorageKey = (): string =>
+  `${STORAGE_KEY}:${getLoggedInUserInfo().id || 'guest'}`;
+
+const onActiveStreamChange = (): void => {
+  EventEmitter.emit(EVENT_EMITTER_NAME.ACTIVE_STREAM_CHANGE, getActiveStream());
+};
+
+export const getActiveStream = (): ActiveStreamModel | null => {
+  try {
+    const storedData = localStorage.getItem(getStorageKey());
+    if (!storedData) return null;
+
+    const activeStream: ActiveStreamModel = JSON.parse(storedData);
+    return activeStream?.details?.id ? activeStream : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveStream = (
+  type: STREAM_TYPE,
+  details: StreamDetailsResponse
+): void => {
+  localStorage.setItem(getStorageKey(), JSON.stringify({ type, details }));
+  onActiveStreamChange();
+};
+
+// keeps the stored details in sync after an edit, if `details` is the active stream
+export const updateActiveStream = (details: StreamDetailsResponse): void => {
+  const activeStream = getActiveStream();
+  if (!activeStream || activeStream.details.id !== details.id) return;
+
+  saveActiveStream(activeStream.type, details);
+};
+
+export const clearActiveStream = (): void => {
+  if (!localStorage.getItem(getStorageKey())) return;
+
+  localStorage.removeItem(getStorageKey());
+  onActiveStreamChange();
+};
+
+export const subscribeActiveStreamChange = (
+  onChange: (activeStream: ActiveStreamModel | null) => void
+): void => {
+  EventEmitter.subscribe(EVENT_EMITTER_NAME.ACTIVE_STREAM_CHANGE, onChange);
+};
+
+export const unsubscribeActiveStreamChange = (
+  onChange: (activeStream: ActiveStreamModel | null) => void
+): void => {
+  EventEmitter.unsubscribe(EVENT_EMITTER_NAME.ACTIVE_STREAM_CHANGE, onChange);
+};
@@ -0,0 +1,213 @@
+import { Reaction, ReactionStats } from '@/data/chat';
+import {
+  CommentsResponse,
+  StreamsResponse,
+  VideoDetailsResponse,
+} from '@/data/dto/stream';
+import { StreamerDetailsResponse } from '@/data/dto/streamer';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+import {
+  getLoggedInUserInfo,
+  subscribeAccountChange,
+} from '@/data/model/userAccount';
+
+// interaction state shared by every list and page that shows the video
+export type VideoEntity = {
+  id: number;
+  is_saved?: boolean;
+  views?: number;
+  comments?: number;
+  shares?: number;
+  like_count?: number;
+  like_stats?: ReactionStats;
+  current_like_type?: Reaction | null;
+};
+
+export type StreamerEntity = {
+  id: number;
+  is_subscribed?: boolean;
+  is_mute?: boolean;
+  subscriptions?: number;
+};
+
+export type EntityState = {
+  videos: Record<number, VideoEntity>;
+  streamers: Record<number, StreamerEntity>;
+  comments: Record<number, CommentsResponse>;
+};
+
+type EntityName = keyof EntityState;
+
+type EntityPatch<T> = Partial<T> | ((entity: T | undefined) => Partial<T>);
+
+const initialState: EntityState = {
+  videos: {},
+  streamers: {},
+  comments: {},
+};
+
+let state: EntityState = initialState;
+
+const onEntitiesChange = (): void => {
+  EventEmitter.emit(EVENT_EMITTER_NAME.ENTITIES_CHANGE, state);
+};
+
+const upsertEntities = <K extends EntityName>(
+  name: K,
+  entities: EntityState[K][number][]
+): void => {
+  if (entities.length === 0) return;
+
+  const table = { ...state[name] } as Record<number, EntityState[K][number]>;
+  entities.forEach((entity) => {
+    table[entity.id] = { ...table[entity.id], ...entity };
+  });
+
+  state = { ...state, [name]: table };
+  onEntitiesChange();
+};
+
+/**
+ * Applies a patch to a single entity and returns a function that restores
+ * the previous value, so optimistic updates can be rolled back.
+ */
+const patchEntity = <K extends EntityName>(
+  name: K,
+  id: number,
+  patch: EntityPatch<EntityState[K][number]>
+): (() => void) => {
+  const table = state[name] as Record<number, EntityState[K][number]>;
+  const previous = table[id];
+  const changes = typeof patch === 'function' ? patch(previous) : patch;
+
+  state = {
+    ...state,
+    [name]: { ...table, [id]: { ...previous, ...changes, id } },
+  };
+  onEntitiesChange();
+
+  return () => {
+    const restored = { ...state[name] } as Record<
+      number,
+      EntityState[K][number]
+    >;
+    if (previous) restored[id] = previous;
+    else delete restored[id];
+
+    state = { ...state, [name]: restored };
+    onEntitiesChange();
+  };
+};
+
+export const getEntities = (): EntityState => state;
+
+export const upsertVideos = (videos: VideoEntity[]): void =>
+  upsertEntities('videos', videos);
+
+export const upsertStreamers = (streamers: StreamerEntity[]): void =>
+  upsertEntities('streamers', streamers);
+
+export const upsertComments = (comments: CommentsResponse[]): void =>
+  upsertEntities('comments', comments);
+
+export const patchVideo = (
+  id: number,
+  patch: EntityPatch<VideoEntity>
+): (() => void) => patchEntity('videos', id, patch);
+
+export const patchStreamer = (
+  id: number,
+  patch: EntityPatch<StreamerEntity>
+): (() => void) => patchEntity('streamers', id, patch);
+
+export const patchComment = (
+  id: number,
+  patch: EntityPatch<CommentsResponse>
+): (() => void) => patchEntity('comments', id, patch);
+
+export const removeComment = (id: number): void => {
+  const comments = { ...state.comments };
+  delete comments[id];
+
+  state = { ...state, comments };
+  onEntitiesChange();
+};
+
+export const clearEntities = (): void => {
+  state = initialState;
+  onEntitiesChange();
+};
+
+export const subscribeEntitiesChange = (onChange: () => void): void => {
+  EventEmitter.subscribe(EVENT_EMITTER_NAME.ENTITIES_CHANGE, onChange);
+};
+
+export const unsubscribeEntitiesChange = (onChange: () => void): void => {
+  EventEmitter.unsubscribe(EVENT_EMITTER_NAME.ENTITIES_CHANGE, onChange);
+};
+
+// ----- normalizers ----- //
+
+export const toVideoEntity = (video: StreamsResponse): VideoEntity => ({
+  id: video.id,
+  is_saved: video.is_saved,
+  views: video.views,
+  comments: video.comments,
+  like_count: video.likes,
+});
+
+export const fromVideoDetails = (
+  details: VideoDetailsResponse
+): { video: VideoEntity; streamer: StreamerEntity } => ({
+  video: {
+    id: details.id,
+    is_saved: details.is_saved,
+    views: details.views,
+    comments: details.comments,
+    shares: details.shares,
+    like_count: details.likes?.total,
+    like_stats: details.likes,
+    current_like_type: details.current_like_type,
+  },
+  streamer: {
+    id: details.user_id,
+    is_subscribed: details.is_subscribed,
+    is_mute: details.is_mute,
+    subscriptions: details.subscriptions,
+  },
+});
+
+export const toStreamerEntity = (
+  streamer: StreamerDetailsResponse
+): StreamerEntity => ({
+  id: streamer.id,
+  is_subscribed: streamer.is_subscribed,
+  is_mute: streamer.is_mute,
+  subscriptions: streamer.total_subscribe,
+});
+
+// overlays the shared state on a list item
+export const applyVideoEntity = (
+  video: StreamsResponse,
+  entity?: VideoEntity
+): StreamsResponse => {
+  if (!entity) return video;
+
+  return {
+    ...video,
+    is_saved: entity.is_saved ?? video.is_saved,
+    views: entity.views ?? video.views,
+    comments: entity.comments ?? video.comments,
+    likes: entity.like_count ?? video.likes,
+  };
+};
+
+// entities are per user (bookmarks, reactions, subscriptions)
+let entitiesUserId = getLoggedInUserInfo().id;
+
+subscribeAccountChange(({ id }) => {
+  if (id === entitiesUserId) return;
+
+  entitiesUserId = id;
+  clearEntities();
+});
@@ -0,0 +1,60 @@
+import { getLoggedInUserInfo } from '@/data/model/userAccount';
+import {
+  AudioMixerSettings,
+  DEFAULT_AUDIO_MIXER_SETTINGS,
+} from '@/lib/audio-mixer';
+import { VIDEO_PRESET } from '@/lib/media-devices';
+
+const STORAGE_KEY = 'streamSettings';
+
+// which recording format to try first when going live from the browser
+export enum RECORDER_PREFERENCE {
+  QUALITY = 'quality', // best compression the browser offers
+  COMPATIBILITY = 'compatibility', // the format every ingest handles
+}
+
+// how long a webcam broadcast may try to reconnect before it ends, in seconds
+export const RECOVERY_GRACE_PERIODS = [30, 60, 120, 300];
+
+export type StreamSettingsModel = {
+  recorderPreference: RECORDER_PREFERENCE;
+  recoveryGracePeriod: number;
+  // null picks the browser's default device
+  videoDeviceId: string | null;
+  audioDeviceId: string | null;
+  videoPreset: VIDEO_PRESET;
+  audioMixer: AudioMixerSettings;
+};
+
+const DEFAULT_STREAM_SETTINGS: StreamSettingsModel = {
+  recorderPreference: RECORDER_PREFERENCE.COMPATIBILITY,
+  recoveryGracePeriod: 60,
+  videoDeviceId: null,
+  audioDeviceId: null,
+  videoPreset: VIDEO_PRESET.HD_30,
+  audioMixer: DEFAULT_AUDIO_MIXER_SETTINGS,
+};
+
+// settings are kept per user on this device
+const getStorageKey = (): string =>
+  `${STORAGE_KEY}:${getLoggedInUserInfo().id || 'guest'}`;
+
+export const getStreamSettings = (): StreamSettingsModel => {
+  try {
+    const storedData = localStorage.getItem(getStorageKey());
+    if (!storedData) return DEFAULT_STREAM_SETTINGS;
+
+    return { ...DEFAULT_STREAM_SETTINGS, ...JSON.parse(storedData) };
+  } catch {
+    return DEFAULT_STREAM_SETTINGS;
+  }
+};
+
+export const saveStreamSettings = (
+  settings: Partial<StreamSettingsModel>
+): StreamSettingsModel => {
+  const nextSettings = { ...getStreamSettings(), ...settings };
+  localStorage.setItem(getStorageKey(), JSON.stringify(nextSettings));
+
+  return nextSettings;
+};
@@ -6,6 +6,9 @@ import { matchPath } from 'react-router-dom';
 
 const STORAGE_KEY = 'authInfo';
 
+// access token is treated as expired this long before its real expiration time
+const EXPIRATION_MARGIN_MINUTES = 2;
+
 export type UserAccountModel = {
   id: string | null;
   email: string | null;
@@ -14,6 +17,7 @@ export type UserAccountModel = {
   avatar_file_name: string | null;
   role_type: string | null;
   token: string | null;
+  refresh_token: string | null;
 
   expiration_time?: moment.Moment | null;
   expired?: boolean | null;
@@ -28,6 +32,7 @@ let data: UserAccountModel = {
   avatar_file_name: null,
   role_type: null,
   token: null,
+  refresh_token: null,
 
   expiration_time: null,
   expired: false,
@@ -42,6 +47,7 @@ interface AccountStorage {
   avatar_file_name: string;
   role_type: string;
   token: string;
+  refresh_token?: string;
 
   expiration_time?: string;
   createdAt?: string;
@@ -76,6 +82,7 @@ const clearData = (): void => {
     avatar_file_name: null,
     role_type: null,
     token: null,
+    refresh_token: null,
 
     expiration_time: null,
     expired: false,
@@ -97,7 +104,8 @@ export const authAccount = (
   avatar_file_name: string,
   role_type: string,
   token: string,
-  expiration_time: moment.Moment
+  expiration_time: moment.Moment,
+  refresh_token?: string | null
 ): void => {
   data = {
     id,
@@ -108,6 +116,7 @@ export const authAccount = (
     role_type,
 
     token,
+    refresh_token: refresh_token || null,
     expiration_time,
     expired: false,
   };
@@ -121,6 +130,7 @@ export const authAccount = (
     avatar_file_name,
     role_type,
     token,
+    refresh_token: refresh_token || undefined,
     expiration_time: utc,
   };
 
@@ -130,6 +140,52 @@ export const authAccount = (
   onAccountChange();
 };
 
+export const renewAuthToken = (
+  token: string,
+  refresh_token: string,
+  expiration_time: moment.Moment
+): void => {
+  const storedData = localStorage.getItem(STORAGE_KEY);
+  if (!storedData) return;
+
+  data = { ...data, token, refresh_token, expiration_time, expired: false };
+
+  const dataStorage: AccountStorage = {
+    ...JSON.parse(storedData),
+    token,
+    refresh_token,
+    expiration_time: expiration_time.toISOString(),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(dataStorage));
+
+  onAccountChange();
+  EventEmitter.emit(EVENT_EMITTER_NAME.AUTH_TOKEN_REFRESH, token);
+};
+
+/**
+ * Takes over a token another tab renewed since this one last read storage,
+ * they share one refresh token.
+ */
+export const syncStoredAuthToken = (): void => {
+  const storedData = localStorage.getItem(STORAGE_KEY);
+  if (!storedData || !data.token) return;
+
+  const { token, refresh_token, expiration_time }: AccountStorage =
+    JSON.parse(storedData);
+  if (!token || token === data.token) return;
+
+  data = {
+    ...data,
+    token,
+    refresh_token: refresh_token || null,
+    expiration_time: expiration_time ? moment(expiration_time) : null,
+    expired: false,
+  };
+
+  onAccountChange();
+  EventEmitter.emit(EVENT_EMITTER_NAME.AUTH_TOKEN_REFRESH, token);
+};
+
 export const updateAccountProfile = (
   displayName?: string,
   avatarFileName?: string
@@ -169,6 +225,16 @@ export const invalidateAccount = (): void => {
   onAccountChange();
 };
 
+/**
+ * Reports that the server rejected the current session.
+ * Only the first failure emits, since handling it clears the session.
+ */
+export const notifyUnauthorizedUser = (): void => {
+  if (!data.token) return;
+
+  EventEmitter.emit(EVENT_EMITTER_NAME.EVENT_UNAUTHORIZED_USER);
+};
+
 const loadStorage = (): void => {
   const dataStr = localStorage.getItem(STORAGE_KEY);
   if (dataStr) {
@@ -180,12 +246,17 @@ const loadStorage = (): void => {
       avatar_file_name,
       role_type,
       token,
+      refresh_token,
       expiration_time: expirationStr,
     }: AccountStorage = JSON.parse(dataStr);
 
-    const nowMm = moment().add(2, 'minutes');
+    const nowMm = moment().add(EXPIRATION_MARGIN_MINUTES, 'minutes');
     const expirationMm = expirationStr ? moment(expirationStr) : null;
-    if (expirationMm !== null && expirationMm.isAfter(nowMm)) {
+    // an expired access token is kept when it can still be renewed
+    if (
+      expirationMm !== null &&
+      (expirationMm.isAfter(nowMm) || !!refresh_token)
+    ) {
       data = {
         id,
         email,
@@ -195,6 +266,7 @@ const loadStorage = (): void => {
         role_type,
 
         token,
+        refresh_token: refresh_token || null,
         expired: false,
         expiration_time: expirationMm,
       };
@@ -211,13 +283,24 @@ export const getLoggedInUserInfo = (): UserAccountModel => {
   return { ...data };
 };
 
-export const retrieveAuthToken = (): string | null => {
+export const isAuthTokenExpiring = (): boolean => {
   const { expiration_time, token } = data;
-  const nowMm = moment().add(2, 'minutes');
+  const nowMm = moment().add(EXPIRATION_MARGIN_MINUTES, 'minutes');
+
+  return !!token && (!expiration_time || !expiration_time.isAfter(nowMm));
+};
+
+export const retrieveAuthToken = (): string | null => {
+  const { expiration_time, token, refresh_token } = data;
+
+  // with a refresh token the access token stays usable until it really expires
+  const nowMm = refresh_token
+    ? moment()
+    : moment().add(EXPIRATION_MARGIN_MINUTES, 'minutes');
 
   if (!!expiration_time && expiration_time.isAfter(nowMm)) return token;
 
-  onAuthExpired();
+  if (!refresh_token) onAuthExpired();
 
   return null;
 };
@@ -238,3 +321,8 @@ EventEmitter.subscribe(
   EVENT_EMITTER_NAME.EVENT_UNAUTHORIZED_USER,
   onAuthExpired
 );
+
+// a renewal in another tab reschedules this tab's own instead of racing it
+window.addEventListener('storage', (event) => {
+  if (event.key === STORAGE_KEY && event.newValue) syncStoredAuthToken();
+});
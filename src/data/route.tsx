@@ -1,4 +1,5 @@
 import { USER_ROLE } from '@/data/types/role';
+import { STREAM_TYPE } from '@/data/types/stream';
 import {
   Bookmark,
   Frame,
@@ -8,6 +9,7 @@ import {
   Settings2,
   ThumbsUp,
 } from 'lucide-react';
+import { Location } from 'react-router-dom';
 
 export const RESOURCE_ID = ':id';
 
@@ -31,6 +33,12 @@ export const SAVED_VIDEOS_PATH = APP_PREFIX_PATH + '/saved';
 export const LIVE_STREAM_PATH = APP_PREFIX_PATH + '/live';
 export const LIVE_STREAM_WEBCAM_PATH = LIVE_STREAM_PATH + '/webcam';
 export const LIVE_STREAM_SOFTWARE_PATH = LIVE_STREAM_PATH + '/software';
+export const LIVE_STREAM_SCREEN_PATH = LIVE_STREAM_PATH + '/screen';
+export const LIVE_STREAM_PATH_BY_TYPE: Record<STREAM_TYPE, string> = {
+  [STREAM_TYPE.CAMERA]: LIVE_STREAM_WEBCAM_PATH,
+  [STREAM_TYPE.SOFTWARE]: LIVE_STREAM_SOFTWARE_PATH,
+  [STREAM_TYPE.SCREEN]: LIVE_STREAM_SCREEN_PATH,
+};
 
 export const STREAMER_PROFILE_PATH =
   APP_PREFIX_PATH + '/channel/' + RESOURCE_ID;
@@ -56,6 +64,7 @@ export const LEFT_MAIN_MENU: Record<USER_ROLE, string[]> = {
     LIVE_STREAM_PATH,
     LIVE_STREAM_WEBCAM_PATH,
     LIVE_STREAM_SOFTWARE_PATH,
+    LIVE_STREAM_SCREEN_PATH,
 
     HISTORY_PATH,
     LIKED_VIDEOS_PATH,
@@ -102,6 +111,11 @@ export const LEFT_MAIN_MENU: Record<USER_ROLE, string[]> = {
   ],
 };
 
+export type LoginRedirectState = {
+  from?: Location;
+  sessionExpired?: boolean;
+};
+
 export type RouteInfo = {
   path: string;
   title: string;
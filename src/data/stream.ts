@@ -24,11 +24,33 @@ export const modalTexts = {
       description:
         'Live has been ended because you have ended from your streaming software.',
     },
+    // stopped from the browser's own screen sharing controls
+    screenShareEnded: {
+      title: 'Screen Sharing Stopped',
+      description:
+        'Your live stream has ended because you stopped sharing your screen.',
+    },
     confirmToEnd: {
       title: 'End Live Stream: Are You Sure?',
       description:
         "Ending your live stream will immediately stop your broadcast, and your viewer count and live status will reset. Make sure you're ready to wrap up before confirming.",
     },
+    // found after a reload or when coming back to the live page
+    inProgress: {
+      title: 'You Have a Live Stream in Progress',
+      description:
+        'Your last live stream is still running. Resume it to get back to your chat and stats, or end it now.',
+    },
+    failedToEnd: {
+      title: "Couldn't End Live Stream",
+      description:
+        'The stream server could not be reached. Check your connection and try again.',
+    },
+    unsupportedRecorder: {
+      title: "Can't Go Live From This Browser",
+      description:
+        "Your browser can't record video in any format the stream server accepts. Try the latest Chrome, Edge, Firefox or Safari, or switch the recording preference in Settings.",
+    },
     successUpdate: {
       title: 'Stream Details Updated Successfully!',
       description:
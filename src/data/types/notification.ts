@@ -0,0 +1,27 @@
+import { NotificationResponse } from '@/data/dto/notification';
+import { SOCKET_STATE } from '@/lib/socket-connection';
+
+// only one tab holds the notification socket and shares it with the others
+export const NOTIFICATION_SOCKET_LEADER = 'notification-socket';
+
+export enum NOTIFICATION_TAB_EVENT {
+  NOTIFICATION = 'notification',
+  COUNT = 'count',
+  READ = 'read',
+  HIDE = 'hide',
+  CONNECTION_STATE = 'connection_state',
+  SEND = 'send', // a message for the leader to send over the socket
+  SYNC_REQUEST = 'sync_request', // a new tab asks the leader for its state
+}
+
+export type NotificationTabMessage =
+  | {
+      type: NOTIFICATION_TAB_EVENT.NOTIFICATION;
+      notification: NotificationResponse;
+    }
+  | { type: NOTIFICATION_TAB_EVENT.COUNT; count: number }
+  | { type: NOTIFICATION_TAB_EVENT.READ; id: number }
+  | { type: NOTIFICATION_TAB_EVENT.HIDE; id: number }
+  | { type: NOTIFICATION_TAB_EVENT.CONNECTION_STATE; state: SOCKET_STATE }
+  | { type: NOTIFICATION_TAB_EVENT.SEND; data: unknown }
+  | { type: NOTIFICATION_TAB_EVENT.SYNC_REQUEST };
@@ -0,0 +1,37 @@
+import { Reaction } from '@/data/chat';
+
+export const PENDING_SYNC_DESCRIPTION =
+  "You're offline. This change will sync once you're back online.";
+
+export enum OUTBOX_ACTION {
+  BOOKMARK = 'bookmark',
+  REACTION = 'reaction',
+  SUBSCRIPTION = 'subscription',
+  MUTE_NOTIFICATIONS = 'mute_notifications',
+}
+
+// each mutation records the state the user asked for, not a toggle
+export type OutboxMutation =
+  | { action: OUTBOX_ACTION.BOOKMARK; videoId: number; isSaved: boolean }
+  | {
+      action: OUTBOX_ACTION.REACTION;
+      videoId: number;
+      likeStatus: boolean;
+      likeType: Reaction;
+    }
+  | {
+      action: OUTBOX_ACTION.SUBSCRIPTION;
+      streamerId: number;
+      isSubscribed: boolean;
+    }
+  | {
+      action: OUTBOX_ACTION.MUTE_NOTIFICATIONS;
+      streamerId: number;
+      isMute: boolean;
+    };
+
+export type OutboxEntry = OutboxMutation & {
+  id?: number;
+  userId: string;
+  createdAt: number;
+};
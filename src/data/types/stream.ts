@@ -11,9 +11,10 @@ export type StreamDetailsUpdateRequest = {
 export enum STREAM_TYPE {
   'CAMERA' = 'camera',
   'SOFTWARE' = 'software',
+  'SCREEN' = 'screen',
 }
 
-export const enum CONTENT_STATUS {
+export enum CONTENT_STATUS {
   LIVE = 'live', // currently streaming
   UPCOMING = 'upcoming', // premire scheduled-streams
   VIDEO = 'video', // stream ended
@@ -0,0 +1,23 @@
+import {
+  ActiveStreamModel,
+  getActiveStream,
+  subscribeActiveStreamChange,
+  unsubscribeActiveStreamChange,
+} from '@/data/model/activeStream';
+import { fetchActiveStream } from '@/services/stream';
+import { useEffect, useState } from 'react';
+
+// the broadcast left running by a reload, if any
+export function useActiveStream(): ActiveStreamModel | null {
+  const [activeStream, setActiveStream] = useState(getActiveStream);
+
+  useEffect(() => {
+    subscribeActiveStreamChange(setActiveStream);
+    // forgets a broadcast that ended while the app was closed
+    fetchActiveStream();
+
+    return () => unsubscribeActiveStreamChange(setActiveStream);
+  }, []);
+
+  return activeStream;
+}
@@ -0,0 +1,48 @@
+import { AUDIO_SOURCE, AudioLevels, CLIPPING_LEVEL } from '@/lib/audio-mixer';
+import { useEffect, useRef, useState } from 'react';
+
+const METER_INTERVAL = 66; // ms, about 15 updates a second
+const CLIPPING_HOLD = 1500; // ms a clipping warning stays up
+
+type LevelKey = AUDIO_SOURCE | 'master';
+
+// polls the mixer's meters while `isActive`, flagging what clipped lately
+export function useAudioLevels(
+  getLevels: () => AudioLevels | null,
+  isActive = true
+) {
+  const getLevelsRef = useRef(getLevels);
+  getLevelsRef.current = getLevels;
+  const clippedAtRef = useRef<Partial<Record<LevelKey, number>>>({});
+  const [levels, setLevels] = useState<AudioLevels | null>(null);
+  const [clipping, setClipping] = useState<LevelKey[]>([]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const timer = setInterval(() => {
+      const nextLevels = getLevelsRef.current();
+      setLevels(nextLevels);
+      if (!nextLevels) return;
+
+      const now = Date.now();
+      const clippedAt = clippedAtRef.current;
+      (Object.keys(nextLevels) as LevelKey[]).forEach((key) => {
+        if (nextLevels[key].peak >= CLIPPING_LEVEL) clippedAt[key] = now;
+      });
+
+      const nextClipping = (Object.keys(clippedAt) as LevelKey[]).filter(
+        (key) => now - (clippedAt[key] || 0) < CLIPPING_HOLD
+      );
+      setClipping((prevClipping) =>
+        prevClipping.join() === nextClipping.join()
+          ? prevClipping
+          : nextClipping
+      );
+    }, METER_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  return { levels, clipping };
+}
@@ -0,0 +1,107 @@
+import {
+  getStreamSettings,
+  saveStreamSettings,
+} from '@/data/model/streamSettings';
+import {
+  AUDIO_SOURCE,
+  AudioLevels,
+  AudioMixer,
+  AudioMixerSettings,
+} from '@/lib/audio-mixer';
+import logger from '@/lib/logger';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+type AudioSourceTracks = Partial<
+  Record<AUDIO_SOURCE.MIC | AUDIO_SOURCE.SYSTEM, MediaStreamTrack | null>
+>;
+
+/**
+ * The broadcast's audio mix: captured tracks and a music file go in, one
+ * track for the recorder comes out. The levels are remembered per user.
+ */
+export function useAudioMixer() {
+  const mixerRef = useRef<AudioMixer | null>(null);
+  // kept for a mixer created after the tracks were handed over
+  const sourceTracksRef = useRef<AudioSourceTracks>({});
+  const musicUrlRef = useRef<string | null>(null);
+  const [settings, setSettings] = useState(
+    () => getStreamSettings().audioMixer
+  );
+  const [musicName, setMusicName] = useState<string | null>(null);
+  const [isMusicPlaying, setIsMusicPlaying] = useState(false);
+
+  const setSourceTracks = (tracks: AudioSourceTracks) => {
+    sourceTracksRef.current = { ...sourceTracksRef.current, ...tracks };
+    Object.entries(tracks).forEach(([source, track]) =>
+      mixerRef.current?.setSourceTrack(source as AUDIO_SOURCE, track)
+    );
+  };
+
+  const changeSettings = (changes: Partial<AudioMixerSettings>) => {
+    const nextSettings = { ...settings, ...changes };
+    setSettings(nextSettings);
+    mixerRef.current?.applySettings(nextSettings);
+    saveStreamSettings({ audioMixer: nextSettings });
+  };
+
+  const changeGain = (source: AUDIO_SOURCE, gain: number) =>
+    changeSettings({ gains: { ...settings.gains, [source]: gain } });
+
+  const changeMusic = (file: File | null) => {
+    if (musicUrlRef.current) URL.revokeObjectURL(musicUrlRef.current);
+    musicUrlRef.current = file ? URL.createObjectURL(file) : null;
+
+    mixerRef.current?.setMusic(musicUrlRef.current);
+    setMusicName(file?.name || null);
+    setIsMusicPlaying(false);
+  };
+
+  const toggleMusic = async () => {
+    const mixer = mixerRef.current;
+    if (!mixer) return;
+
+    if (mixer.isMusicPlaying()) mixer.pauseMusic();
+    else
+      await mixer.playMusic().catch((error) => {
+        logger.error('Error playing music:', error);
+        toast.error("Couldn't play the music file.");
+      });
+    setIsMusicPlaying(mixer.isMusicPlaying());
+  };
+
+  const getOutputTrack = (): MediaStreamTrack | null =>
+    mixerRef.current?.getOutputTrack() || null;
+
+  const getLevels = (): AudioLevels | null =>
+    mixerRef.current?.getLevels() || null;
+
+  useEffect(() => {
+    const mixer = new AudioMixer();
+    mixer.applySettings(getStreamSettings().audioMixer);
+    Object.entries(sourceTracksRef.current).forEach(([source, track]) =>
+      mixer.setSourceTrack(source as AUDIO_SOURCE, track)
+    );
+    mixerRef.current = mixer;
+
+    return () => {
+      mixer.close();
+      mixerRef.current = null;
+      if (musicUrlRef.current) URL.revokeObjectURL(musicUrlRef.current);
+      musicUrlRef.current = null;
+    };
+  }, []);
+
+  return {
+    settings,
+    musicName,
+    isMusicPlaying,
+    setSourceTracks,
+    changeSettings,
+    changeGain,
+    changeMusic,
+    toggleMusic,
+    getOutputTrack,
+    getLevels,
+  };
+}
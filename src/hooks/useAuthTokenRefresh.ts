@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+
+// Increments every time the access token is renewed, so effects that
+// authenticate with the token (eg: websockets) can reconnect with the new one.
+export function useAuthTokenRefresh() {
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    const handleTokenRefresh = () => setRefreshCount((prev) => prev + 1);
+
+    EventEmitter.subscribe(
+      EVENT_EMITTER_NAME.AUTH_TOKEN_REFRESH,
+      handleTokenRefresh
+    );
+
+    return () => {
+      EventEmitter.unsubscribe(
+        EVENT_EMITTER_NAME.AUTH_TOKEN_REFRESH,
+        handleTokenRefresh
+      );
+    };
+  }, []);
+
+  return refreshCount;
+}
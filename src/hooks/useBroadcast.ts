@@ -0,0 +1,439 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { NotificationModalProps } from '@/components/NotificationModal';
+import { ConfirmationModalProps } from '@/components/ConfirmationModal';
+import { NotifyModalType } from '@/components/UITypes';
+import { modalTexts } from '@/data/stream';
+import {
+  LIVE_STREAM_PATH,
+  LIVE_STREAM_PATH_BY_TYPE,
+  WATCH_VIDEO_PATH,
+} from '@/data/route';
+import { StreamDetailsResponse } from '@/data/dto/stream';
+import { CategoryResponse } from '@/data/dto/category';
+import {
+  clearActiveStream,
+  saveActiveStream,
+  updateActiveStream,
+} from '@/data/model/activeStream';
+import { FORM_MODE } from '@/data/types/ui/form';
+import { STREAM_TYPE } from '@/data/types/stream';
+import { fetchCategories } from '@/services/category';
+import {
+  ActiveStream,
+  endLiveStream,
+  fetchActiveStream,
+} from '@/services/stream';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+import { useIsMobile } from '@/hooks/useMobile';
+import { useAudioMixer } from '@/hooks/useAudioMixer';
+import { useLiveChatWebSocket } from '@/hooks/webSocket/useLiveChatWebSocket';
+import {
+  PauseOptions,
+  useLiveStreamWebSocket,
+} from '@/hooks/webSocket/useLiveStreamWebSocket';
+
+type ModalText = { title: string; description: string };
+
+interface ComponentProps {
+  type: STREAM_TYPE.CAMERA | STREAM_TYPE.SCREEN;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  // the picture that goes out, mixed with the broadcast's audio
+  getVideoTrack: () => MediaStreamTrack | null;
+  // fits the picture to the upload's bitrate, back to the preset with null
+  scaleVideo?: (height: number | null) => Promise<void> | void;
+  // gets the capture going before a stream starts, false when it didn't
+  prepareCapture?: () => Promise<boolean>;
+  stopCapture: () => void;
+}
+
+/**
+ * Everything a browser broadcast does whatever it captures: the stream
+ * details, the upload and chat sockets, the audio mix, pausing, ending and
+ * picking up a broadcast left running by a reload, with the modals they
+ * open. The page only brings the capture.
+ */
+export function useBroadcast({
+  type,
+  videoRef,
+  getVideoTrack,
+  scaleVideo,
+  prepareCapture,
+  stopCapture,
+}: ComponentProps) {
+  const navigate = useNavigate();
+  const isMobile = useIsMobile();
+
+  const [streamCategories, setStreamCategories] = useState<CategoryResponse[]>(
+    []
+  );
+  const [streamDetails, setStreamDetails] = useState<StreamDetailsResponse>({
+    id: null,
+    title: null,
+    description: null,
+    thumbnail_url: null,
+    push_url: null,
+    broadcast_url: null,
+    category_ids: [],
+    started_at: null,
+  });
+  const [isStreamDetailsModalOpen, setIsStreamDetailsModalOpen] =
+    useState(false);
+  const [notifyModal, setNotifyModal] = useState<NotificationModalProps>({
+    type: NotifyModalType.SUCCESS,
+    isOpen: false,
+    title: '',
+    description: '',
+    onClose: undefined,
+  });
+  const [confirmModal, setConfirmModal] = useState<ConfirmationModalProps>({
+    isDanger: false,
+    isOpen: false,
+    title: '',
+    description: '',
+    proceedBtnText: '',
+    onConfirm: () => {},
+    onCancel: () => {},
+  });
+  const [isPauseSettingsOpen, setIsPauseSettingsOpen] = useState(false);
+  const [isAudioMixerOpen, setIsAudioMixerOpen] = useState(false);
+  // a broadcast left running by a reload, until the streamer resumes or ends it
+  const [activeStream, setActiveStream] = useState<ActiveStream | null>(null);
+
+  // the broadcast's audio, levels and effects between the capture and the upload
+  const audioMixer = useAudioMixer();
+
+  // what goes out: the page's picture with the mixed audio
+  const getBroadcastStream = (): MediaStream | null => {
+    const videoTrack = getVideoTrack();
+    const audioTrack = audioMixer.getOutputTrack();
+    if (!videoTrack || !audioTrack) return null;
+
+    return new MediaStream([videoTrack, audioTrack]);
+  };
+
+  // stream websocket
+  const {
+    isStreamStarted,
+    isPaused,
+    connectionState: streamConnectionState,
+    uploadHealth,
+    recorderFormat,
+    setIsStreamStarted,
+    startStream,
+    pauseStream,
+    resumeStream,
+    stopStream,
+  } = useLiveStreamWebSocket({
+    videoRef,
+    getRecordingStream: getBroadcastStream,
+    scaleVideo,
+    setStreamDetails,
+  });
+
+  // live chat interaction websocket
+  const chat = useLiveChatWebSocket(
+    streamDetails?.id?.toString() || null,
+    isStreamStarted,
+    setIsStreamStarted
+  );
+  const { isLiveEndEventReceived, openChat, sendPause } = chat;
+
+  // toggle stream initialize modal to start a stream. Without this step, can't stream.
+  const handleStreamDetailsModalOpen = async (): Promise<void> => {
+    // don't create a stream this browser can't send
+    if (!recorderFormat) {
+      openNotifyModal(
+        NotifyModalType.ERROR,
+        modalTexts.stream.unsupportedRecorder.title,
+        modalTexts.stream.unsupportedRecorder.description
+      );
+      return;
+    }
+
+    if (prepareCapture && !(await prepareCapture())) return;
+
+    setIsStreamDetailsModalOpen(true);
+  };
+  const handleStreamDetailsModalClose = (): void =>
+    setIsStreamDetailsModalOpen(false);
+
+  // show success modal and start streaming after submitting stream initialization steps
+  const handleStreamSaveSuccess = (
+    data: StreamDetailsResponse,
+    mode: FORM_MODE
+  ): void => {
+    if (data.id) {
+      setIsStreamDetailsModalOpen(false);
+
+      const {
+        id,
+        title,
+        description,
+        thumbnail_url,
+        push_url,
+        broadcast_url,
+        category_ids,
+      } = data;
+      const details = {
+        id,
+        title,
+        description,
+        thumbnail_url,
+        push_url,
+        broadcast_url,
+        category_ids,
+        started_at: null,
+      };
+      setStreamDetails(details);
+
+      if (mode === FORM_MODE.CREATE) {
+        saveActiveStream(type, details);
+        setIsStreamStarted(true);
+        if (!isMobile) openChat();
+
+        openNotifyModal(
+          NotifyModalType.SUCCESS,
+          modalTexts.stream.successStart.title,
+          modalTexts.stream.successStart.description
+        );
+
+        startStream(data.id);
+      } else if (mode === FORM_MODE.EDIT) {
+        updateActiveStream(details);
+        openNotifyModal(
+          NotifyModalType.SUCCESS,
+          modalTexts.stream.successUpdate.title,
+          modalTexts.stream.successUpdate.description
+        );
+      }
+    }
+  };
+
+  // reattach to the broadcast: the upload restarts with a fresh recording
+  const handleResumeActiveStream = async (): Promise<void> => {
+    if (!activeStream?.details.id) return;
+    if (prepareCapture && !(await prepareCapture())) return;
+
+    const { details } = activeStream;
+    setActiveStream(null);
+    setStreamDetails(details);
+    setIsStreamStarted(true);
+    if (!isMobile) openChat();
+
+    startStream(details.id!);
+  };
+
+  const handleEndActiveStream = async (): Promise<void> => {
+    if (!activeStream?.details.id) return;
+
+    const { details } = activeStream;
+    setActiveStream(null);
+
+    const isEnded = await endLiveStream(details.id!);
+    if (!isEnded) {
+      openNotifyModal(
+        NotifyModalType.ERROR,
+        modalTexts.stream.failedToEnd.title,
+        modalTexts.stream.failedToEnd.description,
+        () => setActiveStream(activeStream)
+      );
+      return;
+    }
+
+    openNotifyModal(
+      NotifyModalType.SUCCESS,
+      modalTexts.stream.successEnd.title,
+      modalTexts.stream.successEnd.description,
+      () => {
+        navigate(WATCH_VIDEO_PATH.replace(':id', details.id!.toString()));
+      }
+    );
+  };
+
+  // cancel streaming. stop capturing.
+  const handleInitializeStreamCancel = (): void => {
+    stopCapture();
+    setIsStreamDetailsModalOpen(false);
+    navigate(LIVE_STREAM_PATH);
+  };
+
+  const handlePauseSettingsOpen = () => setIsPauseSettingsOpen(true);
+  const handlePauseSettingsClose = () => setIsPauseSettingsOpen(false);
+
+  const handleAudioMixerOpen = () => setIsAudioMixerOpen(true);
+  const handleAudioMixerClose = () => setIsAudioMixerOpen(false);
+
+  // step away without ending: viewers get a slate, the stream and chat go on
+  const handlePauseStream = (options: PauseOptions) => {
+    setIsPauseSettingsOpen(false);
+    pauseStream(options);
+    sendPause(true);
+  };
+  const handleResumeStream = () => {
+    resumeStream();
+    sendPause(false);
+  };
+
+  // show confirm modal before ending stream
+  const handleEndStream = () => {
+    openConfirmModal(
+      modalTexts.stream.confirmToEnd.title,
+      modalTexts.stream.confirmToEnd.description,
+      () => endStream(NotifyModalType.SUCCESS, modalTexts.stream.successEnd),
+      true,
+      'Confirm to End'
+    );
+  };
+
+  // end stream, terminates ws connection, stops capturing. The notice sends
+  // the streamer to the recording
+  const endStream = (noticeType: NotifyModalType, notice: ModalText) => {
+    EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_END);
+    setIsStreamStarted(false);
+    stopStream();
+    stopCapture();
+    openNotifyModal(noticeType, notice.title, notice.description, () => {
+      navigate(
+        WATCH_VIDEO_PATH.replace(':id', streamDetails?.id?.toString() || '')
+      );
+    });
+  };
+
+  // Modal dialogs
+  const openConfirmModal = (
+    title: string,
+    description: string | JSX.Element,
+    onConfirm: () => void,
+    isDanger?: boolean,
+    proceedBtnText?: string
+  ): void => {
+    closeNotifyModal();
+    setConfirmModal({
+      isDanger,
+      title,
+      description,
+      isOpen: true,
+      proceedBtnText,
+      onConfirm: () => {
+        closeConfirmationModal();
+        onConfirm();
+      },
+      onCancel: closeConfirmationModal,
+    });
+  };
+  const closeConfirmationModal = (): void => {
+    setConfirmModal({
+      isOpen: false,
+      title: '',
+      description: '',
+      onConfirm: () => {},
+      onCancel: () => {},
+    });
+  };
+  const openNotifyModal = useCallback(
+    (
+      type: NotifyModalType,
+      title: string,
+      description: string | JSX.Element,
+      onClose?: () => void
+    ): void => {
+      closeConfirmationModal();
+      setNotifyModal({
+        type,
+        title,
+        description,
+        isOpen: true,
+        onClose,
+      });
+    },
+    []
+  );
+  const closeNotifyModal = (): void => {
+    if (notifyModal.onClose) {
+      notifyModal.onClose();
+    }
+
+    setNotifyModal({
+      type: NotifyModalType.SUCCESS,
+      title: '',
+      description: '',
+      isOpen: false,
+      onClose: undefined,
+    });
+  };
+
+  // fetch categories as soon as the page is rendered
+  useEffect(() => {
+    const getCategories = async () => {
+      const data = await fetchCategories();
+      if (data) setStreamCategories(data);
+    };
+    getCategories();
+  }, []);
+
+  // offer to pick up a broadcast left running by a reload
+  useEffect(() => {
+    const checkActiveStream = async () => {
+      const data = await fetchActiveStream();
+      if (!data) return;
+
+      if (data.type === type) setActiveStream(data);
+      else navigate(LIVE_STREAM_PATH_BY_TYPE[data.type], { replace: true });
+    };
+    checkActiveStream();
+  }, [type, navigate]);
+
+  // show modal alert when live ends
+  useEffect(() => {
+    if (streamDetails && isLiveEndEventReceived) {
+      clearActiveStream();
+      openNotifyModal(
+        NotifyModalType.SUCCESS,
+        modalTexts.stream.forceEnd.title,
+        modalTexts.stream.forceEnd.description,
+        () => {
+          navigate(
+            WATCH_VIDEO_PATH.replace(':id', streamDetails?.id?.toString() || '')
+          );
+        }
+      );
+    }
+  }, [isLiveEndEventReceived, streamDetails, navigate, openNotifyModal]);
+
+  return {
+    type,
+    streamCategories,
+    streamDetails,
+    isStreamDetailsModalOpen,
+    notifyModal,
+    confirmModal,
+    isPauseSettingsOpen,
+    isAudioMixerOpen,
+    activeStream,
+    isStreamStarted,
+    isPaused,
+    streamConnectionState,
+    uploadHealth,
+    audioMixer,
+    chat,
+    endStream,
+    handleStreamDetailsModalOpen,
+    handleStreamDetailsModalClose,
+    handleStreamSaveSuccess,
+    handleResumeActiveStream,
+    handleEndActiveStream,
+    handleInitializeStreamCancel,
+    handlePauseSettingsOpen,
+    handlePauseSettingsClose,
+    handleAudioMixerOpen,
+    handleAudioMixerClose,
+    handlePauseStream,
+    handleResumeStream,
+    handleEndStream,
+    closeConfirmationModal,
+    closeNotifyModal,
+  };
+}
+
+export type Broadcast = ReturnType<typeof useBroadcast>;
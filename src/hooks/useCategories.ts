@@ -1,12 +1,28 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useMemo } from 'react';
 import { CategoryResponse } from '@/data/dto/category';
 import { fetchCategories } from '@/services/category';
+import { QUERY_SCOPE, QUERY_TTL, QueryKey } from '@/lib/query-cache';
+import useQuery from './useQuery';
 
 export const FixedCategories = [
   { id: 9999, name: 'All' },
   { id: 8888, name: 'Live' },
 ];
 
+const CATEGORIES_QUERY: QueryKey = { scope: QUERY_SCOPE.CATEGORIES };
+
+const getCategories = async (
+  signal: AbortSignal
+): Promise<CategoryResponse[]> => {
+  const response = await fetchCategories(signal);
+
+  if (!response) {
+    throw new Error('Failed to fetch categories!');
+  }
+
+  return response;
+};
+
 const useCategories = ({
   initialFetch,
   addFixedCategories,
@@ -14,51 +30,29 @@ const useCategories = ({
   initialFetch: boolean;
   addFixedCategories: boolean;
 }) => {
-  const [categories, setCategories] = useState<CategoryResponse[]>([]);
-  const [totalItems, setTotalItems] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [refetchKey, setRefetchKey] = useState(0);
-
-  const getContents = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      const response = await fetchCategories();
-
-      if (!response) {
-        throw new Error('Failed to fetch categories!');
-      }
-
-      if (addFixedCategories) setCategories([...FixedCategories, ...response]);
-      else setCategories(response || []);
-
-      setTotalItems(response.length || 0);
-    } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'An unknown error occurred.'
-      );
-    } finally {
-      setIsLoading(false);
+  const { data, isLoading, error, fetchData, refetch } = useQuery(
+    CATEGORIES_QUERY,
+    getCategories,
+    {
+      enabled: initialFetch,
+      ttl: QUERY_TTL.LONG,
+      // a failed request reads as no categories, don't keep that for long
+      shouldCache: (categories) => categories.length > 0,
     }
-  }, [addFixedCategories]);
-
-  useEffect(() => {
-    if (initialFetch) getContents();
-  }, [refetchKey, initialFetch, addFixedCategories, getContents]);
+  );
 
-  const refetchCategories = () => {
-    setRefetchKey((prevKey) => prevKey + 1);
-  };
+  const categories = useMemo<CategoryResponse[]>(() => {
+    if (addFixedCategories) return [...FixedCategories, ...(data || [])];
+    return data || [];
+  }, [data, addFixedCategories]);
 
   return {
     categories,
     isLoading,
-    totalItems,
+    totalItems: data?.length || 0,
     error,
-    refetchCategories,
-    fetchCategories: getContents,
+    refetchCategories: refetch,
+    fetchCategories: fetchData,
   };
 };
 
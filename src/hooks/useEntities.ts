@@ -0,0 +1,46 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { CommentsResponse, StreamsResponse } from '@/data/dto/stream';
+import {
+  applyVideoEntity,
+  getEntities,
+  subscribeEntitiesChange,
+  unsubscribeEntitiesChange,
+} from '@/data/model/entities';
+
+const subscribe = (onChange: () => void) => {
+  subscribeEntitiesChange(onChange);
+  return () => unsubscribeEntitiesChange(onChange);
+};
+
+export function useEntities() {
+  return useSyncExternalStore(subscribe, getEntities);
+}
+
+export function useVideoEntity(id?: number | null) {
+  const { videos } = useEntities();
+  return id ? videos[id] : undefined;
+}
+
+export function useStreamerEntity(id?: number | null) {
+  const { streamers } = useEntities();
+  return id ? streamers[id] : undefined;
+}
+
+// Keeps list items in sync with bookmarks, reactions and views made elsewhere.
+export function useVideosWithEntities(videos: StreamsResponse[]) {
+  const { videos: entities } = useEntities();
+
+  return useMemo(
+    () => videos.map((video) => applyVideoEntity(video, entities[video.id])),
+    [videos, entities]
+  );
+}
+
+export function useCommentsWithEntities(comments: CommentsResponse[]) {
+  const { comments: entities } = useEntities();
+
+  return useMemo(
+    () => comments.map((comment) => entities[comment.id] || comment),
+    [comments, entities]
+  );
+}
@@ -0,0 +1,251 @@
+import {
+  getStreamSettings,
+  saveStreamSettings,
+} from '@/data/model/streamSettings';
+import logger from '@/lib/logger';
+import {
+  isDeviceBusyError,
+  listMediaInputDevices,
+  MediaInputDevices,
+  MediaInputRequest,
+  openMediaInputs,
+  VIDEO_PRESET,
+} from '@/lib/media-devices';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+type MediaKind = 'video' | 'audio';
+
+export type MediaDeviceSelection = {
+  videoDeviceId: string | null;
+  audioDeviceId: string | null;
+  videoPreset: VIDEO_PRESET;
+};
+
+interface ComponentProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  // the preview got a new stream, when the devices opened or one switched
+  onStreamChange?: (stream: MediaStream) => void;
+}
+
+const getSelection = (): MediaDeviceSelection => {
+  const { videoDeviceId, audioDeviceId, videoPreset } = getStreamSettings();
+  return { videoDeviceId, audioDeviceId, videoPreset };
+};
+
+/**
+ * Opens the camera and mic the user picked (remembered per user) into the
+ * video element, switches them while it plays by swapping the track, and
+ * keeps the device list up to date as devices are plugged in or out.
+ */
+export function useMediaDevices({ videoRef, onStreamChange }: ComponentProps) {
+  const [devices, setDevices] = useState<MediaInputDevices>({
+    videoInputs: [],
+    audioInputs: [],
+  });
+  const [selection, setSelection] = useState(getSelection);
+  const [isPermissionDenied, setIsPermissionDenied] = useState(false);
+  const onStreamChangeRef = useRef(onStreamChange);
+  onStreamChangeRef.current = onStreamChange;
+  const handleTrackEndedRef = useRef<(track: MediaStreamTrack) => void>();
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listMediaInputDevices());
+    } catch (error) {
+      logger.error('Error listing media devices:', error);
+    }
+  }, []);
+
+  const getStream = () =>
+    (videoRef.current?.srcObject as MediaStream | null) || null;
+
+  const watchTrack = (track: MediaStreamTrack) => {
+    track.onended = () => handleTrackEndedRef.current?.(track);
+  };
+
+  // an unplugged device ends its track, the default device takes over. The
+  // pick isn't saved, so the remembered device is used again once it's back.
+  handleTrackEndedRef.current = (track) => {
+    if (!getStream()?.getTracks().includes(track)) return;
+
+    logger.warn(`${track.label || track.kind} was disconnected.`);
+    toast.warning(`${track.label || 'A device'} was disconnected.`);
+
+    const nextSelection = {
+      ...selection,
+      [track.kind === 'video' ? 'videoDeviceId' : 'audioDeviceId']: null,
+    };
+    setSelection(nextSelection);
+    replaceTrack(track.kind as MediaKind, nextSelection);
+  };
+
+  const getTrackRequest = (
+    kind: MediaKind,
+    { videoDeviceId, audioDeviceId, videoPreset }: MediaDeviceSelection
+  ): MediaInputRequest =>
+    kind === 'video'
+      ? { video: { deviceId: videoDeviceId, preset: videoPreset } }
+      : { audio: { deviceId: audioDeviceId } };
+
+  const openTrack = async (
+    request: MediaInputRequest
+  ): Promise<MediaStreamTrack> =>
+    (await openMediaInputs(request)).getTracks()[0];
+
+  const replaceTrack = async (
+    kind: MediaKind,
+    nextSelection: MediaDeviceSelection
+  ): Promise<boolean> => {
+    const video = videoRef.current;
+    const stream = getStream();
+    if (!video || !stream) return false;
+
+    const oldTrack = stream.getTracks().find((track) => track.kind === kind);
+    const request = getTrackRequest(kind, nextSelection);
+
+    let track: MediaStreamTrack;
+    let isOldTrackStopped = false;
+    try {
+      try {
+        track = await openTrack(request);
+      } catch (error) {
+        // some cameras can't be opened a second time while in use, only
+        // then the running one is stopped first
+        if (
+          kind !== 'video' ||
+          oldTrack?.readyState !== 'live' ||
+          !isDeviceBusyError(error)
+        )
+          throw error;
+
+        oldTrack.stop();
+        isOldTrackStopped = true;
+        track = await openTrack(request);
+      }
+    } catch (error) {
+      logger.error(`Error switching the ${kind} device:`, error);
+      toast.error(
+        `Couldn't switch the ${kind === 'video' ? 'camera' : 'microphone'}.`
+      );
+      // the picture mustn't stay black, the previous device takes over again
+      if (!isOldTrackStopped) return false;
+      try {
+        track = await openTrack(getTrackRequest(kind, selection));
+      } catch (reopenError) {
+        logger.error(`Error reopening the ${kind} device:`, reopenError);
+        return false;
+      }
+      swapTrack(video, stream, track, oldTrack);
+      return false;
+    }
+
+    swapTrack(video, stream, track, oldTrack);
+    return true;
+  };
+
+  const swapTrack = (
+    video: HTMLVideoElement,
+    stream: MediaStream,
+    track: MediaStreamTrack,
+    oldTrack?: MediaStreamTrack
+  ) => {
+    const { kind } = track;
+    if (oldTrack) {
+      oldTrack.onended = null;
+      oldTrack.stop();
+      track.enabled = oldTrack.enabled; // keeps the mic muted
+    }
+    watchTrack(track);
+
+    // a new stream object, so the preview picks up the new track
+    const nextStream = new MediaStream([
+      ...stream.getTracks().filter((current) => current.kind !== kind),
+      track,
+    ]);
+    video.srcObject = nextStream;
+    onStreamChangeRef.current?.(nextStream);
+  };
+
+  const changeSelection = async (
+    kind: MediaKind,
+    changes: Partial<MediaDeviceSelection>
+  ): Promise<void> => {
+    const nextSelection = { ...selection, ...changes };
+    if (!(await replaceTrack(kind, nextSelection))) return;
+
+    setSelection(nextSelection);
+    saveStreamSettings(changes);
+  };
+
+  const changeVideoDevice = (videoDeviceId: string) =>
+    changeSelection('video', { videoDeviceId });
+
+  const changeAudioDevice = (audioDeviceId: string) =>
+    changeSelection('audio', { audioDeviceId });
+
+  const changeVideoPreset = (videoPreset: VIDEO_PRESET) =>
+    changeSelection('video', { videoPreset });
+
+  // open the picked camera and mic as soon as the page is rendered
+  useEffect(() => {
+    let isActive = true;
+    const video = videoRef.current;
+
+    const startDevices = async () => {
+      const { videoDeviceId, audioDeviceId, videoPreset } = getSelection();
+
+      try {
+        const stream = await openMediaInputs({
+          video: { deviceId: videoDeviceId, preset: videoPreset },
+          audio: { deviceId: audioDeviceId },
+        });
+        if (!isActive || !video) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        stream.getTracks().forEach((track) => {
+          track.onended = () => handleTrackEndedRef.current?.(track);
+        });
+        video.srcObject = stream;
+        onStreamChangeRef.current?.(stream);
+        setIsPermissionDenied(false);
+      } catch (error) {
+        logger.error('Error accessing webcam:', error);
+        setIsPermissionDenied(true);
+      }
+
+      // device names are only listed once access was granted
+      refreshDevices();
+    };
+    startDevices();
+
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+
+    return () => {
+      isActive = false;
+      navigator.mediaDevices?.removeEventListener(
+        'devicechange',
+        refreshDevices
+      );
+
+      if (video?.srcObject) {
+        const tracks = (video.srcObject as MediaStream).getTracks();
+        tracks.forEach((track) => {
+          track.onended = null;
+          track.stop();
+        });
+      }
+    };
+  }, [videoRef, refreshDevices]);
+
+  return {
+    devices,
+    selection,
+    isPermissionDenied,
+    changeVideoDevice,
+    changeAudioDevice,
+    changeVideoPreset,
+  };
+}
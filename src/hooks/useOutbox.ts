@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import {
+  getPendingMutationsCount,
+  subscribeOutboxChange,
+  unsubscribeOutboxChange,
+} from '@/services/outbox';
+
+// number of offline changes still waiting to be synced
+export function usePendingMutationsCount() {
+  const [pendingCount, setPendingCount] = useState(getPendingMutationsCount);
+
+  useEffect(() => {
+    subscribeOutboxChange(setPendingCount);
+    setPendingCount(getPendingMutationsCount());
+
+    return () => unsubscribeOutboxChange(setPendingCount);
+  }, []);
+
+  return pendingCount;
+}
@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { FindAndCountResponse } from '@/data/api';
+import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from '@/data/validations';
+import {
+  fetchQuery,
+  getQueryData,
+  QueryKey,
+  QueryScope,
+  serializeQueryKey,
+} from '@/lib/query-cache';
+import { mergeById } from '@/lib/utils';
+import { useQueryInvalidation } from './useQueryInvalidation';
+
+// infinite: pages are appended to the list, paged: only the requested page is shown
+export type PaginationMode = 'infinite' | 'paged';
+
+// page: the next page is `page + 1`, cursor: the `next` the server returns is
+// passed back as `cursor` for the page after it (infinite lists only)
+export type PaginationStrategy = 'page' | 'cursor';
+
+type PageParams = { page: number; limit: number; cursor?: number };
+
+type PaginatedItem = { id: number };
+
+interface PaginatedQueryOptions<T, P extends Record<string, unknown>> {
+  scope: QueryScope;
+  params: P; // filters, the list starts over whenever they change
+  fetcher: (
+    params: P & PageParams,
+    signal: AbortSignal
+  ) => Promise<FindAndCountResponse<T>>;
+  limit?: number;
+  mode?: PaginationMode;
+  pagination?: PaginationStrategy;
+  page?: number; // paged mode: the page to show
+  ttl?: number;
+  enabled?: boolean;
+  errorMessage?: string;
+}
+
+const getNextPage = <T>(
+  response: FindAndCountResponse<T>,
+  page: number,
+  limit: number,
+  pagination: PaginationStrategy
+): number | undefined => {
+  if (pagination === 'cursor')
+    return response.next && response.next > 0 ? page + 1 : undefined;
+
+  // `next` only flags that there is more, the next page is still `page + 1`
+  if (response.next !== undefined)
+    return response.next > 0 ? page + 1 : undefined;
+
+  if (response.total_items !== undefined)
+    return page * limit < response.total_items ? page + 1 : undefined;
+
+  return (response.page?.length || 0) >= limit ? page + 1 : undefined;
+};
+
+/**
+ * Loads a `FindAndCountResponse` list through the shared query cache, one
+ * query per page. Cached pages are shown right away while they revalidate.
+ * When a mutation invalidates the list, an infinite list starts over from its
+ * first page and a paged list reloads the page shown.
+ */
+const usePaginatedQuery = <
+  T extends PaginatedItem,
+  P extends Record<string, unknown>,
+>({
+  scope,
+  params,
+  fetcher,
+  limit = DEFAULT_PAGE_SIZE,
+  mode = 'infinite',
+  pagination = 'page',
+  page: requestedPage = DEFAULT_PAGE,
+  ttl,
+  enabled = true,
+  errorMessage = 'Failed to fetch data!',
+}: PaginatedQueryOptions<T, P>) => {
+  const paramsRef = useRef(params);
+  const fetcherRef = useRef(fetcher);
+  paramsRef.current = params;
+  fetcherRef.current = fetcher;
+
+  const filterHash = serializeQueryKey({ scope, params: { ...params, limit } });
+
+  // the loaded page belongs to the filters it was loaded with
+  const [cursor, setCursor] = useState({
+    hash: filterHash,
+    page: DEFAULT_PAGE,
+  });
+  const page =
+    mode === 'paged'
+      ? requestedPage
+      : cursor.hash === filterHash
+        ? cursor.page
+        : DEFAULT_PAGE;
+
+  const [items, setItems] = useState<T[]>([]);
+  const [totalItems, setTotalItems] = useState(0);
+  const [nextPage, setNextPage] = useState<number | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchKey, setRefetchKey] = useState(0);
+  const forceRefetchRef = useRef(false);
+  // cursor pagination: the cursor each page is loaded with, by page number
+  const cursorsRef = useRef<Record<number, number>>({});
+
+  // start over when the filters change
+  useEffect(() => {
+    setItems([]);
+    setTotalItems(0);
+    setNextPage(undefined);
+    cursorsRef.current = {};
+  }, [filterHash]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    const force = forceRefetchRef.current;
+    forceRefetchRef.current = false;
+
+    const pageParams: P & PageParams = {
+      ...paramsRef.current,
+      page,
+      limit,
+      ...(pagination === 'cursor' && { cursor: cursorsRef.current[page] }),
+    };
+    const queryKey: QueryKey = { scope, params: pageParams };
+
+    const loadPage = async (): Promise<FindAndCountResponse<T>> => {
+      const response = await fetchQuery(
+        queryKey,
+        (signal) => fetcherRef.current(pageParams, signal),
+        {
+          ttl,
+          force,
+          signal: controller.signal,
+          shouldCache: (response) => !!response?.page,
+        }
+      );
+
+      if (!response?.page) throw new Error(errorMessage);
+      return response;
+    };
+
+    const applyResponse = (response: FindAndCountResponse<T>) => {
+      const pageItems = response.page || [];
+      const isAppending = mode === 'infinite' && page !== DEFAULT_PAGE;
+
+      setItems((prev) =>
+        isAppending ? mergeById(prev, pageItems) : pageItems
+      );
+      setTotalItems(response.total_items || 0);
+
+      const next = getNextPage(response, page, limit, pagination);
+      if (pagination === 'cursor' && next !== undefined)
+        cursorsRef.current[next] = response.next!;
+      setNextPage(next);
+    };
+
+    const fetchPage = async () => {
+      try {
+        setError(null);
+
+        const cached = getQueryData<FindAndCountResponse<T>>(queryKey);
+        if (cached && !force) applyResponse(cached);
+        setIsLoading(!cached || force);
+
+        const response = await loadPage();
+        if (controller.signal.aborted) return;
+
+        applyResponse(response);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+
+        setError(
+          err instanceof Error ? err.message : 'An unknown error occurred.'
+        );
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    fetchPage();
+
+    return () => controller.abort();
+  }, [
+    scope,
+    filterHash,
+    page,
+    limit,
+    mode,
+    pagination,
+    ttl,
+    enabled,
+    errorMessage,
+    refetchKey,
+  ]);
+
+  useQueryInvalidation(
+    enabled ? { scope, params: { ...params, limit } } : null,
+    () => {
+      // the invalidated query entries refetch, the list starts over
+      if (mode === 'infinite')
+        setCursor({ hash: filterHash, page: DEFAULT_PAGE });
+      setRefetchKey((prevKey) => prevKey + 1);
+    }
+  );
+
+  const hasMore = nextPage !== undefined;
+
+  const fetchNextPage = useCallback(() => {
+    if (mode !== 'infinite' || isLoading || nextPage === undefined) return;
+
+    setCursor({ hash: filterHash, page: nextPage });
+  }, [mode, isLoading, nextPage, filterHash]);
+
+  // reloads the current page, or the list from its first page in infinite mode
+  const refetch = useCallback(() => {
+    forceRefetchRef.current = true;
+    if (mode === 'infinite') {
+      setItems([]);
+      setCursor({ hash: filterHash, page: DEFAULT_PAGE });
+    }
+    setRefetchKey((prevKey) => prevKey + 1);
+  }, [mode, filterHash]);
+
+  // optimistic updates return a function that undoes them
+
+  const insertItem = useCallback((item: T): (() => void) => {
+    setItems((prev) => [item, ...prev.filter(({ id }) => id !== item.id)]);
+    setTotalItems((prev) => prev + 1);
+
+    return () => {
+      setItems((prev) => prev.filter(({ id }) => id !== item.id));
+      setTotalItems((prev) => Math.max(prev - 1, 0));
+    };
+  }, []);
+
+  const removeItem = useCallback(
+    (itemId: T['id']): (() => void) => {
+      const index = items.findIndex(({ id }) => id === itemId);
+      if (index === -1) return () => {};
+
+      const removed = items[index];
+      setItems((prev) => prev.filter(({ id }) => id !== itemId));
+      setTotalItems((prev) => Math.max(prev - 1, 0));
+
+      return () => {
+        setItems((prev) => {
+          const restored = [...prev];
+          restored.splice(Math.min(index, restored.length), 0, removed);
+          return restored;
+        });
+        setTotalItems((prev) => prev + 1);
+      };
+    },
+    [items]
+  );
+
+  const updateItem = useCallback(
+    (itemId: T['id'], changes: Partial<T>): (() => void) => {
+      const previous = items.find(({ id }) => id === itemId);
+      if (!previous) return () => {};
+
+      setItems((prev) =>
+        prev.map((item) =>
+          item.id === itemId ? { ...item, ...changes } : item
+        )
+      );
+
+      return () =>
+        setItems((prev) =>
+          prev.map((item) => (item.id === itemId ? previous : item))
+        );
+    },
+    [items]
+  );
+
+  return {
+    items,
+    totalItems,
+    page,
+    hasMore,
+    isLoading,
+    error,
+    fetchNextPage,
+    refetch,
+    insertItem,
+    removeItem,
+    updateItem,
+  };
+};
+
+export default usePaginatedQuery;
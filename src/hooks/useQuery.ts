@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  fetchQuery,
+  getQueryData,
+  QueryFetcher,
+  QueryKey,
+  serializeQueryKey,
+} from '@/lib/query-cache';
+import { useQueryInvalidation } from './useQueryInvalidation';
+
+interface QueryHookOptions<T> {
+  enabled?: boolean;
+  ttl?: number;
+  shouldCache?: (data: T) => boolean;
+}
+
+/**
+ * Reads a query through the shared cache: cached data is returned right away
+ * and revalidated in the background once stale or invalidated.
+ */
+const useQuery = <T>(
+  key: QueryKey | null,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, ttl, shouldCache }: QueryHookOptions<T> = {}
+) => {
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  const shouldCacheRef = useRef(shouldCache);
+  keyRef.current = key;
+  fetcherRef.current = fetcher;
+  shouldCacheRef.current = shouldCache;
+
+  const hash = key ? serializeQueryKey(key) : null;
+
+  const [data, setData] = useState<T | undefined>(() =>
+    key ? getQueryData<T>(key) : undefined
+  );
+  const [isLoading, setIsLoading] = useState(
+    () => !key || getQueryData<T>(key) === undefined
+  );
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(
+    async (force: boolean = false) => {
+      const queryKey = keyRef.current;
+      if (!hash || !queryKey) return;
+
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      const cached = getQueryData<T>(queryKey);
+      if (cached !== undefined) setData(cached);
+
+      try {
+        setIsLoading(cached === undefined);
+        setError(null);
+
+        const response = await fetchQuery(queryKey, fetcherRef.current, {
+          ttl,
+          force,
+          signal: controller.signal,
+          shouldCache: shouldCacheRef.current,
+        });
+        if (controller.signal.aborted) return;
+
+        setData(response);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+
+        setError(
+          err instanceof Error ? err.message : 'An unknown error occurred.'
+        );
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    },
+    [hash, ttl]
+  );
+
+  useEffect(() => {
+    if (enabled) fetchData();
+  }, [enabled, fetchData]);
+
+  // cancel the in-flight request on unmount
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  useQueryInvalidation(enabled ? key : null, () => fetchData());
+
+  const refetch = useCallback(() => fetchData(true), [fetchData]);
+
+  return {
+    data,
+    isLoading,
+    error,
+    fetchData,
+    refetch,
+  };
+};
+
+export default useQuery;
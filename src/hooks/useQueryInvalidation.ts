@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+import {
+  isQueryMatch,
+  QueryInvalidation,
+  QueryKey,
+  serializeQueryKey,
+} from '@/lib/query-cache';
+
+// Calls `onInvalidate` whenever a mutation invalidates the given query.
+export function useQueryInvalidation(
+  key: QueryKey | null,
+  onInvalidate: () => void
+) {
+  const keyRef = useRef(key);
+  const onInvalidateRef = useRef(onInvalidate);
+  keyRef.current = key;
+  onInvalidateRef.current = onInvalidate;
+
+  const hash = key ? serializeQueryKey(key) : null;
+
+  useEffect(() => {
+    if (!hash) return;
+
+    const handleInvalidate = (filter: QueryInvalidation) => {
+      if (keyRef.current && isQueryMatch(keyRef.current, filter))
+        onInvalidateRef.current();
+    };
+
+    EventEmitter.subscribe(
+      EVENT_EMITTER_NAME.QUERY_INVALIDATE,
+      handleInvalidate
+    );
+
+    return () => {
+      EventEmitter.unsubscribe(
+        EVENT_EMITTER_NAME.QUERY_INVALIDATE,
+        handleInvalidate
+      );
+    };
+  }, [hash]);
+}
@@ -0,0 +1,247 @@
+import _ from 'lodash';
+import logger from '@/lib/logger';
+import {
+  VIDEO_PRESET,
+  VIDEO_PRESETS,
+  VideoPresetConstraints,
+} from '@/lib/media-devices';
+import {
+  LAYER_PLACEMENT,
+  SCENE_LAYER_TYPE,
+  SceneCompositor,
+  SceneLayer,
+} from '@/lib/scene-compositor';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+export type SceneLayerChanges = Partial<{
+  name: string;
+  isVisible: boolean;
+  placement: LAYER_PLACEMENT;
+  title: string;
+  subtitle: string;
+}>;
+
+interface ComponentProps {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  videoPreset: VIDEO_PRESET;
+}
+
+const createLayerId = () => _.uniqueId('layer-');
+
+// screen shares and images hold on to a capture or an object URL
+const releaseLayer = (layer: SceneLayer) => {
+  if (layer.type === SCENE_LAYER_TYPE.SCREEN) {
+    const stream = layer.source.srcObject as MediaStream | null;
+    stream?.getTracks().forEach((track) => {
+      track.onended = null;
+      track.stop();
+    });
+    layer.source.srcObject = null;
+  }
+  if (layer.type === SCENE_LAYER_TYPE.IMAGE)
+    URL.revokeObjectURL(layer.source.src);
+};
+
+/**
+ * Composes the broadcast frame on the canvas from a stack of layers, the
+ * camera at the bottom to start with. Layers can be added, reordered, moved
+ * and hidden at any time, live included.
+ */
+export function useSceneCompositor({
+  canvasRef,
+  videoRef,
+  videoPreset,
+}: ComponentProps) {
+  const compositorRef = useRef<SceneCompositor | null>(null);
+  const [layers, setLayers] = useState<SceneLayer[]>([]);
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+  const videoPresetRef = useRef(videoPreset);
+  videoPresetRef.current = videoPreset;
+  // set by the upload's bitrate level, the preset's height when null
+  const maxHeightRef = useRef<number | null>(null);
+
+  // the picked preset, scaled down to the max height
+  const getOutput = (): VideoPresetConstraints => {
+    const preset = VIDEO_PRESETS[videoPresetRef.current];
+    const height = Math.min(
+      maxHeightRef.current ?? preset.height,
+      preset.height
+    );
+    // encoders want even dimensions
+    const width = Math.round((preset.width * height) / preset.height / 2) * 2;
+
+    return { ...preset, width, height };
+  };
+
+  const addLayer = (layer: SceneLayer) =>
+    setLayers((prevLayers) => [...prevLayers, layer]);
+
+  const removeLayer = (id: string) => {
+    const layer = layersRef.current.find((current) => current.id === id);
+    if (layer) releaseLayer(layer);
+
+    setLayers((prevLayers) =>
+      prevLayers.filter((current) => current.id !== id)
+    );
+  };
+
+  const updateLayer = (id: string, changes: SceneLayerChanges) =>
+    setLayers((prevLayers) =>
+      prevLayers.map((layer) =>
+        layer.id === id ? ({ ...layer, ...changes } as SceneLayer) : layer
+      )
+    );
+
+  // up brings the layer in front of the one above it
+  const moveLayer = (id: string, direction: 'up' | 'down') =>
+    setLayers((prevLayers) => {
+      const index = prevLayers.findIndex((layer) => layer.id === id);
+      const target = direction === 'up' ? index + 1 : index - 1;
+      if (index < 0 || target < 0 || target >= prevLayers.length)
+        return prevLayers;
+
+      const nextLayers = [...prevLayers];
+      [nextLayers[index], nextLayers[target]] = [
+        nextLayers[target],
+        nextLayers[index],
+      ];
+      return nextLayers;
+    });
+
+  // has to run from a click, browsers only show the picker on a user gesture
+  const addScreenLayer = async (): Promise<void> => {
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      toast.error("This browser can't share the screen.");
+      return;
+    }
+
+    const { frameRate } = VIDEO_PRESETS[videoPreset];
+    let display: MediaStream;
+    try {
+      display = await navigator.mediaDevices.getDisplayMedia({
+        video: { frameRate: { ideal: frameRate } },
+        audio: false,
+      });
+    } catch (error) {
+      // closing the picker rejects as well
+      logger.warn('Screen layer not added:', error);
+      return;
+    }
+
+    const source = document.createElement('video');
+    source.muted = true;
+    source.playsInline = true;
+    source.srcObject = display;
+    source.play().catch((error) => logger.error('Screen layer:', error));
+
+    const id = createLayerId();
+    // stopped from the browser's own controls
+    display.getVideoTracks()[0].onended = () => removeLayer(id);
+
+    addLayer({
+      id,
+      type: SCENE_LAYER_TYPE.SCREEN,
+      name: 'Screen share',
+      isVisible: true,
+      placement: LAYER_PLACEMENT.FULL,
+      source,
+    });
+  };
+
+  const addImageLayer = (file: File) => {
+    const source = new Image();
+    source.src = URL.createObjectURL(file);
+
+    addLayer({
+      id: createLayerId(),
+      type: SCENE_LAYER_TYPE.IMAGE,
+      name: file.name,
+      isVisible: true,
+      placement: LAYER_PLACEMENT.TOP_RIGHT,
+      source,
+    });
+  };
+
+  const addTextLayer = () =>
+    addLayer({
+      id: createLayerId(),
+      type: SCENE_LAYER_TYPE.TEXT,
+      name: 'Lower third',
+      isVisible: true,
+      placement: LAYER_PLACEMENT.LOWER_THIRD,
+      title: 'Your name',
+      subtitle: '',
+    });
+
+  const addClockLayer = () =>
+    addLayer({
+      id: createLayerId(),
+      type: SCENE_LAYER_TYPE.CLOCK,
+      name: 'Clock',
+      isVisible: true,
+      placement: LAYER_PLACEMENT.TOP_LEFT,
+    });
+
+  // the frame shrinks with the upload's bitrate, the track stays the same
+  const scaleOutput = (maxHeight: number | null) => {
+    maxHeightRef.current = maxHeight;
+    compositorRef.current?.setOutput(getOutput());
+  };
+
+  // the composed frame, what the recorder sends as video
+  const getVideoTrack = (): MediaStreamTrack | null =>
+    compositorRef.current?.getVideoTrack() || null;
+
+  // start drawing with the camera as the only layer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    const compositor = new SceneCompositor(canvas, getOutput());
+    compositorRef.current = compositor;
+    compositor.start();
+
+    setLayers([
+      {
+        id: createLayerId(),
+        type: SCENE_LAYER_TYPE.CAMERA,
+        name: 'Camera',
+        isVisible: true,
+        placement: LAYER_PLACEMENT.FULL,
+        source: video,
+      },
+    ]);
+
+    return () => {
+      compositor.stop();
+      compositorRef.current = null;
+      layersRef.current.forEach(releaseLayer);
+    };
+  }, [canvasRef, videoRef]);
+
+  useEffect(() => {
+    compositorRef.current?.setLayers(layers);
+  }, [layers]);
+
+  // the frame follows the picked quality preset
+  useEffect(() => {
+    compositorRef.current?.setOutput(getOutput());
+  }, [videoPreset]);
+
+  return {
+    layers,
+    addScreenLayer,
+    addImageLayer,
+    addTextLayer,
+    addClockLayer,
+    updateLayer,
+    moveLayer,
+    removeLayer,
+    scaleOutput,
+    getVideoTrack,
+  };
+}
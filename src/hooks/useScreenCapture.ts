@@ -0,0 +1,168 @@
+import { getStreamSettings } from '@/data/model/streamSettings';
+import logger from '@/lib/logger';
+import { openMediaInputs, VIDEO_PRESETS } from '@/lib/media-devices';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+export type ScreenAudioTracks = {
+  mic: MediaStreamTrack | null;
+  system: MediaStreamTrack | null; // the shared tab or system audio
+};
+
+interface ComponentProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  // the user stopped sharing from the browser's own controls
+  onEnded?: () => void;
+  // the audio to mix, both null once sharing stopped
+  onAudioTracksChange?: (tracks: ScreenAudioTracks) => void;
+}
+
+type ScreenCapture = ScreenAudioTracks & {
+  screen: MediaStreamTrack;
+  sourceTracks: MediaStreamTrack[]; // screen, its audio and the mic
+};
+
+/**
+ * Shares a screen, window or tab into the video element, along with the tab
+ * or system audio when asked for and the picked microphone. Mixing the audio
+ * is up to the caller.
+ */
+export function useScreenCapture({
+  videoRef,
+  onEnded,
+  onAudioTracksChange,
+}: ComponentProps) {
+  const captureRef = useRef<ScreenCapture | null>(null);
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  const onAudioTracksChangeRef = useRef(onAudioTracksChange);
+  onAudioTracksChangeRef.current = onAudioTracksChange;
+  const [isSharing, setIsSharing] = useState(false);
+  const [isMicOn, setIsMicOn] = useState(true);
+
+  const stopCapture = () => {
+    const capture = captureRef.current;
+    captureRef.current = null;
+    if (!capture) return;
+
+    capture.sourceTracks.forEach((track) => {
+      track.onended = null;
+      track.stop();
+    });
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsSharing(false);
+    onAudioTracksChangeRef.current?.({ mic: null, system: null });
+  };
+
+  // has to run from a click, browsers only show the picker on a user gesture
+  const startCapture = async (withSystemAudio: boolean): Promise<boolean> => {
+    const video = videoRef.current;
+    if (!video) return false;
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      toast.error("This browser can't share the screen.");
+      return false;
+    }
+
+    const { videoPreset, audioDeviceId } = getStreamSettings();
+    const { height, frameRate } = VIDEO_PRESETS[videoPreset];
+
+    let display: MediaStream;
+    try {
+      display = await navigator.mediaDevices.getDisplayMedia({
+        video: { height: { ideal: height }, frameRate: { ideal: frameRate } },
+        audio: withSystemAudio,
+      });
+    } catch (error) {
+      // closing the picker rejects as well
+      logger.warn('Screen sharing not started:', error);
+      return false;
+    }
+
+    let micTrack: MediaStreamTrack | null = null;
+    try {
+      const mic = await openMediaInputs({ audio: { deviceId: audioDeviceId } });
+      [micTrack] = mic.getAudioTracks();
+    } catch (error) {
+      logger.error('Error accessing microphone:', error);
+      toast.warning('Sharing without your microphone, it could not be opened.');
+    }
+
+    stopCapture();
+
+    const [screenTrack] = display.getVideoTracks();
+    const systemTrack = display.getAudioTracks()[0] || null;
+
+    if (micTrack) micTrack.enabled = isMicOn;
+    const sourceTracks = [
+      ...display.getTracks(),
+      ...(micTrack ? [micTrack] : []),
+    ];
+    captureRef.current = {
+      screen: screenTrack,
+      mic: micTrack,
+      system: systemTrack,
+      sourceTracks,
+    };
+
+    screenTrack.onended = () => {
+      stopCapture();
+      onEndedRef.current?.();
+    };
+
+    video.srcObject = new MediaStream(sourceTracks);
+    setIsSharing(true);
+    onAudioTracksChangeRef.current?.({ mic: micTrack, system: systemTrack });
+
+    return true;
+  };
+
+  // mutes the mic only, the shared audio goes on
+  const toggleMic = () => {
+    const micTrack = captureRef.current?.mic;
+    if (micTrack) micTrack.enabled = !isMicOn;
+    setIsMicOn(!isMicOn);
+  };
+
+  const getVideoTrack = (): MediaStreamTrack | null =>
+    captureRef.current?.screen || null;
+
+  // keeps the frame rate, never above the picked preset; the width follows
+  // the shared surface's aspect ratio
+  const scaleVideo = async (maxHeight: number | null): Promise<void> => {
+    const screenTrack = captureRef.current?.screen;
+    if (!screenTrack) return;
+
+    const { videoPreset } = getStreamSettings();
+    const { height, frameRate } = VIDEO_PRESETS[videoPreset];
+
+    try {
+      await screenTrack.applyConstraints({
+        height: { ideal: Math.min(maxHeight ?? height, height) },
+        frameRate: { ideal: frameRate },
+      });
+    } catch (error) {
+      logger.warn('Could not change the screen share resolution:', error);
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      const capture = captureRef.current;
+      captureRef.current = null;
+      capture?.sourceTracks.forEach((track) => {
+        track.onended = null;
+        track.stop();
+      });
+    };
+  }, []);
+
+  return {
+    isSharing,
+    isMicOn,
+    startCapture,
+    stopCapture,
+    toggleMic,
+    getVideoTrack,
+    scaleVideo,
+  };
+}
@@ -1,56 +1,39 @@
-import { useState, useCallback, useEffect } from 'react';
 import { StreamerDetailsResponse } from '@/data/dto/streamer';
 import { fetchStreamerDetails } from '@/services/streamer';
+import { QUERY_SCOPE } from '@/lib/query-cache';
+import useQuery from './useQuery';
+import { useStreamerEntity } from './useEntities';
 
-const useStreamerDetails = (id: string | null) => {
-  const [data, setData] = useState<StreamerDetailsResponse | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [subscribedCount, setSubscribedCount] = useState(0);
-  const [isSubscribed, setIsSubscribed] = useState(false);
-  const [isNotiMuted, setIsNotiMuted] = useState(false);
-
-  const getData = useCallback(async () => {
-    if (!id) return;
-
-    try {
-      setIsLoading(true);
-      setError(null);
+const getStreamerDetails = async (
+  id: string,
+  signal: AbortSignal
+): Promise<StreamerDetailsResponse> => {
+  const response = await fetchStreamerDetails(id, signal);
 
-      const response = await fetchStreamerDetails(id);
+  if (!response) {
+    throw new Error('Failed to fetch streamer details!');
+  }
 
-      if (!response) {
-        throw new Error('Failed to fetch streamer details!');
-      }
+  return response;
+};
 
-      setData(response);
-      setSubscribedCount(response.total_subscribe || 0);
-      setIsSubscribed(response.is_subscribed);
-      setIsNotiMuted(response.is_mute);
-    } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'An unknown error occurred.'
-      );
-    } finally {
-      setIsLoading(false);
-    }
-  }, [id]);
+const useStreamerDetails = (id: string | null) => {
+  const { data, isLoading, error, refetch } = useQuery(
+    id ? { scope: QUERY_SCOPE.STREAMER_DETAILS, params: { id } } : null,
+    (signal) => getStreamerDetails(id as string, signal)
+  );
 
-  useEffect(() => {
-    getData();
-  }, [id, getData]);
+  // subscription state lives in the entity store so other pages stay in sync
+  const streamer = useStreamerEntity(data?.id);
 
   return {
-    data,
-    subscribedCount,
-    isSubscribed,
-    isNotiMuted,
+    data: data || null,
+    subscribedCount: streamer?.subscriptions ?? data?.total_subscribe ?? 0,
+    isSubscribed: streamer?.is_subscribed ?? data?.is_subscribed ?? false,
+    isNotiMuted: streamer?.is_mute ?? data?.is_mute ?? false,
     isLoading,
     error,
-    getData,
-    setSubscribedCount,
-    setIsSubscribed,
-    setIsNotiMuted,
+    getData: refetch,
   };
 };
 
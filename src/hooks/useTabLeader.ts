@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { requestTabLeadership } from '@/lib/tab-channel';
+
+// true while this tab is the one elected to do the `name` work
+export function useTabLeader(name: string, enabled = true) {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const release = requestTabLeadership(name, () => setIsLeader(true));
+
+    return () => {
+      release();
+      setIsLeader(false);
+    };
+  }, [name, enabled]);
+
+  return isLeader;
+}
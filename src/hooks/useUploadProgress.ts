@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { UploadOptions, UploadProgress } from '@/data/api';
+
+// tracks one multipart upload at a time and lets the user cancel it
+export function useUploadProgress() {
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const startUpload = useCallback((): UploadOptions => {
+    controllerRef.current?.abort();
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ loaded: 0, percent: 0 });
+
+    return { signal: controller.signal, onUploadProgress: setProgress };
+  }, []);
+
+  const finishUpload = useCallback(() => {
+    controllerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const cancelUpload = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { progress, startUpload, finishUpload, cancelUpload };
+}
@@ -1,12 +1,18 @@
-import { useState, useEffect } from 'react';
 import { VideoDetailsResponse } from '@/data/dto/stream';
 import { fetchVideoDetails } from '@/services/stream';
 import { API_ERROR } from '@/data/api';
+import { QUERY_SCOPE } from '@/lib/query-cache';
+import useQuery from './useQuery';
 
 interface ComponentProps {
   id: string | null;
 }
 
+const isApiError = (
+  response: VideoDetailsResponse | API_ERROR | undefined
+): response is API_ERROR =>
+  !!response && Object.values(API_ERROR).includes(response as API_ERROR);
+
 const useVideoDetails = ({
   id,
 }: ComponentProps): {
@@ -14,44 +20,20 @@ const useVideoDetails = ({
   isLoading: boolean;
   error: string | null;
 } => {
-  const [videoDetails, setVideoDetails] = useState<VideoDetailsResponse | null>(
-    null
+  const {
+    data,
+    isLoading,
+    error: fetchError,
+  } = useQuery(
+    id ? { scope: QUERY_SCOPE.VIDEO_DETAILS, params: { id } } : null,
+    (signal) => fetchVideoDetails(id as string, signal),
+    { shouldCache: (response) => !isApiError(response) }
   );
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | API_ERROR | null>(null);
-
-  useEffect(() => {
-    if (!id) return;
-
-    const getVideoDetails = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        const response = await fetchVideoDetails(id);
-
-        if (
-          response &&
-          Object.values(API_ERROR).includes(response as API_ERROR)
-        ) {
-          setError(response as API_ERROR);
-        }
-
-        setVideoDetails(response as VideoDetailsResponse);
-      } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'An unknown error occurred.'
-        );
-      } finally {
-        setIsLoading(false);
-      }
-    };
 
-    getVideoDetails();
-  }, [id]);
+  const error: string | API_ERROR | null = isApiError(data) ? data : fetchError;
 
   return {
-    videoDetails,
+    videoDetails: (data as VideoDetailsResponse) || null,
     isLoading,
     error,
   };
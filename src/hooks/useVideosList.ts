@@ -1,12 +1,13 @@
-import { useState, useEffect } from 'react';
 import { fetchVideosList } from '@/services/stream';
 import { StreamsResponse, VideosListRequest } from '@/data/dto/stream';
-import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from '@/data/validations';
+import { DEFAULT_PAGE_SIZE } from '@/data/validations';
+import { QUERY_SCOPE, QUERY_TTL } from '@/lib/query-cache';
+import { useVideosWithEntities } from './useEntities';
+import usePaginatedQuery from './usePaginatedQuery';
 import { isNaN } from 'lodash';
 
 const useVideosList = (payload: VideosListRequest = {}) => {
   const {
-    page = DEFAULT_PAGE,
     limit = DEFAULT_PAGE_SIZE,
     categoryId1,
     categoryId2,
@@ -20,103 +21,47 @@ const useVideosList = (payload: VideosListRequest = {}) => {
     streamer_id = undefined,
   } = payload;
 
-  const [videos, setVideos] = useState<StreamsResponse[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasMore, setHasMore] = useState(false);
-  const [refetchKey, setRefetchKey] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-  const [totalItems, setTotalItems] = useState(0);
-
-  const refetchVideos = () => {
-    setRefetchKey((prevKey) => prevKey + 1);
-  };
-
-  useEffect(() => {
-    const fetchContentsData = async () => {
-      if (streamer_id && isNaN(streamer_id)) return;
-
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        const params: Record<string, unknown> = {
-          page,
-          limit,
-          title,
-          is_me,
-          is_liked,
-          is_history,
-          is_saved,
-          status,
-          categoryId1,
-          categoryId2,
-          categoryId3,
-          streamer_id,
-        };
-
-        const response = await fetchVideosList(params);
-
-        if (!response?.page) throw new Error('Failed to fetch contents!');
-
-        setVideos((prev) => {
-          const newVideos = response.page || [];
-          const uniqueVideos = [
-            ...prev,
-            ...newVideos.filter(
-              (video) => !prev.some((v) => v.id === video.id)
-            ),
-          ];
-          return uniqueVideos;
-        });
-        if (response.next) setHasMore(response.next > 0);
-        if (response.total_items) setTotalItems(response.total_items);
-      } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'An unknown error occurred.'
-        );
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchContentsData();
-  }, [
-    title,
-    categoryId1,
-    categoryId2,
-    categoryId3,
-    status,
-    page,
+  const {
+    items: videos,
+    totalItems,
+    hasMore,
+    isLoading,
+    error,
+    fetchNextPage,
+    refetch: refetchVideos,
+    removeItem: removeVideo,
+  } = usePaginatedQuery<StreamsResponse, VideosListRequest>({
+    scope: QUERY_SCOPE.VIDEOS_LIST,
+    params: {
+      title,
+      is_me,
+      is_liked,
+      is_history,
+      is_saved,
+      status,
+      categoryId1,
+      categoryId2,
+      categoryId3,
+      streamer_id,
+    },
+    fetcher: fetchVideosList,
     limit,
-    is_me,
-    is_liked,
-    is_history,
-    is_saved,
-    refetchKey,
-  ]);
+    ttl: QUERY_TTL.SHORT,
+    enabled: streamer_id === undefined || !isNaN(streamer_id),
+    errorMessage: 'Failed to fetch contents!',
+  });
 
-  useEffect(() => {
-    setVideos([]);
-  }, [
-    title,
-    categoryId1,
-    categoryId2,
-    categoryId3,
-    is_me,
-    is_liked,
-    is_history,
-    is_saved,
-  ]);
+  const syncedVideos = useVideosWithEntities(videos);
 
   return {
-    videos,
+    videos: syncedVideos,
     isLoading,
     hasMore,
     totalItems,
     error,
-    setVideos,
+    fetchNextPage,
     refetchVideos,
-    setTotalItems,
+    removeVideo,
   };
 };
 
@@ -0,0 +1,42 @@
+import logger from '@/lib/logger';
+import { useEffect } from 'react';
+
+// keeps the screen (and the device) awake while `enabled`. The browser drops
+// the lock when the tab is hidden, so it's taken again when it's back.
+export function useWakeLock(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let isActive = true;
+
+    const requestWakeLock = async () => {
+      if (document.visibilityState !== 'visible' || sentinel) return;
+
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (!isActive) {
+          lock.release();
+          return;
+        }
+
+        sentinel = lock;
+        lock.addEventListener('release', () => {
+          if (sentinel === lock) sentinel = null;
+        });
+      } catch (error) {
+        logger.warn('Could not keep the screen awake:', error);
+      }
+    };
+
+    requestWakeLock();
+    document.addEventListener('visibilitychange', requestWakeLock);
+
+    return () => {
+      isActive = false;
+      document.removeEventListener('visibilitychange', requestWakeLock);
+      sentinel?.release();
+      sentinel = null;
+    };
+  }, [enabled]);
+}
@@ -1,23 +1,27 @@
 import _ from 'lodash';
 import { useEffect, useRef, useState } from 'react';
 import {
-  LiveReactionRequest,
-  LiveInteractionType,
-  LiveInitialStatsResponse,
-  LiveCommentRequest,
-  LiveReactionResponse,
-  isLiveCommentInfoObj,
+  compareComments,
+  decodeLiveInteractionMessage,
+  encodeLiveInteractionMessage,
+  isNewerLiveInteractionProtocol,
   LiveCommentInfo,
-  LiveShareRequest,
+  LiveInitialStatsResponse,
+  LiveInteractionClientMessage,
+  LiveInteractionServerMessage,
+  LiveInteractionType,
+  mergeComments,
 } from '@/data/dto/chat';
-import { retrieveAuthToken } from '@/data/model/userAccount';
 import { useIsMobile } from '../useMobile';
+import { SOCKET_STATE, SocketConnection } from '@/lib/socket-connection';
 import { OnReactOnLiveParams } from '@/components/Chat/Reactions';
-import { toast } from 'sonner';
 import logger from '@/lib/logger';
 
 const wsURL = import.meta.env.VITE_WS_STREAM_URL;
 
+// how long to wait for the missed comments before marking a gap
+const RESUME_TIMEOUT = 5000;
+
 export function useLiveChatWebSocket(
   videoId: string | null,
   isStreamStarted: boolean,
@@ -25,8 +29,10 @@ export function useLiveChatWebSocket(
 ) {
   const isMobile = useIsMobile();
 
-  const chatWsRef = useRef<WebSocket | null>(null);
+  const chatWsRef = useRef<SocketConnection | null>(null);
+  const [connectionState, setConnectionState] = useState(SOCKET_STATE.IDLE);
   const [isLiveEndEventReceived, setIsLiveEndEventReceived] = useState(false);
+  const [isLivePaused, setIsLivePaused] = useState(false);
   const [isChatVisible, setIsChatVisible] = useState(
     !isMobile || isStreamStarted
   );
@@ -41,159 +47,227 @@ export function useLiveChatWebSocket(
       comments: [],
       share_count: 0,
     });
+  // ids of the comments after which some comments could not be recovered
+  const [commentGaps, setCommentGaps] = useState<number[]>([]);
+  const lastSeenCommentRef = useRef<LiveCommentInfo | null>(null);
 
-  const sendReaction = ({ reaction }: OnReactOnLiveParams) => {
-    if (chatWsRef.current?.readyState === WebSocket.OPEN) {
-      const likeStatus = liveInitialStats.current_like_type !== reaction;
-      const message: LiveReactionRequest = {
-        type: LiveInteractionType.LIKE,
-        data: {
-          like_status: likeStatus,
-          like_type: reaction,
-        },
-      };
+  useEffect(() => {
+    lastSeenCommentRef.current = _.last(liveInitialStats.comments) ?? null;
+  }, [liveInitialStats.comments]);
 
-      chatWsRef.current.send(JSON.stringify(message));
+  const send = (message: LiveInteractionClientMessage) => {
+    const frame = encodeLiveInteractionMessage(message);
+    if (!frame) {
+      logger.warn('Dropped invalid live interaction message:', message);
+      return;
     }
+
+    chatWsRef.current?.send(frame);
   };
 
-  const sendComment = (content: string) => {
-    if (chatWsRef.current?.readyState === WebSocket.OPEN) {
-      const message: LiveCommentRequest = {
-        type: LiveInteractionType.COMMENT,
-        data: { content },
-      };
+  const sendReaction = ({ reaction }: OnReactOnLiveParams) =>
+    send({
+      type: LiveInteractionType.LIKE,
+      data: {
+        like_status: liveInitialStats.current_like_type !== reaction,
+        like_type: reaction,
+      },
+    });
 
-      chatWsRef.current.send(JSON.stringify(message));
-    }
-  };
+  const sendComment = (content: string) =>
+    send({ type: LiveInteractionType.COMMENT, data: { content } });
 
-  const sendShare = () => {
-    if (chatWsRef.current?.readyState === WebSocket.OPEN) {
-      const message: LiveShareRequest = {
-        type: LiveInteractionType.SHARE,
-      };
+  const sendShare = () => send({ type: LiveInteractionType.SHARE });
 
-      chatWsRef.current.send(JSON.stringify(message));
-    }
-  };
+  const sendPause = (isPaused: boolean) =>
+    send({ type: LiveInteractionType.PAUSE, data: { is_paused: isPaused } });
 
   const openChat = () => setIsChatVisible(true);
   const closeChat = () => setIsChatVisible(false);
   const toggleChat = () => setIsChatVisible(!isChatVisible);
 
+  // one socket per video, starting or ending the stream keeps it
   useEffect(() => {
     if (!videoId) return;
 
-    if (
-      chatWsRef.current &&
-      chatWsRef.current.readyState === WebSocket.OPEN &&
-      isStreamStarted
-    )
-      return;
+    let hasWarnedAboutVersion = false;
 
-    const url = getWsURL(videoId);
-    if (!url) return;
+    // set after a reconnect until the missed comments are merged back
+    let pendingResume: {
+      from: LiveCommentInfo;
+      timer: ReturnType<typeof setTimeout>;
+    } | null = null;
 
-    const chatWs = new WebSocket(url);
-    chatWsRef.current = chatWs;
+    const finishResume = (hasGap: boolean) => {
+      if (!pendingResume) return;
 
-    chatWs.onopen = () => {};
+      const gapAfterId = pendingResume.from.id;
+      clearTimeout(pendingResume.timer);
+      pendingResume = null;
 
-    const handleMessage = (event: MessageEvent) => {
-      try {
-        const response = JSON.parse(event.data);
+      if (hasGap)
+        setCommentGaps((prev) =>
+          prev.includes(gapAfterId) ? prev : [...prev, gapAfterId]
+        );
+    };
 
-        // On receiving initial message
-        if (response?.type === LiveInteractionType.INITIAL) {
-          setLiveInitialStats(response);
-        }
-        // On receiving a reaction
-        else if (response?.type === LiveInteractionType.LIKE) {
-          const liveReactionResponse = response as LiveReactionResponse;
-          setLiveInitialStats((prevStats) => {
-            const { like_type, like_status } = liveReactionResponse.data;
-
-            if (!like_status)
-              return {
-                ...prevStats,
-                current_like_type: undefined,
-              };
-
-            const updatedStats = { ...prevStats };
-            updatedStats.current_like_type = like_type;
-
-            return updatedStats;
-          });
+    const startResume = (socket: SocketConnection) => {
+      // an unfinished resume keeps its older starting point
+      const from = pendingResume?.from ?? lastSeenCommentRef.current;
+      if (pendingResume) clearTimeout(pendingResume.timer);
+      pendingResume = null;
+      if (!from) return;
+
+      const frame = encodeLiveInteractionMessage({
+        type: LiveInteractionType.RESUME,
+        data: { last_comment_id: from.id, last_comment_at: from.created_at },
+      });
+      if (frame) socket.send(frame);
+
+      pendingResume = {
+        from,
+        timer: setTimeout(() => {
+          logger.warn('Chat resume timed out, some comments may be missing.');
+          finishResume(true);
+        }, RESUME_TIMEOUT),
+      };
+    };
+
+    const mergeIntoComments = (comments: LiveCommentInfo[]) =>
+      setLiveInitialStats((prevStats) => ({
+        ...prevStats,
+        comments: mergeComments(prevStats.comments, comments),
+      }));
+
+    const dispatchMessage = (message: LiveInteractionServerMessage) => {
+      switch (message.type) {
+        case LiveInteractionType.INITIAL: {
+          setIsLivePaused(!!message.is_paused);
+          if (!pendingResume) {
+            setLiveInitialStats(message);
+            setCommentGaps([]);
+            return;
+          }
+
+          // a reconnect: keep what was shown and add what is new
+          const { from } = pendingResume;
+          setLiveInitialStats((prevStats) => ({
+            ...message,
+            comments: mergeComments(prevStats.comments, message.comments),
+          }));
+          // the snapshot reaches back to the last seen comment, nothing was missed
+          if (
+            message.comments.some(
+              (comment) => compareComments(comment, from) <= 0
+            )
+          )
+            finishResume(false);
+          return;
         }
-        // On commenting
-        else if (response && isLiveCommentInfoObj(response)) {
-          setLiveInitialStats((prevStats) => {
-            const commentExists = prevStats.comments.some(
-              (comment) => comment.id === response.id
-            );
-            if (commentExists) return prevStats;
-
-            return {
-              ...prevStats,
-              comments: [...prevStats.comments, response] as LiveCommentInfo[],
-            };
-          });
+
+        case LiveInteractionType.RESUME:
+          mergeIntoComments(message.comments);
+          finishResume(!message.complete);
+          return;
+
+        case LiveInteractionType.LIKE: {
+          const { like_type, like_status } = message.data;
+          setLiveInitialStats((prevStats) => ({
+            ...prevStats,
+            current_like_type: like_status ? like_type : undefined,
+          }));
+          return;
         }
-        // On getting reaction stats
-        else if (response?.type === LiveInteractionType.LIKE_INFO) {
+
+        case LiveInteractionType.COMMENT:
+          mergeIntoComments([_.omit(message, ['type', 'v'])]);
+          return;
+
+        case LiveInteractionType.LIKE_INFO:
           setLiveInitialStats((prev) => ({
             ...prev,
-            like_count: response.data.total || 0,
-            like_info: { ...response?.data },
+            like_count: message.data.total || 0,
+            like_info: { ...message.data },
           }));
-        }
-        // On getting viewers count update
-        else if (response?.type === LiveInteractionType.VIEW_INFO) {
-          setLiveViewersCount(response.data.total);
-        }
-        // On getting share count update
-        else if (response?.type === LiveInteractionType.SHARE) {
-          setLiveSharesCount(response.share_count);
-        }
-        // On getting stream ended event
-        else if (response?.type === LiveInteractionType.LIVE_ENDED) {
+          return;
+
+        case LiveInteractionType.VIEW_INFO:
+          setLiveViewersCount(message.data.total);
+          return;
+
+        case LiveInteractionType.SHARE:
+          setLiveSharesCount(message.share_count);
+          return;
+
+        case LiveInteractionType.PAUSE:
+          setIsLivePaused(message.is_paused);
+          return;
+
+        case LiveInteractionType.LIVE_ENDED:
           setIsStreamStarted(false);
           setIsLiveEndEventReceived(true);
-        }
-        // On getting empty result - reset - edge case
-        else if (_.isEmpty(response)) {
+          return;
+
+        case LiveInteractionType.RESET:
           setLiveInitialStats((prev) => ({
             ...prev,
             like_count: 0,
             like_info: {},
             current_like_type: undefined,
           }));
+          return;
+
+        default: {
+          const unhandled: never = message;
+          logger.warn('Unhandled live interaction message:', unhandled);
         }
-      } catch (error) {
-        logger.error('Error parsing WebSocket message:', error);
-        toast.error('Chat is unavailable!');
       }
     };
-    chatWs.onmessage = handleMessage;
 
-    chatWs.onclose = () => {
-      setIsChatVisible(false);
-      if (chatWs.readyState === WebSocket.OPEN) chatWs.close();
-    };
+    // a bad frame is skipped, the chat keeps working
+    const handleMessage = (event: MessageEvent) => {
+      const result = decodeLiveInteractionMessage(event.data);
+      if (!result.success) {
+        logger.warn(
+          `Ignored live interaction frame (${result.reason}):`,
+          result.frame
+        );
+        return;
+      }
 
-    chatWs.onerror = () => {
-      setIsChatVisible(false);
-      if (chatWs.readyState === WebSocket.OPEN) {
-        chatWs.close();
-        toast.error('Chat is unavailable!');
+      if (
+        !hasWarnedAboutVersion &&
+        isNewerLiveInteractionProtocol(result.message)
+      ) {
+        hasWarnedAboutVersion = true;
+        logger.warn(
+          `Live interaction protocol v${result.message.v} is newer than the supported one.`
+        );
       }
+
+      dispatchMessage(result.message);
     };
 
+    // the chat stays visible while reconnecting and hides once it gives up
+    const chatWs: SocketConnection = new SocketConnection({
+      getUrl: () => getWsURL(videoId),
+      isAuthFrameSupported: true,
+      heartbeat: true,
+      onOpen: ({ isReconnect }) => {
+        if (isReconnect) startResume(chatWs);
+      },
+      onMessage: handleMessage,
+      onStateChange: setConnectionState,
+      onClose: () => setIsChatVisible(false),
+    });
+    chatWsRef.current = chatWs;
+    chatWs.connect();
+
     return () => {
-      if (chatWs.readyState === WebSocket.OPEN) chatWs?.close();
+      if (pendingResume) clearTimeout(pendingResume.timer);
+      chatWs.close();
     };
-  }, [videoId, isStreamStarted, setIsStreamStarted]);
+  }, [videoId, setIsStreamStarted]);
 
   useEffect(() => {
     setIsChatVisible(true);
@@ -202,8 +276,11 @@ export function useLiveChatWebSocket(
   return {
     isChatVisible,
     isLiveEndEventReceived,
+    isLivePaused,
+    connectionState,
 
     liveInitialStats,
+    commentGaps,
     liveViewersCount,
     liveSharesCount,
 
@@ -214,17 +291,10 @@ export function useLiveChatWebSocket(
     sendReaction,
     sendComment,
     sendShare,
+    sendPause,
 
     setIsChatVisible,
   };
 }
 
-const getWsURL = (videoId: string): string | null => {
-  const token = retrieveAuthToken();
-  if (!token) {
-    toast.error('Please reload the page');
-    return null;
-  }
-
-  return `${wsURL}/${videoId}/interaction?token=${encodeURIComponent(token)}`;
-};
+const getWsURL = (videoId: string): string => `${wsURL}/${videoId}/interaction`;
@@ -1,8 +1,11 @@
 import { LiveStreamBySoftware } from '@/data/dto/chat';
 import { StreamDetailsResponse } from '@/data/dto/stream';
 import { retrieveAuthToken } from '@/data/model/userAccount';
+import { clearActiveStream } from '@/data/model/activeStream';
 import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
 import logger from '@/lib/logger';
+import { SOCKET_STATE, SocketConnection } from '@/lib/socket-connection';
+import { closeLiveStream } from '@/services/stream';
 import { useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
@@ -15,8 +18,10 @@ interface ComponentProps {
 export const useLiveStreamSoftwareWebSocket = ({
   setStreamDetails,
 }: ComponentProps) => {
-  const streamWsRef = useRef<WebSocket | null>(null);
+  const streamWsRef = useRef<SocketConnection | null>(null);
+  const streamIdRef = useRef<number | null>(null);
   const [isStreamStarted, setIsStreamStarted] = useState(false);
+  const [connectionState, setConnectionState] = useState(SOCKET_STATE.IDLE);
   const [isLiveEndEventReceivedSoftware, setIsLiveEndEventReceivedSoftware] =
     useState(false);
 
@@ -32,76 +37,67 @@ export const useLiveStreamSoftwareWebSocket = ({
       return;
     }
 
-    const token = retrieveAuthToken();
-    if (!token) {
+    if (!retrieveAuthToken()) {
       toast.error('Authentication needed. Please refresh the page.');
       return;
     }
 
-    const url = getWsURL(streamId);
-    if (!url) return;
-
-    const streamWs = new WebSocket(url);
-    streamWsRef.current = streamWs;
-
-    streamWs.onopen = () => {
-      logger.log('WebSocket connection established');
-      streamWs.onclose = () => cleanupStream('WebSocket connection closed');
-      streamWs.onerror = (error) => cleanupStream(`WebSocket error: ${error}`);
-    };
-
-    streamWs.onmessage = (event) => {
-      try {
-        const response = JSON.parse(event.data);
-
-        if (response?.type === LiveStreamBySoftware.STARTED) {
-          setIsStreamStarted(true);
-          EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_START);
-        } else if (response?.type === LiveStreamBySoftware.ENDED) {
-          setIsStreamStarted(false);
-          setIsLiveEndEventReceivedSoftware(true);
-          EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_END);
-        } else if (response && response?.started_at) {
-          setStreamDetails((prevStats) => ({
-            ...prevStats,
-            started_at: response.started_at,
-          }));
+    streamIdRef.current = streamId;
+    const streamWs = new SocketConnection({
+      getUrl: () => getWsURL(streamId),
+      isAuthFrameSupported: true,
+      heartbeat: true,
+      onOpen: () => logger.log('WebSocket connection established'),
+      onMessage: (event) => {
+        try {
+          const response = JSON.parse(event.data);
+
+          if (response?.type === LiveStreamBySoftware.STARTED) {
+            setIsStreamStarted(true);
+            EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_START);
+          } else if (response?.type === LiveStreamBySoftware.ENDED) {
+            setIsStreamStarted(false);
+            setIsLiveEndEventReceivedSoftware(true);
+            clearActiveStream();
+            EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_END);
+          } else if (response && response?.started_at) {
+            setStreamDetails((prevStats) => ({
+              ...prevStats,
+              started_at: response.started_at,
+            }));
+          }
+        } catch (error) {
+          logger.error('Error parsing Stream WebSocket message:', error);
         }
-      } catch (error) {
-        logger.error('Error parsing Stream WebSocket message:', error);
-      }
-    };
+      },
+      onStateChange: setConnectionState,
+      onClose: () => cleanupStream('WebSocket connection closed'),
+    });
+    streamWsRef.current = streamWs;
+    streamWs.connect();
   };
 
   const stopStream = () => {
     if (streamWsRef.current) {
       logger.log('Closing WebSocket connection');
-      streamWsRef.current.close();
-      streamWsRef.current = null;
+      closeLiveStream(streamWsRef.current, streamIdRef.current);
+      clearActiveStream();
+      cleanupStream('WebSocket connection closed');
     } else logger.warn('No active WebSocket connection to close.');
   };
 
   useEffect(() => {
-    return () => {
-      stopStream();
-    };
+    return () => streamWsRef.current?.close();
   }, []);
 
   return {
     isStreamStarted,
     isLiveEndEventReceivedSoftware,
+    connectionState,
     setIsStreamStarted,
     startStream,
     stopStream,
   };
 };
 
-const getWsURL = (streamId: number): string | null => {
-  const token = retrieveAuthToken();
-  if (!token) {
-    toast.error('Please reload the page');
-    return null;
-  }
-
-  return `${wsURL}/${streamId}?token=${encodeURIComponent(token)}`;
-};
+const getWsURL = (streamId: number): string => `${wsURL}/${streamId}`;
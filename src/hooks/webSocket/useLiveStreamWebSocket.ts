@@ -1,29 +1,115 @@
 import { StreamDetailsResponse } from '@/data/dto/stream';
 import { retrieveAuthToken } from '@/data/model/userAccount';
+import { clearActiveStream } from '@/data/model/activeStream';
+import { getStreamSettings } from '@/data/model/streamSettings';
+import { modalTexts } from '@/data/stream';
+import {
+  ADAPTIVE_BITRATE_POLICY,
+  AdaptiveBitrateController,
+  UploadHealth,
+} from '@/lib/adaptive-bitrate';
 import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
 import logger from '@/lib/logger';
+import { VIDEO_PRESETS } from '@/lib/media-devices';
+import { createPauseSlate, PauseSlate } from '@/lib/pause-slate';
+import { pickRecorderFormat } from '@/lib/recorder-format';
+import { SOCKET_STATE, SocketConnection } from '@/lib/socket-connection';
+import { closeLiveStream } from '@/services/stream';
 import { useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
 const wsURL = import.meta.env.VITE_WS_STREAM_URL;
 
+export type PauseOptions = {
+  imageUrl: string | null; // drawn behind the "be right back" text
+  isAudioMuted: boolean;
+};
+
+type PausedRecording = {
+  slate: PauseSlate;
+  audioTracks: MediaStreamTrack[]; // copies, muting them leaves the mic alone
+};
+
 interface ComponentProps {
   videoRef: React.RefObject<HTMLVideoElement>;
+  // what gets recorded, the video element's own stream when not given
+  getRecordingStream?: () => MediaStream | null;
+  // fits the picture to a bitrate level's height, never above the picked
+  // preset; null goes back to the preset
+  scaleVideo?: (height: number | null) => Promise<void> | void;
   setStreamDetails: React.Dispatch<React.SetStateAction<StreamDetailsResponse>>;
 }
 
 export const useLiveStreamWebSocket = ({
   videoRef,
+  getRecordingStream,
+  scaleVideo,
   setStreamDetails,
 }: ComponentProps) => {
-  const streamWsRef = useRef<WebSocket | null>(null);
+  const streamWsRef = useRef<SocketConnection | null>(null);
+  const streamIdRef = useRef<number | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const scaleVideoRef = useRef(scaleVideo);
+  scaleVideoRef.current = scaleVideo;
+  const monitorTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const graceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pausedRecordingRef = useRef<PausedRecording | null>(null);
+  // carries on from the current tracks on a new connection, set while
+  // streaming
+  const restartUploadRef = useRef<(() => void) | null>(null);
   const [isStreamStarted, setIsStreamStarted] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [connectionState, setConnectionState] = useState(SOCKET_STATE.IDLE);
+  const [uploadHealth, setUploadHealth] = useState<UploadHealth | null>(null);
+  // null when the browser can't record any format the server takes
+  const [recorderFormat] = useState(() =>
+    pickRecorderFormat(getStreamSettings().recorderPreference)
+  );
+
+  const stopGraceTimer = () => {
+    if (graceTimerRef.current) clearTimeout(graceTimerRef.current);
+    graceTimerRef.current = null;
+  };
+
+  const stopMonitor = () => {
+    if (monitorTimerRef.current) clearInterval(monitorTimerRef.current);
+    monitorTimerRef.current = null;
+  };
+
+  // resolves once the last chunk has been handed to `ondataavailable`
+  const stopRecorder = (): Promise<void> => {
+    const mediaRecorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+    if (!mediaRecorder || mediaRecorder.state === 'inactive')
+      return Promise.resolve();
+
+    return new Promise((resolve) => {
+      mediaRecorder.addEventListener('stop', () => resolve(), { once: true });
+      mediaRecorder.stop();
+    });
+  };
 
-  const cleanupStream = (reason: string, mediaRecorder?: MediaRecorder) => {
+  const releasePausedRecording = () => {
+    const pausedRecording = pausedRecordingRef.current;
+    pausedRecordingRef.current = null;
+    if (!pausedRecording) return;
+
+    pausedRecording.slate.stop();
+    pausedRecording.audioTracks.forEach((track) => track.stop());
+  };
+
+  const cleanupStream = (reason: string) => {
     logger.log(reason);
-    if (mediaRecorder) mediaRecorder.stop();
+    stopGraceTimer();
+    stopMonitor();
+    stopRecorder();
+    releasePausedRecording();
+    setIsPaused(false);
+    setUploadHealth(null);
+    scaleVideoRef.current?.(null);
     setIsStreamStarted(false);
     streamWsRef.current = null;
+    restartUploadRef.current = null;
   };
 
   const startStream = (streamId: number) => {
@@ -37,92 +123,234 @@ export const useLiveStreamWebSocket = ({
       return;
     }
 
-    const token = retrieveAuthToken();
-    if (!token) {
+    if (!retrieveAuthToken()) {
       toast.error('Authentication needed. Please refresh the page.');
       return;
     }
 
+    if (!recorderFormat) {
+      toast.error(modalTexts.stream.unsupportedRecorder.title, {
+        description: modalTexts.stream.unsupportedRecorder.description,
+      });
+      return;
+    }
+
+    streamIdRef.current = streamId;
     const video = videoRef.current as HTMLVideoElement & {
       captureStream(): MediaStream;
     };
 
-    const url = getWsURL(streamId);
-    if (!url) return;
+    // the level survives reconnects, a flaky link starts over at its bitrate
+    const bitrate = new AdaptiveBitrateController();
+    const { recoveryGracePeriod } = getStreamSettings();
 
-    const streamWs = new WebSocket(url);
-    streamWsRef.current = streamWs;
+    const endStream = (reason: string) => {
+      clearActiveStream();
+      EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_END);
+      cleanupStream(reason);
+    };
+
+    // the camera keeps running while the socket reconnects; the broadcast
+    // only ends when it can't get back within the grace period
+    const startGraceTimer = (streamWs: SocketConnection) => {
+      if (graceTimerRef.current) return;
+
+      graceTimerRef.current = setTimeout(() => {
+        graceTimerRef.current = null;
+        streamWs.close();
+        toast.error('Connection lost. Your live stream has ended.');
+        endStream('WebSocket did not reconnect within the grace period');
+      }, recoveryGracePeriod * 1000);
+    };
 
-    streamWs.onopen = () => {
-      logger.log('WebSocket connection established');
-      setIsStreamStarted(true);
+    // every connection carries exactly one recording, container header
+    // first, at the bitrate level it was opened with
+    const startRecorder = async (streamWs: SocketConnection) => {
+      await stopRecorder();
 
-      EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_START);
+      const level = bitrate.getLevel();
+      await scaleVideoRef.current?.(level.height);
+      if (!streamWs.isOpen() || mediaRecorderRef.current) return;
 
-      const stream = video.captureStream();
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'video/webm; codecs=vp8',
+      const pausedRecording = pausedRecordingRef.current;
+      const recordingStream = pausedRecording
+        ? new MediaStream([
+            pausedRecording.slate.track,
+            ...pausedRecording.audioTracks,
+          ])
+        : getRecordingStream?.() || video.captureStream();
+      const mediaRecorder = new MediaRecorder(recordingStream, {
+        mimeType: recorderFormat.mimeType,
+        videoBitsPerSecond: level.videoBitsPerSecond,
       });
+      mediaRecorderRef.current = mediaRecorder;
 
       mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0 && streamWs.readyState === WebSocket.OPEN)
-          streamWs.send(event.data);
+        if (event.data.size > 0) streamWs.send(event.data);
       };
 
       mediaRecorder.start(100); // Send data every 100ms
+    };
 
-      streamWs.onclose = () => {
-        EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_END); // emit end event when admin ends
-        cleanupStream(`WebSocket connection closed`, mediaRecorder);
-      };
-      streamWs.onerror = (error) =>
-        cleanupStream(`WebSocket error: ${error}`, mediaRecorder);
+    // the current recording is flushed into the socket, which still sends
+    // what it buffered before closing; the next connection opens a new one
+    const restartOnNewConnection = async (streamWs: SocketConnection) => {
+      stopMonitor();
+      await stopRecorder();
+      streamWs.reconnect();
     };
 
-    streamWs.onmessage = (event) => {
-      try {
-        const response = JSON.parse(event.data);
+    // watches the socket buffer and moves along the bitrate ladder; a level
+    // change carries on at that bitrate on a new connection
+    const startMonitor = (streamWs: SocketConnection) => {
+      stopMonitor();
 
-        if (response && response?.started_at) {
-          setStreamDetails((prevStats) => ({
-            ...prevStats,
-            started_at: response.started_at,
-          }));
+      monitorTimerRef.current = setInterval(() => {
+        const health = bitrate.sample(streamWs.getBufferedAmount());
+        setUploadHealth(health);
+
+        if (health.isLevelChanged) {
+          logger.warn(
+            `Upload ${health.bufferState}, switching to ${health.level.height}p at ${health.level.videoBitsPerSecond} bps`
+          );
+          restartOnNewConnection(streamWs);
         }
-      } catch (error) {
-        logger.error('Error parsing Stream WebSocket message:', error);
-      }
+      }, ADAPTIVE_BITRATE_POLICY.checkInterval);
+    };
+
+    const streamWs: SocketConnection = new SocketConnection({
+      // a binary upload: no control frames, the token and the format go in
+      // the query
+      getUrl: () => getWsURL(streamId),
+      // the grace period decides when to give up, not the number of attempts
+      reconnect: { retries: Infinity, maxDelay: 5000 },
+      // tells the server how to decode the upload
+      getHandshake: () => ({
+        mime_type: recorderFormat.mimeType,
+        container: recorderFormat.container,
+        video_codec: recorderFormat.videoCodec,
+        audio_codec: recorderFormat.audioCodec,
+      }),
+      onOpen: ({ isReconnect }) => {
+        logger.log(
+          isReconnect
+            ? 'WebSocket connection re-established'
+            : 'WebSocket connection established'
+        );
+        setIsStreamStarted(true);
+        if (!isReconnect)
+          EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_START);
+
+        startRecorder(streamWs);
+        startMonitor(streamWs);
+      },
+      onMessage: (event) => {
+        try {
+          const response = JSON.parse(event.data);
+
+          if (response && response?.started_at) {
+            setStreamDetails((prevStats) => ({
+              ...prevStats,
+              started_at: response.started_at,
+            }));
+          }
+        } catch (error) {
+          logger.error('Error parsing Stream WebSocket message:', error);
+        }
+      },
+      onStateChange: (state) => {
+        setConnectionState(state);
+        if (state === SOCKET_STATE.OPEN) stopGraceTimer();
+        // nothing to record into while the connection is down
+        if (state === SOCKET_STATE.RECONNECTING) {
+          stopMonitor();
+          stopRecorder();
+          startGraceTimer(streamWs);
+        }
+      },
+      // ended by the server (eg: by an admin) or the session was rejected
+      onClose: () => endStream('WebSocket connection closed'),
+    });
+    streamWsRef.current = streamWs;
+    restartUploadRef.current = () => restartOnNewConnection(streamWs);
+    streamWs.connect();
+  };
+
+  // starts the recording over from the current tracks, eg: to pause; the
+  // broadcast goes on
+  const restartUpload = () => {
+    if (streamWsRef.current?.isOpen()) restartUploadRef.current?.();
+  };
+
+  // records a still slate instead of the picture, the viewers and the chat
+  // stay with the broadcast
+  const pauseStream = ({ imageUrl, isAudioMuted }: PauseOptions) => {
+    if (pausedRecordingRef.current) return;
+
+    // the audio that would go out otherwise, so a mix keeps its levels
+    const sourceStream =
+      getRecordingStream?.() ||
+      (videoRef.current?.srcObject as MediaStream | null);
+    const audioTracks = (sourceStream?.getAudioTracks() || []).map((track) => {
+      const copy = track.clone();
+      copy.enabled = track.enabled && !isAudioMuted;
+      return copy;
+    });
+
+    pausedRecordingRef.current = {
+      slate: createPauseSlate(
+        imageUrl,
+        VIDEO_PRESETS[getStreamSettings().videoPreset]
+      ),
+      audioTracks,
     };
+    setIsPaused(true);
+    restartUpload();
+  };
+
+  const resumeStream = () => {
+    if (!pausedRecordingRef.current) return;
+
+    releasePausedRecording();
+    setIsPaused(false);
+    restartUpload();
   };
 
   const stopStream = () => {
     if (streamWsRef.current) {
       logger.log('Closing WebSocket connection');
-      streamWsRef.current.close();
-      streamWsRef.current = null;
+      closeLiveStream(streamWsRef.current, streamIdRef.current);
+      clearActiveStream();
+      cleanupStream('WebSocket connection closed');
     } else logger.warn('No active WebSocket connection to close.');
   };
 
   useEffect(() => {
     return () => {
-      stopStream();
+      if (graceTimerRef.current) clearTimeout(graceTimerRef.current);
+      if (monitorTimerRef.current) clearInterval(monitorTimerRef.current);
+      // leaving the live page ends the broadcast
+      if (streamWsRef.current)
+        closeLiveStream(streamWsRef.current, streamIdRef.current);
+      if (mediaRecorderRef.current?.state === 'recording')
+        mediaRecorderRef.current.stop();
+      pausedRecordingRef.current?.slate.stop();
+      pausedRecordingRef.current?.audioTracks.forEach((track) => track.stop());
     };
   }, []);
 
   return {
     isStreamStarted,
+    isPaused,
+    connectionState,
+    uploadHealth,
+    recorderFormat,
     setIsStreamStarted,
     startStream,
+    pauseStream,
+    resumeStream,
     stopStream,
   };
 };
 
-const getWsURL = (streamId: number): string | null => {
-  const token = retrieveAuthToken();
-  if (!token) {
-    toast.error('Please reload the page');
-    return null;
-  }
-
-  return `${wsURL}/${streamId}?token=${encodeURIComponent(token)}`;
-};
+const getWsURL = (streamId: number): string => `${wsURL}/${streamId}`;
@@ -2,7 +2,14 @@ import { SidebarTriggerHangBurger } from '@/components/CustomSidebar';
 import { siteData } from '@/data/site';
 import UserAvatar from './UserAvatar';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Bell, PodcastIcon, Radio, Search } from 'lucide-react';
+import {
+  ArrowLeft,
+  Bell,
+  CloudOff,
+  PodcastIcon,
+  Radio,
+  Search,
+} from 'lucide-react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import {
   CATEGORY_FILTER_KEYWORD,
@@ -11,6 +18,7 @@ import {
   GLOBAL_CATEGORY_FILTERABLE_PAGES,
   GLOBAL_CONTENT_UNSEARCHABLE_PAGES,
   LIVE_STREAM_PATH,
+  LIVE_STREAM_PATH_BY_TYPE,
   WATCH_LIVE_PATH,
   WATCH_VIDEO_PATH,
 } from '@/data/route';
@@ -37,7 +45,7 @@ import { FixedCategories } from '@/data/types/category';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { useNotificationSheet } from '@/hooks/useNotificationsSheet';
 import { NotificationItem } from '@/components/Notification/Content';
-import { cn } from '@/lib/utils';
+import { cn, getCorrectUnit } from '@/lib/utils';
 import {
   readNotification,
   resetNotificationsCount,
@@ -49,8 +57,10 @@ import {
 } from '@/data/dto/notification';
 import { useNotificationWS } from '@/context/NotificationContext';
 import { useLiveStreamStatus } from '@/hooks/useLiveStreamStatus';
+import { useActiveStream } from '@/hooks/useActiveStream';
 import useCategories from '@/hooks/useCategories';
 import InlineLoading from '@/components/InlineLoading';
+import { usePendingMutationsCount } from '@/hooks/useOutbox';
 const LazyNotificationContent = lazy(
   () => import('@/components/Notification/Content')
 );
@@ -72,6 +82,9 @@ const AppHeader = React.memo(() => {
   );
 
   const isStreamingLive = useLiveStreamStatus();
+  const activeStream = useActiveStream();
+  const handleGoToActiveStream = () =>
+    activeStream && navigate(LIVE_STREAM_PATH_BY_TYPE[activeStream.type]);
   const { isOpen, openSheet, closeSheet } = useNotificationSheet();
 
   // ----- ✅ SEARCH ----- //
@@ -139,7 +152,8 @@ const AppHeader = React.memo(() => {
     newNotifications,
     count: notiCount,
     setCount: setNotificationsCount,
-  } = useNotificationWS(); // useNotificationWebSocket()
+  } = useNotificationWS();
+  const pendingMutationsCount = usePendingMutationsCount();
 
   const handleResetNotificationsCount = async () => {
     await resetNotificationsCount();
@@ -284,6 +298,21 @@ const AppHeader = React.memo(() => {
                     >
                       <PodcastIcon className='w-3 h-3' /> LIVE
                     </Badge>
+                  ) : activeStream ? (
+                    <TooltipComponent
+                      align='center'
+                      text='You have a live stream in progress'
+                    >
+                      <Button
+                        size='sm'
+                        variant='destructive'
+                        className='rounded-full'
+                        onClick={handleGoToActiveStream}
+                      >
+                        <PodcastIcon />
+                        Back to Live
+                      </Button>
+                    </TooltipComponent>
                   ) : (
                     <Button
                       size='sm'
@@ -296,6 +325,16 @@ const AppHeader = React.memo(() => {
                   )}
                 </>
               )}
+              {pendingMutationsCount > 0 && (
+                <TooltipComponent
+                  align='center'
+                  text={`${pendingMutationsCount}${getCorrectUnit(pendingMutationsCount, 'change')} pending sync`}
+                >
+                  <Badge variant='secondary' className='gap-1 rounded-sm'>
+                    <CloudOff className='w-3 h-3' /> {pendingMutationsCount}
+                  </Badge>
+                </TooltipComponent>
+              )}
               <Sheet open={isOpen} onOpenChange={closeSheet}>
                 <SheetTrigger asChild>
                   <TooltipComponent text='Notifications' align='center'>
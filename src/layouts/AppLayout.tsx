@@ -3,6 +3,7 @@ import React, { ReactNode } from 'react';
 import AppHeader from './AppHeader';
 import { AppSidebar } from './AppSidebar';
 import { Toaster } from '@/components/ui/sonner';
+import LiveStreamGuard from '@/components/LiveStreamGuard';
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -19,6 +20,7 @@ export const AppLayout = ({ children }: AppLayoutProps) => {
         <main className="flex flex-1 flex-col gap-4 p-6 overflow-hidden mt-[56px]">
           {children}
           <Toaster />
+          <LiveStreamGuard />
         </main>
         {/* </div> */}
       </SidebarInset>
@@ -1,11 +1,37 @@
 import { isAuthenticated, isAuthorized } from '@/data/model/userAccount';
-import { FEED_PATH, LOGIN_PATH } from '@/data/route';
-import { Navigate, useLocation } from 'react-router-dom';
+import { FEED_PATH, LOGIN_PATH, LoginRedirectState } from '@/data/route';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+import { useEffect } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import AppLayout from './AppLayout';
 import { NotificationWSProvider } from '@/context/NotificationContext';
 
 const ProtectedLayout = ({ children }: { children: React.ReactNode }) => {
   const location = useLocation();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    // session rejected by the server; come back here after logging in again
+    const onUnauthorized = () => {
+      const state: LoginRedirectState = {
+        from: location,
+        sessionExpired: true,
+      };
+      navigate(LOGIN_PATH, { replace: true, state });
+    };
+
+    EventEmitter.subscribe(
+      EVENT_EMITTER_NAME.EVENT_UNAUTHORIZED_USER,
+      onUnauthorized
+    );
+
+    return () => {
+      EventEmitter.unsubscribe(
+        EVENT_EMITTER_NAME.EVENT_UNAUTHORIZED_USER,
+        onUnauthorized
+      );
+    };
+  }, [location, navigate]);
 
   if (!isAuthenticated()) {
     // Redirect to login if not authenticated
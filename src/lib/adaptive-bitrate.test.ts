@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ADAPTIVE_BITRATE_POLICY,
+  AdaptiveBitrateController,
+  BITRATE_LADDER,
+  UPLOAD_BUFFER_STATE,
+} from '@/lib/adaptive-bitrate';
+
+const {
+  checkInterval,
+  congestedSeconds,
+  healthySeconds,
+  stepUpAfterChecks,
+  cooldown,
+} = ADAPTIVE_BITRATE_POLICY;
+
+// sample times start at `cooldown`, the first change counts it from 0
+
+// bytes holding this many seconds of media at the level's bitrate
+const bufferedBytes = (seconds: number, levelIndex: number) =>
+  (seconds * BITRATE_LADDER[levelIndex].videoBitsPerSecond) / 8;
+
+describe('AdaptiveBitrateController', () => {
+  it('starts at the top of the ladder', () => {
+    expect(new AdaptiveBitrateController().getLevel()).toBe(BITRATE_LADDER[0]);
+  });
+
+  it('steps down once the buffer holds the congested seconds', () => {
+    const bitrate = new AdaptiveBitrateController();
+
+    const below = bitrate.sample(
+      bufferedBytes(congestedSeconds, 0) - 1,
+      cooldown
+    );
+    expect(below.bufferState).toBe(UPLOAD_BUFFER_STATE.BUFFERING);
+    expect(below.isLevelChanged).toBe(false);
+
+    const congested = bitrate.sample(
+      bufferedBytes(congestedSeconds, 0),
+      cooldown
+    );
+    expect(congested.bufferState).toBe(UPLOAD_BUFFER_STATE.CONGESTED);
+    expect(congested.isLevelChanged).toBe(true);
+    expect(congested.level).toBe(BITRATE_LADDER[1]);
+  });
+
+  it('waits out the cooldown between two steps down', () => {
+    const bitrate = new AdaptiveBitrateController();
+
+    bitrate.sample(bufferedBytes(congestedSeconds, 0), cooldown);
+    const early = bitrate.sample(
+      bufferedBytes(congestedSeconds, 1),
+      2 * cooldown - 1
+    );
+    expect(early.isLevelChanged).toBe(false);
+
+    const late = bitrate.sample(
+      bufferedBytes(congestedSeconds, 1),
+      2 * cooldown
+    );
+    expect(late.isLevelChanged).toBe(true);
+    expect(late.level).toBe(BITRATE_LADDER[2]);
+  });
+
+  it('stays at the bottom of the ladder', () => {
+    const bitrate = new AdaptiveBitrateController();
+    const bottom = BITRATE_LADDER.length - 1;
+
+    let now = 0;
+    for (let index = 0; index <= bottom; index++) {
+      now += cooldown;
+      bitrate.sample(bufferedBytes(congestedSeconds, index), now);
+    }
+
+    expect(bitrate.getLevel()).toBe(BITRATE_LADDER[bottom]);
+  });
+
+  it('steps up after enough healthy samples in a row', () => {
+    const bitrate = new AdaptiveBitrateController();
+    bitrate.sample(bufferedBytes(congestedSeconds, 0), cooldown);
+
+    const healthy = bufferedBytes(healthySeconds, 1) - 1;
+    let now = 2 * cooldown;
+    for (let check = 1; check < stepUpAfterChecks; check++) {
+      const health = bitrate.sample(healthy, now);
+      expect(health.bufferState).toBe(UPLOAD_BUFFER_STATE.HEALTHY);
+      expect(health.isLevelChanged).toBe(false);
+      now += checkInterval;
+    }
+
+    const steppedUp = bitrate.sample(healthy, now);
+    expect(steppedUp.isLevelChanged).toBe(true);
+    expect(steppedUp.level).toBe(BITRATE_LADDER[0]);
+  });
+
+  it('counts healthy samples again after a busier one', () => {
+    const bitrate = new AdaptiveBitrateController();
+    bitrate.sample(bufferedBytes(congestedSeconds, 0), cooldown);
+
+    const healthy = bufferedBytes(healthySeconds, 1) - 1;
+    let now = 2 * cooldown;
+    for (let check = 1; check < stepUpAfterChecks; check++) {
+      bitrate.sample(healthy, now);
+      now += checkInterval;
+    }
+    // at the healthy threshold the buffer is no longer healthy
+    const busier = bitrate.sample(bufferedBytes(healthySeconds, 1), now);
+    expect(busier.bufferState).toBe(UPLOAD_BUFFER_STATE.BUFFERING);
+
+    now += checkInterval;
+    expect(bitrate.sample(healthy, now).isLevelChanged).toBe(false);
+    expect(bitrate.getLevel()).toBe(BITRATE_LADDER[1]);
+  });
+});
@@ -0,0 +1,105 @@
+export type BitrateLevel = {
+  videoBitsPerSecond: number;
+  height: number; // px, the width keeps the picture's aspect ratio
+};
+
+// best first
+export const BITRATE_LADDER: BitrateLevel[] = [
+  { videoBitsPerSecond: 2_500_000, height: 720 },
+  { videoBitsPerSecond: 1_200_000, height: 480 },
+  { videoBitsPerSecond: 600_000, height: 360 },
+  { videoBitsPerSecond: 300_000, height: 240 },
+];
+
+export type AdaptiveBitratePolicy = {
+  checkInterval: number; // ms between buffer samples
+  congestedSeconds: number; // queued media that counts as congestion
+  healthySeconds: number; // queued media below which the link keeps up
+  stepUpAfterChecks: number; // healthy samples in a row before raising the bitrate
+  cooldown: number; // ms between two level changes, so the buffer can settle
+};
+
+export const ADAPTIVE_BITRATE_POLICY: AdaptiveBitratePolicy = {
+  checkInterval: 1000,
+  congestedSeconds: 2,
+  healthySeconds: 0.25,
+  stepUpAfterChecks: 15,
+  cooldown: 5000,
+};
+
+export enum UPLOAD_BUFFER_STATE {
+  HEALTHY = 'healthy',
+  BUFFERING = 'buffering',
+  CONGESTED = 'congested',
+}
+
+export type UploadHealth = {
+  level: BitrateLevel;
+  bufferedAmount: number; // bytes queued in the socket
+  bufferState: UPLOAD_BUFFER_STATE;
+  isLevelChanged: boolean;
+};
+
+/**
+ * Picks the upload bitrate from how much media waits in the socket buffer:
+ * steps down as soon as the link falls behind and back up only after it
+ * kept up for a while.
+ */
+export class AdaptiveBitrateController {
+  private levelIndex = 0;
+  private healthyChecks = 0;
+  private lastChangeAt = 0;
+
+  constructor(
+    private readonly policy: AdaptiveBitratePolicy = ADAPTIVE_BITRATE_POLICY,
+    private readonly ladder: BitrateLevel[] = BITRATE_LADDER
+  ) {}
+
+  getLevel(): BitrateLevel {
+    return this.ladder[this.levelIndex];
+  }
+
+  sample(bufferedAmount: number, now: number = Date.now()): UploadHealth {
+    const bufferedSeconds =
+      (bufferedAmount * 8) / this.getLevel().videoBitsPerSecond;
+    const canChange = now - this.lastChangeAt >= this.policy.cooldown;
+    let isLevelChanged = false;
+    let bufferState = UPLOAD_BUFFER_STATE.BUFFERING;
+
+    if (bufferedSeconds >= this.policy.congestedSeconds) {
+      bufferState = UPLOAD_BUFFER_STATE.CONGESTED;
+      this.healthyChecks = 0;
+
+      if (canChange && this.levelIndex < this.ladder.length - 1) {
+        this.levelIndex += 1;
+        isLevelChanged = true;
+      }
+    } else if (bufferedSeconds < this.policy.healthySeconds) {
+      bufferState = UPLOAD_BUFFER_STATE.HEALTHY;
+      this.healthyChecks += 1;
+
+      if (
+        canChange &&
+        this.levelIndex > 0 &&
+        this.healthyChecks >= this.policy.stepUpAfterChecks
+      ) {
+        this.levelIndex -= 1;
+        isLevelChanged = true;
+      }
+    } else {
+      this.healthyChecks = 0;
+    }
+
+    if (isLevelChanged) {
+      this.lastChangeAt = now;
+      this.healthyChecks = 0;
+    }
+
+    return {
+      level: this.getLevel(),
+      bufferedAmount,
+      bufferState,
+      isLevelChanged,
+    };
+  }
+}
@@ -0,0 +1,273 @@
+import { setWorkerInterval } from '@/lib/worker-timer';
+
+export enum AUDIO_SOURCE {
+  MIC = 'mic',
+  SYSTEM = 'system', // the shared tab or system audio
+  MUSIC = 'music', // a file played under the broadcast
+}
+
+export type AudioLevel = {
+  peak: number; // dBFS
+  rms: number; // dBFS
+};
+
+export type AudioLevels = Record<AUDIO_SOURCE | 'master', AudioLevel>;
+
+export const MIN_LEVEL = -60; // dBFS, the bottom of the meter
+export const CLIPPING_LEVEL = -0.5; // dBFS, a peak above it is about to distort
+export const MAX_GAIN = 2; // +6 dB
+
+export type AudioMixerSettings = {
+  gains: Record<AUDIO_SOURCE, number>;
+  isNoiseGateOn: boolean;
+  noiseGateThreshold: number; // dBFS, the mic is cut below it
+  isCompressorOn: boolean;
+};
+
+export const DEFAULT_AUDIO_MIXER_SETTINGS: AudioMixerSettings = {
+  gains: {
+    [AUDIO_SOURCE.MIC]: 1,
+    [AUDIO_SOURCE.SYSTEM]: 1,
+    [AUDIO_SOURCE.MUSIC]: 0.3,
+  },
+  isNoiseGateOn: false,
+  noiseGateThreshold: -50,
+  isCompressorOn: true,
+};
+
+const ANALYSER_FFT_SIZE = 2048;
+const NOISE_GATE_INTERVAL = 20; // ms between gate checks
+const NOISE_GATE_HOLD = 250; // ms the gate stays open after the level drops
+const NOISE_GATE_ATTACK = 0.005; // s
+const NOISE_GATE_RELEASE = 0.1; // s
+
+// a gentle broadcast compressor; a ratio of 1 lets the signal through as is
+const COMPRESSOR = { threshold: -24, knee: 12, ratio: 4, attack: 0.01 };
+
+type AudioChannel = {
+  source: AudioNode | null;
+  track: MediaStreamTrack | null;
+  gate: GainNode; // opened and closed by the noise gate, mic only
+  fader: GainNode;
+  meter: AnalyserNode; // after the fader, what goes into the mix
+};
+
+const toDecibels = (value: number): number =>
+  value > 0 ? Math.max(MIN_LEVEL, 20 * Math.log10(value)) : MIN_LEVEL;
+
+const readLevel = (
+  analyser: AnalyserNode,
+  buffer: Float32Array
+): AudioLevel => {
+  analyser.getFloatTimeDomainData(buffer);
+
+  let peak = 0;
+  let sumOfSquares = 0;
+  buffer.forEach((sample) => {
+    peak = Math.max(peak, Math.abs(sample));
+    sumOfSquares += sample * sample;
+  });
+
+  return {
+    peak: toDecibels(peak),
+    rms: toDecibels(Math.sqrt(sumOfSquares / buffer.length)),
+  };
+};
+
+/**
+ * Mixes the mic, the shared tab or system audio and a music file into the
+ * single audio track a MediaRecorder can take. Every source has its own
+ * fader and meter; the mic goes through a noise gate and the mix through a
+ * compressor. Sources can be swapped at any time, the output track stays.
+ */
+export class AudioMixer {
+  private readonly context = new AudioContext();
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly masterMeter: AnalyserNode;
+  private readonly gateDetector: AnalyserNode; // before the gate, mic only
+  private readonly output: MediaStreamAudioDestinationNode;
+  private readonly channels: Record<AUDIO_SOURCE, AudioChannel>;
+  private readonly buffer = new Float32Array(ANALYSER_FFT_SIZE);
+  private settings: AudioMixerSettings = DEFAULT_AUDIO_MIXER_SETTINGS;
+  private stopGateTimer: (() => void) | null = null;
+  private gateOpenedAt = 0;
+  private music: HTMLAudioElement | null = null;
+
+  constructor() {
+    const { context } = this;
+
+    this.compressor = context.createDynamicsCompressor();
+    this.masterMeter = this.createMeter();
+    this.gateDetector = this.createMeter();
+    this.output = context.createMediaStreamDestination();
+    this.compressor.connect(this.masterMeter).connect(this.output);
+
+    const createChannel = (): AudioChannel => {
+      const gate = context.createGain();
+      const fader = context.createGain();
+      const meter = this.createMeter();
+      gate.connect(fader).connect(meter).connect(this.compressor);
+
+      return { source: null, track: null, gate, fader, meter };
+    };
+    this.channels = {
+      [AUDIO_SOURCE.MIC]: createChannel(),
+      [AUDIO_SOURCE.SYSTEM]: createChannel(),
+      [AUDIO_SOURCE.MUSIC]: createChannel(),
+    };
+
+    this.applySettings(this.settings);
+  }
+
+  getOutputTrack(): MediaStreamTrack {
+    return this.output.stream.getAudioTracks()[0];
+  }
+
+  // null disconnects the source; the same track is kept connected as is
+  setSourceTrack(source: AUDIO_SOURCE, track: MediaStreamTrack | null): void {
+    const channel = this.channels[source];
+    if (channel.track === track) return;
+
+    this.disconnectSource(source);
+    if (!track) return;
+
+    channel.track = track;
+    channel.source = this.context.createMediaStreamSource(
+      new MediaStream([track])
+    );
+    this.connectSource(source);
+  }
+
+  // loops the file under the broadcast; null stops it
+  setMusic(url: string | null): void {
+    this.disconnectSource(AUDIO_SOURCE.MUSIC);
+    this.music?.pause();
+    this.music = null;
+    if (!url) return;
+
+    const music = new Audio(url);
+    music.loop = true;
+    this.music = music;
+    this.channels[AUDIO_SOURCE.MUSIC].source =
+      this.context.createMediaElementSource(music);
+    this.connectSource(AUDIO_SOURCE.MUSIC);
+  }
+
+  isMusicPlaying(): boolean {
+    return !!this.music && !this.music.paused;
+  }
+
+  async playMusic(): Promise<void> {
+    await this.resume();
+    await this.music?.play();
+  }
+
+  pauseMusic(): void {
+    this.music?.pause();
+  }
+
+  applySettings(settings: AudioMixerSettings): void {
+    this.settings = settings;
+    const now = this.context.currentTime;
+
+    Object.values(AUDIO_SOURCE).forEach((source) =>
+      this.channels[source].fader.gain.setTargetAtTime(
+        settings.gains[source],
+        now,
+        0.02
+      )
+    );
+
+    const { compressor } = this;
+    compressor.threshold.value = COMPRESSOR.threshold;
+    compressor.knee.value = COMPRESSOR.knee;
+    compressor.attack.value = COMPRESSOR.attack;
+    compressor.ratio.value = settings.isCompressorOn ? COMPRESSOR.ratio : 1;
+
+    if (settings.isNoiseGateOn) this.startNoiseGate();
+    else this.stopNoiseGate();
+  }
+
+  getLevels(): AudioLevels {
+    const { buffer } = this;
+
+    return {
+      [AUDIO_SOURCE.MIC]: readLevel(
+        this.channels[AUDIO_SOURCE.MIC].meter,
+        buffer
+      ),
+      [AUDIO_SOURCE.SYSTEM]: readLevel(
+        this.channels[AUDIO_SOURCE.SYSTEM].meter,
+        buffer
+      ),
+      [AUDIO_SOURCE.MUSIC]: readLevel(
+        this.channels[AUDIO_SOURCE.MUSIC].meter,
+        buffer
+      ),
+      master: readLevel(this.masterMeter, buffer),
+    };
+  }
+
+  // browsers start a context suspended until the page was interacted with
+  async resume(): Promise<void> {
+    if (this.context.state === 'suspended') await this.context.resume();
+  }
+
+  close(): void {
+    this.stopNoiseGate();
+    this.music?.pause();
+    this.music = null;
+    this.context.close();
+  }
+
+  private createMeter(): AnalyserNode {
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = ANALYSER_FFT_SIZE;
+    return analyser;
+  }
+
+  private connectSource(source: AUDIO_SOURCE): void {
+    const channel = this.channels[source];
+    channel.source?.connect(channel.gate);
+    if (source === AUDIO_SOURCE.MIC) channel.source?.connect(this.gateDetector);
+    this.resume();
+  }
+
+  private disconnectSource(source: AUDIO_SOURCE): void {
+    const channel = this.channels[source];
+    channel.source?.disconnect();
+    channel.source = null;
+    channel.track = null;
+  }
+
+  // opens the mic while it's louder than the threshold, then holds it open
+  // a little so word endings aren't cut. Checked on a worker timer, a main
+  // thread one would only fire once a second while the tab is hidden
+  private startNoiseGate(): void {
+    if (this.stopGateTimer) return;
+
+    const { gain } = this.channels[AUDIO_SOURCE.MIC].gate;
+    this.stopGateTimer = setWorkerInterval(() => {
+      const { rms } = readLevel(this.gateDetector, this.buffer);
+      const now = performance.now();
+      if (rms > this.settings.noiseGateThreshold) this.gateOpenedAt = now;
+
+      const isOpen = now - this.gateOpenedAt < NOISE_GATE_HOLD;
+      gain.setTargetAtTime(
+        isOpen ? 1 : 0,
+        this.context.currentTime,
+        isOpen ? NOISE_GATE_ATTACK : NOISE_GATE_RELEASE
+      );
+    }, NOISE_GATE_INTERVAL);
+  }
+
+  private stopNoiseGate(): void {
+    this.stopGateTimer?.();
+    this.stopGateTimer = null;
+    this.channels[AUDIO_SOURCE.MIC].gate.gain.setTargetAtTime(
+      1,
+      this.context.currentTime,
+      NOISE_GATE_ATTACK
+    );
+  }
+}
@@ -3,6 +3,7 @@ import moment from 'moment-timezone';
 export const TIME_ZONE = 'Asia/Yangon';
 const DATE_STRING_FORMAT = 'DD MMMM, YYYY';
 const COMPLETE_DATE_TIME = 'DD MMM YYYY hh:mm A';
+const CLOCK_TIME = 'hh:mm:ss A';
 
 export const getFormattedDate = (date: Date, includeTime = false): string => {
   const format = includeTime ? COMPLETE_DATE_TIME : DATE_STRING_FORMAT;
@@ -10,6 +11,10 @@ export const getFormattedDate = (date: Date, includeTime = false): string => {
   return a;
 };
 
+// wall clock time in the app's time zone, as shown on stream overlays
+export const getFormattedClockTime = (date: Date): string =>
+  moment(date).tz(TIME_ZONE).format(CLOCK_TIME);
+
 export const getTimeAgoFormat = (date: string): string => {
   return moment(date).fromNow();
 };
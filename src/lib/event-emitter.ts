@@ -1,9 +1,14 @@
 export const EVENT_EMITTER_NAME = {
   EVENT_UNAUTHORIZED_USER: 'EVENT_UNAUTHORIZED_USER',
   USER_ACCOUNT_CHANGE: 'USER_ACCOUNT_CHANGE',
+  AUTH_TOKEN_REFRESH: 'AUTH_TOKEN_REFRESH',
   USER_PROFILE_UPDATE: 'USER_PROFILE_UPDATE',
   LIVE_STREAM_START: 'LIVE_STREAM_START',
   LIVE_STREAM_END: 'LIVE_STREAM_END',
+  ACTIVE_STREAM_CHANGE: 'ACTIVE_STREAM_CHANGE',
+  QUERY_INVALIDATE: 'QUERY_INVALIDATE',
+  ENTITIES_CHANGE: 'ENTITIES_CHANGE',
+  OUTBOX_CHANGE: 'OUTBOX_CHANGE',
 } as const;
 
 type EventName = keyof typeof EVENT_EMITTER_NAME;
@@ -0,0 +1,75 @@
+import logger from '@/lib/logger';
+
+const DB_NAME = 'live-stream';
+const DB_VERSION = 1;
+
+export const IDB_STORE = {
+  OUTBOX: 'outbox',
+} as const;
+
+type StoreName = (typeof IDB_STORE)[keyof typeof IDB_STORE];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported.'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IDB_STORE.OUTBOX))
+          db.createObjectStore(IDB_STORE.OUTBOX, {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      logger.error('Error opening IndexedDB:', error);
+      dbPromise = null;
+      throw error;
+    });
+  }
+
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisify(run(transaction.objectStore(storeName)));
+};
+
+export const idbGetAll = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', (store) => store.getAll());
+
+export const idbAdd = <T>(storeName: StoreName, value: T): Promise<number> =>
+  withStore(
+    storeName,
+    'readwrite',
+    (store) => store.add(value) as IDBRequest<number>
+  );
+
+export const idbDelete = (
+  storeName: StoreName,
+  key: IDBValidKey
+): Promise<undefined> =>
+  withStore(storeName, 'readwrite', (store) => store.delete(key));
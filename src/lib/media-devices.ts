@@ -0,0 +1,104 @@
+export enum VIDEO_PRESET {
+  HD_60 = '720p60',
+  HD_30 = '720p30',
+  SD_30 = '480p30',
+  LOW_30 = '360p30',
+}
+
+export type VideoPresetConstraints = {
+  width: number;
+  height: number;
+  frameRate: number;
+};
+
+// kept within the top of the bitrate ladder, a bigger capture would only be
+// scaled down before upload
+export const VIDEO_PRESETS: Record<VIDEO_PRESET, VideoPresetConstraints> = {
+  [VIDEO_PRESET.HD_60]: { width: 1280, height: 720, frameRate: 60 },
+  [VIDEO_PRESET.HD_30]: { width: 1280, height: 720, frameRate: 30 },
+  [VIDEO_PRESET.SD_30]: { width: 854, height: 480, frameRate: 30 },
+  [VIDEO_PRESET.LOW_30]: { width: 640, height: 360, frameRate: 30 },
+};
+
+export type MediaInputDevices = {
+  videoInputs: MediaDeviceInfo[];
+  audioInputs: MediaDeviceInfo[];
+};
+
+// `ideal`, so a camera that can't match the preset still opens at its closest mode
+export const getVideoConstraints = (
+  deviceId: string | null,
+  preset: VIDEO_PRESET
+): MediaTrackConstraints => {
+  const { width, height, frameRate } = VIDEO_PRESETS[preset];
+
+  return {
+    ...(deviceId && { deviceId: { exact: deviceId } }),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: frameRate },
+  };
+};
+
+export const getAudioConstraints = (
+  deviceId: string | null
+): MediaTrackConstraints | boolean =>
+  deviceId ? { deviceId: { exact: deviceId } } : true;
+
+// labels stay empty until the user allowed access to the camera and mic
+export const listMediaInputDevices = async (): Promise<MediaInputDevices> => {
+  if (!navigator.mediaDevices?.enumerateDevices)
+    return { videoInputs: [], audioInputs: [] };
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+
+  return {
+    videoInputs: devices.filter(({ kind }) => kind === 'videoinput'),
+    audioInputs: devices.filter(({ kind }) => kind === 'audioinput'),
+  };
+};
+
+export type MediaInputRequest = {
+  video?: { deviceId: string | null; preset: VIDEO_PRESET };
+  audio?: { deviceId: string | null };
+};
+
+// some browsers throw an OverconstrainedError that isn't a DOMException
+const isMissingDeviceError = (error: unknown): boolean =>
+  ['NotFoundError', 'OverconstrainedError'].includes(
+    (error as Error | null)?.name || ''
+  );
+
+// the device is held by another capture, eg: a camera that opens only once
+export const isDeviceBusyError = (error: unknown): boolean =>
+  ['NotReadableError', 'AbortError'].includes(
+    (error as Error | null)?.name || ''
+  );
+
+// a remembered device may have been unplugged since, then the default one opens
+export const openMediaInputs = async ({
+  video,
+  audio,
+}: MediaInputRequest): Promise<MediaStream> => {
+  const request = (useDefaultDevices: boolean) =>
+    navigator.mediaDevices.getUserMedia({
+      ...(video && {
+        video: getVideoConstraints(
+          useDefaultDevices ? null : video.deviceId,
+          video.preset
+        ),
+      }),
+      ...(audio && {
+        audio: getAudioConstraints(useDefaultDevices ? null : audio.deviceId),
+      }),
+    });
+
+  try {
+    return await request(false);
+  } catch (error) {
+    if (!isMissingDeviceError(error) || (!video?.deviceId && !audio?.deviceId))
+      throw error;
+
+    return request(true);
+  }
+};
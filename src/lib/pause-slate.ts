@@ -0,0 +1,57 @@
+import { VideoPresetConstraints } from '@/lib/media-devices';
+import {
+  LAYER_PLACEMENT,
+  SCENE_LAYER_TYPE,
+  SceneCompositor,
+  SceneLayer,
+} from '@/lib/scene-compositor';
+
+export const PAUSE_SLATE_TEXT = 'Be right back';
+
+export type PauseSlate = {
+  track: MediaStreamTrack;
+  stop: () => void;
+};
+
+// a still frame sent instead of the picture while the streamer is away,
+// redrawn at the output frame rate so the upload keeps a steady stream
+export const createPauseSlate = (
+  imageUrl: string | null,
+  output: VideoPresetConstraints
+): PauseSlate => {
+  const compositor = new SceneCompositor(
+    document.createElement('canvas'),
+    output
+  );
+
+  const layers: SceneLayer[] = [];
+  if (imageUrl) {
+    const source = new Image();
+    source.src = imageUrl;
+    layers.push({
+      id: 'pause-slate-image',
+      type: SCENE_LAYER_TYPE.IMAGE,
+      name: 'Slate image',
+      isVisible: true,
+      placement: LAYER_PLACEMENT.FULL,
+      source,
+    });
+  }
+  layers.push({
+    id: 'pause-slate-text',
+    type: SCENE_LAYER_TYPE.TEXT,
+    name: 'Slate text',
+    isVisible: true,
+    placement: LAYER_PLACEMENT.LOWER_THIRD,
+    title: PAUSE_SLATE_TEXT,
+    subtitle: '',
+  });
+
+  compositor.setLayers(layers);
+  compositor.start();
+
+  return {
+    track: compositor.getVideoTrack(),
+    stop: () => compositor.stop(),
+  };
+};
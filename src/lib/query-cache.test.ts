@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+import {
+  clearQueryCache,
+  fetchQuery,
+  getQueryData,
+  invalidateQueries,
+  MAX_CACHE_ENTRIES,
+  QUERY_SCOPE,
+  QueryFetcher,
+  QueryKey,
+  setQueryData,
+} from '@/lib/query-cache';
+
+const videoKey = (videoId: number): QueryKey => ({
+  scope: QUERY_SCOPE.VIDEO_DETAILS,
+  params: { videoId },
+});
+
+// a fetcher whose response is sent by the test
+const deferredFetcher = <T>() => {
+  let respond: (data: T) => void = () => {};
+  const fetcher = vi.fn<QueryFetcher<T>>(
+    () => new Promise<T>((resolve) => (respond = resolve))
+  );
+  return { fetcher, respond: (data: T) => respond(data) };
+};
+
+describe('query cache', () => {
+  beforeEach(() => clearQueryCache());
+
+  describe('dedupe', () => {
+    it('shares one request between callers of the same key', async () => {
+      const { fetcher, respond } = deferredFetcher<string>();
+
+      const first = fetchQuery(videoKey(1), fetcher);
+      const second = fetchQuery(videoKey(1), fetcher);
+      respond('video');
+
+      await expect(first).resolves.toBe('video');
+      await expect(second).resolves.toBe('video');
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('treats params in any order as the same key', async () => {
+      const fetcher = vi.fn().mockResolvedValue('list');
+
+      await fetchQuery(
+        { scope: QUERY_SCOPE.VIDEOS_LIST, params: { page: 1, limit: 10 } },
+        fetcher
+      );
+      await fetchQuery(
+        { scope: QUERY_SCOPE.VIDEOS_LIST, params: { limit: 10, page: 1 } },
+        fetcher
+      );
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves fresh data without fetching again', async () => {
+      const fetcher = vi.fn().mockResolvedValue('video');
+
+      await fetchQuery(videoKey(1), fetcher);
+      await expect(fetchQuery(videoKey(1), fetcher)).resolves.toBe('video');
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('only cancels a shared request once every caller aborted', async () => {
+      const { fetcher, respond } = deferredFetcher<string>();
+      const controller = new AbortController();
+
+      const aborted = fetchQuery(videoKey(1), fetcher, {
+        signal: controller.signal,
+      });
+      const kept = fetchQuery(videoKey(1), fetcher);
+      controller.abort();
+      respond('video');
+
+      await expect(aborted).rejects.toThrow('Query cancelled.');
+      await expect(kept).resolves.toBe('video');
+      expect(fetcher.mock.lastCall?.[0].aborted).toBe(false);
+    });
+
+    it('keeps responses refused by shouldCache out of the cache', async () => {
+      const fetcher = vi.fn().mockResolvedValue([]);
+      const options = { shouldCache: (list: unknown[]) => list.length > 0 };
+
+      await fetchQuery(videoKey(1), fetcher, options);
+      await fetchQuery(videoKey(1), fetcher, options);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(getQueryData(videoKey(1))).toBeUndefined();
+    });
+  });
+
+  describe('invalidation', () => {
+    it('makes the next read of a matching key fetch again', async () => {
+      const fetcher = vi
+        .fn()
+        .mockResolvedValueOnce('old')
+        .mockResolvedValueOnce('new');
+
+      await fetchQuery(videoKey(1), fetcher);
+      invalidateQueries(QUERY_SCOPE.VIDEO_DETAILS, { videoId: 1 });
+
+      await expect(fetchQuery(videoKey(1), fetcher)).resolves.toBe('new');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('matches params partially and leaves other keys fresh', async () => {
+      const fetcher = vi.fn().mockResolvedValue('comments');
+      const commentsKey = (videoId: number, page: number): QueryKey => ({
+        scope: QUERY_SCOPE.COMMENTS,
+        params: { videoId, page },
+      });
+
+      await fetchQuery(commentsKey(1, 1), fetcher);
+      await fetchQuery(commentsKey(1, 2), fetcher);
+      await fetchQuery(commentsKey(2, 1), fetcher);
+      invalidateQueries(QUERY_SCOPE.COMMENTS, { videoId: 1 });
+
+      await fetchQuery(commentsKey(1, 1), fetcher);
+      await fetchQuery(commentsKey(1, 2), fetcher);
+      await fetchQuery(commentsKey(2, 1), fetcher);
+      expect(fetcher).toHaveBeenCalledTimes(5);
+    });
+
+    it("doesn't store a response requested before the invalidation", async () => {
+      const { fetcher, respond } = deferredFetcher<string>();
+
+      const request = fetchQuery(videoKey(1), fetcher);
+      invalidateQueries(QUERY_SCOPE.VIDEO_DETAILS);
+      respond('stale');
+
+      await expect(request).resolves.toBe('stale');
+      expect(getQueryData(videoKey(1))).toBeUndefined();
+    });
+
+    it('tells mounted hooks to revalidate', () => {
+      const listener = vi.fn();
+      EventEmitter.subscribe(EVENT_EMITTER_NAME.QUERY_INVALIDATE, listener);
+
+      invalidateQueries(QUERY_SCOPE.COMMENTS, { videoId: 1 });
+
+      expect(listener).toHaveBeenCalledWith({
+        scope: QUERY_SCOPE.COMMENTS,
+        params: { videoId: 1 },
+      });
+      EventEmitter.unsubscribe(EVENT_EMITTER_NAME.QUERY_INVALIDATE, listener);
+    });
+  });
+
+  describe('eviction', () => {
+    const fillCache = (from: number, to: number) => {
+      for (let videoId = from; videoId < to; videoId++)
+        setQueryData(videoKey(videoId), videoId);
+    };
+
+    it('drops the least recently used entry beyond the limit', () => {
+      fillCache(0, MAX_CACHE_ENTRIES + 1);
+
+      expect(getQueryData(videoKey(0))).toBeUndefined();
+      expect(getQueryData(videoKey(1))).toBe(1);
+      expect(getQueryData(videoKey(MAX_CACHE_ENTRIES))).toBe(MAX_CACHE_ENTRIES);
+    });
+
+    it('counts a read as a use', async () => {
+      fillCache(0, MAX_CACHE_ENTRIES);
+
+      await fetchQuery(videoKey(0), vi.fn());
+      fillCache(MAX_CACHE_ENTRIES, MAX_CACHE_ENTRIES + 1);
+
+      expect(getQueryData(videoKey(0))).toBe(0);
+      expect(getQueryData(videoKey(1))).toBeUndefined();
+    });
+
+    it('keeps an entry whose request is in flight', async () => {
+      const { fetcher, respond } = deferredFetcher<string>();
+
+      const request = fetchQuery(videoKey(-1), fetcher);
+      fillCache(0, MAX_CACHE_ENTRIES + 1);
+      respond('video');
+      await request;
+
+      expect(getQueryData(videoKey(-1))).toBe('video');
+      expect(getQueryData(videoKey(0))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  getLoggedInUserInfo,
+  subscribeAccountChange,
+} from '@/data/model/userAccount';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+
+export const QUERY_SCOPE = {
+  CATEGORIES: 'CATEGORIES',
+  VIDEOS_LIST: 'VIDEOS_LIST',
+  VIDEO_DETAILS: 'VIDEO_DETAILS',
+  COMMENTS: 'COMMENTS',
+  STREAMER_DETAILS: 'STREAMER_DETAILS',
+  SUBSCRIPTIONS: 'SUBSCRIPTIONS',
+  NOTIFICATIONS: 'NOTIFICATIONS',
+} as const;
+
+export type QueryScope = keyof typeof QUERY_SCOPE;
+
+type QueryParams = Record<string, unknown>;
+
+export type QueryKey = {
+  scope: QueryScope;
+  params?: QueryParams;
+};
+
+// how long cached data is served without revalidating
+export const QUERY_TTL = {
+  SHORT: 30 * 1000,
+  DEFAULT: 60 * 1000,
+  LONG: 10 * 60 * 1000,
+};
+
+// least recently used entries beyond this are dropped
+export const MAX_CACHE_ENTRIES = 100;
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export type QueryOptions<T> = {
+  ttl?: number;
+  force?: boolean; // skip fresh cached data
+  signal?: AbortSignal;
+  shouldCache?: (data: T) => boolean; // keep failed responses out of the cache
+};
+
+export type QueryInvalidation = {
+  scope: QueryScope;
+  params?: QueryParams;
+};
+
+type InFlightRequest = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  consumers: number;
+};
+
+type CacheEntry = {
+  key: QueryKey;
+  data?: unknown;
+  hasData: boolean;
+  updatedAt: number;
+  ttl: number;
+  isInvalidated: boolean;
+  version: number;
+  request?: InFlightRequest;
+};
+
+const cache = new Map<string, CacheEntry>();
+
+const serializeParams = (params?: QueryParams): string => {
+  if (!params) return '';
+
+  // sort keys and drop empty values so equal params share one entry
+  const sorted = Object.keys(params)
+    .filter((name) => params[name] !== undefined && params[name] !== null)
+    .sort()
+    .map((name) => [name, params[name]]);
+
+  return JSON.stringify(sorted);
+};
+
+export const serializeQueryKey = ({ scope, params }: QueryKey): string =>
+  `${scope}:${serializeParams(params)}`;
+
+export const isQueryMatch = (
+  { scope, params }: QueryKey,
+  filter: QueryInvalidation
+): boolean => {
+  if (scope !== filter.scope) return false;
+  if (!filter.params) return true;
+
+  return Object.entries(filter.params).every(
+    ([name, value]) => String(params?.[name]) === String(value)
+  );
+};
+
+// the map keeps insertion order, so re-inserting marks an entry recently used
+const touchEntry = (hash: string, entry: CacheEntry): void => {
+  cache.delete(hash);
+  cache.set(hash, entry);
+};
+
+const evictEntries = (keptHash: string): void => {
+  for (const [hash, entry] of cache) {
+    if (cache.size <= MAX_CACHE_ENTRIES) return;
+    // a request still shared by callers keeps its entry
+    if (!entry.request && hash !== keptHash) cache.delete(hash);
+  }
+};
+
+const getEntry = (key: QueryKey): CacheEntry => {
+  const hash = serializeQueryKey(key);
+
+  let entry = cache.get(hash);
+  if (entry) {
+    touchEntry(hash, entry);
+  } else {
+    entry = {
+      key,
+      hasData: false,
+      updatedAt: 0,
+      ttl: QUERY_TTL.DEFAULT,
+      isInvalidated: false,
+      version: 0,
+    };
+    cache.set(hash, entry);
+    evictEntries(hash);
+  }
+
+  return entry;
+};
+
+const isEntryFresh = (entry: CacheEntry): boolean =>
+  entry.hasData &&
+  !entry.isInvalidated &&
+  Date.now() - entry.updatedAt < entry.ttl;
+
+export const getQueryData = <T>(key: QueryKey): T | undefined => {
+  const entry = cache.get(serializeQueryKey(key));
+  return entry?.hasData ? (entry.data as T) : undefined;
+};
+
+export const setQueryData = <T>(
+  key: QueryKey,
+  updater: T | ((prev: T | undefined) => T)
+): void => {
+  const entry = getEntry(key);
+  const prev = entry.hasData ? (entry.data as T) : undefined;
+
+  entry.data =
+    typeof updater === 'function'
+      ? (updater as (prev: T | undefined) => T)(prev)
+      : updater;
+  entry.hasData = true;
+  entry.updatedAt = Date.now();
+  entry.isInvalidated = false;
+};
+
+const startRequest = <T>(
+  entry: CacheEntry,
+  fetcher: QueryFetcher<T>,
+  shouldCache?: (data: T) => boolean
+): InFlightRequest => {
+  const controller = new AbortController();
+  const version = entry.version;
+
+  const request: InFlightRequest = {
+    controller,
+    consumers: 0,
+    promise: fetcher(controller.signal)
+      .then((data) => {
+        // results of invalidated or cancelled requests are not stored
+        const canCache = !shouldCache || shouldCache(data);
+        if (
+          canCache &&
+          !controller.signal.aborted &&
+          entry.version === version
+        ) {
+          entry.data = data;
+          entry.hasData = true;
+          entry.updatedAt = Date.now();
+          entry.isInvalidated = false;
+        }
+
+        return data;
+      })
+      .finally(() => {
+        if (entry.request === request) entry.request = undefined;
+      }),
+  };
+
+  entry.request = request;
+  return request;
+};
+
+const abortError = (): DOMException =>
+  new DOMException('Query cancelled.', 'AbortError');
+
+/**
+ * Resolves a query from the cache while it is fresh, otherwise fetches it.
+ * Callers asking for the same key at the same time share one request, which
+ * is only cancelled once every caller has aborted.
+ */
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { ttl = QUERY_TTL.DEFAULT, force, signal, shouldCache }: QueryOptions<T> = {}
+): Promise<T> => {
+  const entry = getEntry(key);
+  entry.ttl = ttl;
+
+  if (!force && isEntryFresh(entry)) return Promise.resolve(entry.data as T);
+
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const request =
+    !force && entry.request
+      ? entry.request
+      : startRequest(entry, fetcher, shouldCache);
+  request.consumers += 1;
+
+  return new Promise<T>((resolve, reject) => {
+    let isSettled = false;
+
+    const onAbort = () => {
+      if (isSettled) return;
+      isSettled = true;
+
+      request.consumers -= 1;
+      if (request.consumers <= 0) {
+        request.controller.abort();
+        if (entry.request === request) entry.request = undefined;
+      }
+
+      reject(abortError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    request.promise.then(
+      (data) => {
+        if (isSettled) return;
+        isSettled = true;
+        signal?.removeEventListener('abort', onAbort);
+        resolve(data as T);
+      },
+      (error) => {
+        if (isSettled) return;
+        isSettled = true;
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Marks matching queries as stale so their next read refetches, and tells
+ * mounted hooks to revalidate. Params match partially, e.g. `{ videoId }`
+ * covers every comments page of that video.
+ */
+export const invalidateQueries = (
+  scope: QueryScope,
+  params?: QueryParams
+): void => {
+  const filter: QueryInvalidation = { scope, params };
+
+  cache.forEach((entry) => {
+    if (!isQueryMatch(entry.key, filter)) return;
+
+    entry.isInvalidated = true;
+    entry.version += 1;
+    entry.request = undefined;
+  });
+
+  EventEmitter.emit(EVENT_EMITTER_NAME.QUERY_INVALIDATE, filter);
+};
+
+export const clearQueryCache = (): void => {
+  cache.forEach((entry) => entry.request?.controller.abort());
+  cache.clear();
+};
+
+// cached responses are per user (likes, bookmarks, subscriptions)
+let cachedUserId = getLoggedInUserInfo().id;
+
+subscribeAccountChange(({ id }) => {
+  if (id === cachedUserId) return;
+
+  cachedUserId = id;
+  clearQueryCache();
+});
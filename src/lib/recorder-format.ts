@@ -0,0 +1,59 @@
+import { RECORDER_PREFERENCE } from '@/data/model/streamSettings';
+
+export type RecorderFormat = {
+  mimeType: string;
+  container: 'webm' | 'mp4';
+  videoCodec: 'vp9' | 'vp8' | 'h264';
+  audioCodec: 'opus' | 'aac';
+};
+
+const VP9: RecorderFormat = {
+  mimeType: 'video/webm; codecs="vp9, opus"',
+  container: 'webm',
+  videoCodec: 'vp9',
+  audioCodec: 'opus',
+};
+
+const VP8: RecorderFormat = {
+  mimeType: 'video/webm; codecs="vp8, opus"',
+  container: 'webm',
+  videoCodec: 'vp8',
+  audioCodec: 'opus',
+};
+
+const H264_WEBM: RecorderFormat = {
+  mimeType: 'video/webm; codecs="h264, opus"',
+  container: 'webm',
+  videoCodec: 'h264',
+  audioCodec: 'opus',
+};
+
+// Safari only records mp4
+const H264_MP4: RecorderFormat = {
+  mimeType: 'video/mp4; codecs="avc1.42E01E, mp4a.40.2"',
+  container: 'mp4',
+  videoCodec: 'h264',
+  audioCodec: 'aac',
+};
+
+const RECORDER_FORMATS: Record<RECORDER_PREFERENCE, RecorderFormat[]> = {
+  [RECORDER_PREFERENCE.QUALITY]: [VP9, H264_WEBM, VP8, H264_MP4],
+  [RECORDER_PREFERENCE.COMPATIBILITY]: [VP8, H264_WEBM, VP9, H264_MP4],
+};
+
+// the first format of the preferred order this browser can record, if any
+export const pickRecorderFormat = (
+  preference: RECORDER_PREFERENCE
+): RecorderFormat | null => {
+  if (
+    typeof MediaRecorder === 'undefined' ||
+    typeof MediaRecorder.isTypeSupported !== 'function'
+  )
+    return null;
+
+  return (
+    RECORDER_FORMATS[preference].find(({ mimeType }) =>
+      MediaRecorder.isTypeSupported(mimeType)
+    ) || null
+  );
+};
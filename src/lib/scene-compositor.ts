@@ -0,0 +1,264 @@
+import _ from 'lodash';
+import { getFormattedClockTime } from '@/lib/date-time';
+import { VideoPresetConstraints } from '@/lib/media-devices';
+import { setWorkerInterval } from '@/lib/worker-timer';
+
+export enum SCENE_LAYER_TYPE {
+  CAMERA = 'camera',
+  SCREEN = 'screen',
+  IMAGE = 'image',
+  TEXT = 'text',
+  CLOCK = 'clock',
+}
+
+export enum LAYER_PLACEMENT {
+  FULL = 'full',
+  TOP_LEFT = 'top-left',
+  TOP_RIGHT = 'top-right',
+  BOTTOM_LEFT = 'bottom-left',
+  BOTTOM_RIGHT = 'bottom-right',
+  LOWER_THIRD = 'lower-third',
+}
+
+// fractions of the frame, so a layer keeps its spot whatever the output size
+export type LayerRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export const LAYER_PLACEMENTS: Record<LAYER_PLACEMENT, LayerRect> = {
+  [LAYER_PLACEMENT.FULL]: { x: 0, y: 0, width: 1, height: 1 },
+  [LAYER_PLACEMENT.TOP_LEFT]: { x: 0.03, y: 0.04, width: 0.3, height: 0.3 },
+  [LAYER_PLACEMENT.TOP_RIGHT]: { x: 0.67, y: 0.04, width: 0.3, height: 0.3 },
+  [LAYER_PLACEMENT.BOTTOM_LEFT]: { x: 0.03, y: 0.66, width: 0.3, height: 0.3 },
+  [LAYER_PLACEMENT.BOTTOM_RIGHT]: {
+    x: 0.67,
+    y: 0.66,
+    width: 0.3,
+    height: 0.3,
+  },
+  [LAYER_PLACEMENT.LOWER_THIRD]: { x: 0.03, y: 0.74, width: 0.6, height: 0.18 },
+};
+
+type SceneLayerBase = {
+  id: string;
+  name: string;
+  isVisible: boolean;
+  placement: LAYER_PLACEMENT;
+};
+
+export type SceneLayer = SceneLayerBase &
+  (
+    | {
+        type: SCENE_LAYER_TYPE.CAMERA | SCENE_LAYER_TYPE.SCREEN;
+        source: HTMLVideoElement;
+      }
+    | { type: SCENE_LAYER_TYPE.IMAGE; source: HTMLImageElement }
+    | { type: SCENE_LAYER_TYPE.TEXT; title: string; subtitle: string }
+    | { type: SCENE_LAYER_TYPE.CLOCK }
+  );
+
+const BACKGROUND_COLOR = '#000';
+const CAPTION_BACKGROUND_COLOR = 'rgba(0, 0, 0, 0.65)';
+const CAPTION_TEXT_COLOR = '#fff';
+const FONT_FAMILY = 'sans-serif';
+const CAPTION_FONT_SCALE = 0.055; // of the frame height
+
+const toPixels = (
+  { x, y, width, height }: LayerRect,
+  canvas: HTMLCanvasElement
+): LayerRect => ({
+  x: x * canvas.width,
+  y: y * canvas.height,
+  width: width * canvas.width,
+  height: height * canvas.height,
+});
+
+// the largest rect of the source's aspect ratio that fits, centred
+const fitContain = (
+  sourceWidth: number,
+  sourceHeight: number,
+  rect: LayerRect
+): LayerRect => {
+  const scale = Math.min(rect.width / sourceWidth, rect.height / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+
+  return {
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Draws the scene's layers, bottom first, onto a canvas at a fixed frame rate
+ * and hands out the canvas as a video track. The layers are read on every
+ * frame, so changes show up right away, including while recording.
+ */
+export class SceneCompositor {
+  private layers: SceneLayer[] = [];
+  private stopFrameTimer: (() => void) | null = null;
+  private stream: MediaStream | null = null;
+  private readonly context: CanvasRenderingContext2D;
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private output: VideoPresetConstraints
+  ) {
+    canvas.width = output.width;
+    canvas.height = output.height;
+    this.context = canvas.getContext('2d')!;
+  }
+
+  // the track carries on at the new size and pace, a recorder keeps going
+  setOutput(output: VideoPresetConstraints): void {
+    if (_.isEqual(output, this.output)) return;
+
+    this.output = output;
+    this.canvas.width = output.width;
+    this.canvas.height = output.height;
+
+    if (!this.stopFrameTimer) return;
+    this.stopFrameTimer();
+    this.stopFrameTimer = null;
+    this.start();
+  }
+
+  setLayers(layers: SceneLayer[]): void {
+    this.layers = layers;
+  }
+
+  // animation frames stop and main thread timers slow to once a second while
+  // the tab is hidden, eg: sharing another window; a worker timer keeps pace
+  start(): void {
+    if (this.stopFrameTimer) return;
+
+    this.drawFrame();
+    this.stopFrameTimer = setWorkerInterval(
+      () => this.drawFrame(),
+      1000 / this.output.frameRate
+    );
+  }
+
+  stop(): void {
+    this.stopFrameTimer?.();
+    this.stopFrameTimer = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+
+  // one track until stopped, every recorder shares it. It takes a frame
+  // whenever one is drawn, so the frame timer sets its rate
+  getVideoTrack(): MediaStreamTrack {
+    if (!this.stream) this.stream = this.canvas.captureStream();
+
+    return this.stream.getVideoTracks()[0];
+  }
+
+  private drawFrame(): void {
+    const { context, canvas } = this;
+
+    context.fillStyle = BACKGROUND_COLOR;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    this.layers
+      .filter(({ isVisible }) => isVisible)
+      .forEach((layer) =>
+        this.drawLayer(
+          layer,
+          toPixels(LAYER_PLACEMENTS[layer.placement], canvas)
+        )
+      );
+  }
+
+  private drawLayer(layer: SceneLayer, rect: LayerRect): void {
+    switch (layer.type) {
+      case SCENE_LAYER_TYPE.CAMERA:
+      case SCENE_LAYER_TYPE.SCREEN: {
+        const { source } = layer;
+        // nothing to draw before the first frame arrived
+        if (source.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+        this.drawSource(source, source.videoWidth, source.videoHeight, rect);
+        return;
+      }
+      case SCENE_LAYER_TYPE.IMAGE: {
+        const { source } = layer;
+        if (!source.complete || !source.naturalWidth) return;
+
+        this.drawSource(
+          source,
+          source.naturalWidth,
+          source.naturalHeight,
+          rect
+        );
+        return;
+      }
+      case SCENE_LAYER_TYPE.TEXT:
+        this.drawCaption(rect, layer.title, layer.subtitle);
+        return;
+      case SCENE_LAYER_TYPE.CLOCK:
+        this.drawCaption(rect, getFormattedClockTime(new Date()));
+        return;
+    }
+  }
+
+  private drawSource(
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    rect: LayerRect
+  ): void {
+    if (!sourceWidth || !sourceHeight) return;
+
+    const { x, y, width, height } = fitContain(sourceWidth, sourceHeight, rect);
+    this.context.drawImage(source, x, y, width, height);
+  }
+
+  // a box sized to its text, anchored at the rect's top left; the text is
+  // sized by the frame, so captions read the same in every placement
+  private drawCaption(rect: LayerRect, title: string, subtitle = ''): void {
+    const { context, canvas } = this;
+    const titleSize = Math.round(canvas.height * CAPTION_FONT_SCALE);
+    const subtitleSize = Math.round(titleSize * 0.65);
+    const padding = Math.round(titleSize * 0.5);
+
+    context.font = `bold ${titleSize}px ${FONT_FAMILY}`;
+    const titleWidth = context.measureText(title).width;
+    context.font = `${subtitleSize}px ${FONT_FAMILY}`;
+    const subtitleWidth = subtitle ? context.measureText(subtitle).width : 0;
+
+    const boxWidth = Math.min(
+      rect.width,
+      Math.max(titleWidth, subtitleWidth) + padding * 2
+    );
+    const boxHeight =
+      titleSize + (subtitle ? subtitleSize + padding * 0.5 : 0) + padding * 2;
+
+    context.fillStyle = CAPTION_BACKGROUND_COLOR;
+    context.fillRect(rect.x, rect.y, boxWidth, boxHeight);
+
+    context.fillStyle = CAPTION_TEXT_COLOR;
+    context.textBaseline = 'top';
+    context.font = `bold ${titleSize}px ${FONT_FAMILY}`;
+    context.fillText(
+      title,
+      rect.x + padding,
+      rect.y + padding,
+      boxWidth - padding * 2
+    );
+    if (subtitle) {
+      context.font = `${subtitleSize}px ${FONT_FAMILY}`;
+      context.fillText(
+        subtitle,
+        rect.x + padding,
+        rect.y + padding + titleSize + padding * 0.5,
+        boxWidth - padding * 2
+      );
+    }
+  }
+}
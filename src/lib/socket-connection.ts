@@ -0,0 +1,452 @@
+import { WS_AUTH_FAILURE_CLOSE_CODES } from '@/data/api';
+import {
+  notifyUnauthorizedUser,
+  retrieveAuthToken,
+} from '@/data/model/userAccount';
+import logger from '@/lib/logger';
+
+export enum SOCKET_STATE {
+  IDLE = 'idle',
+  CONNECTING = 'connecting',
+  OPEN = 'open',
+  RECONNECTING = 'reconnecting',
+  CLOSED = 'closed',
+}
+
+// how the auth token reaches the server
+export enum SOCKET_AUTH_MODE {
+  // an `auth` frame right after open, answered by an ack or deny
+  MESSAGE = 'message',
+  // a `token` query parameter, for servers without the handshake
+  QUERY = 'query',
+}
+
+// VITE_WS_AUTH_MODE pins the mode of the sockets that take the auth frame;
+// unset, they try the frame and fall back to the query parameter when the
+// server never acknowledges it
+const CONFIGURED_SOCKET_AUTH_MODE =
+  Object.values(SOCKET_AUTH_MODE).find(
+    (mode) => mode === import.meta.env.VITE_WS_AUTH_MODE
+  ) || null;
+
+// what the server turned out to support, shared by every socket
+let negotiatedAuthMode: SOCKET_AUTH_MODE | null = null;
+
+const AUTH_TIMEOUT = 10000; // ms to wait for the server to accept the token
+
+const NORMAL_CLOSURE = 1000;
+// set locally, never sent by the server
+const DEAD_CONNECTION_CLOSE_CODE = 4000;
+// sent when this side drops a socket to connect again, the session goes on
+const RECONNECT_CLOSE_CODE = 4100;
+const RECONNECT_CLOSE_REASON = 'reconnect';
+
+export type SocketReconnectPolicy = {
+  retries: number;
+  baseDelay: number; // ms, doubled on every attempt
+  maxDelay: number; // ms
+};
+
+export const DEFAULT_SOCKET_RECONNECT_POLICY: SocketReconnectPolicy = {
+  retries: 8,
+  baseDelay: 1000,
+  maxDelay: 30000,
+};
+
+// the timeout only applies once the server has answered a ping with a pong,
+// servers that ignore pings are never torn down for being quiet
+export type SocketHeartbeat = {
+  interval: number; // ms between pings
+  // ms to wait for any frame before the socket is considered dead
+  timeout: number;
+};
+
+export const DEFAULT_SOCKET_HEARTBEAT: SocketHeartbeat = {
+  interval: 25000,
+  timeout: 10000,
+};
+
+enum CONTROL_FRAME {
+  PING = 'ping',
+  PONG = 'pong',
+  AUTH = 'auth',
+  AUTH_ACK = 'auth_ack',
+  AUTH_DENY = 'auth_deny',
+}
+
+const PING_FRAME = JSON.stringify({ type: CONTROL_FRAME.PING });
+const INBOUND_CONTROL_FRAMES: string[] = [
+  CONTROL_FRAME.PONG,
+  CONTROL_FRAME.AUTH_ACK,
+  CONTROL_FRAME.AUTH_DENY,
+];
+
+export type SocketOpenInfo = { isReconnect: boolean };
+
+export type SocketConnectionOptions = {
+  getUrl: () => string; // without credentials, they are added per auth mode
+  // the server speaks the JSON control protocol's `auth` frame; otherwise the
+  // token always goes in the query
+  isAuthFrameSupported?: boolean;
+  // extra fields announced with the auth frame (query parameters in query
+  // mode)
+  getHandshake?: () => Record<string, string>;
+  reconnect?: Partial<SocketReconnectPolicy> | false;
+  // pings for servers that answer them, off unless given
+  heartbeat?: Partial<SocketHeartbeat> | boolean;
+  onOpen?: (info: SocketOpenInfo) => void;
+  onMessage?: (event: MessageEvent) => void;
+  // called when the server ends the connection or reconnecting gives up,
+  // not after `close()`
+  onClose?: (event?: CloseEvent) => void;
+  onStateChange?: (state: SOCKET_STATE) => void;
+};
+
+const getControlFrame = (data: unknown): CONTROL_FRAME | null => {
+  if (
+    typeof data !== 'string' ||
+    !INBOUND_CONTROL_FRAMES.some((type) => data.includes(type))
+  )
+    return null;
+
+  try {
+    const type = JSON.parse(data)?.type;
+    return INBOUND_CONTROL_FRAMES.includes(type) ? type : null;
+  } catch {
+    return null;
+  }
+};
+
+const withQuery = (url: string, params: Record<string, string>): string =>
+  `${url}${url.includes('?') ? '&' : '?'}${new URLSearchParams(params)}`;
+
+/**
+ * A WebSocket that authenticates after opening, reconnects with exponential
+ * backoff after an abnormal close, optionally pings the server to detect
+ * half-open connections (once it answers pings) and reports its state. Auth
+ * failures and `close()` end it for good. The token is read on every
+ * (re)connect, so a renewed one is used. Control frames only go to servers
+ * whose options say they speak them.
+ */
+export class SocketConnection {
+  private socket: WebSocket | null = null;
+  private state: SOCKET_STATE = SOCKET_STATE.IDLE;
+  private attempt = 0;
+  private hasConnected = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private authTimer: ReturnType<typeof setTimeout> | null = null;
+  private isPongSupported = false;
+  private authMode: SOCKET_AUTH_MODE;
+  private readonly isAuthModeNegotiated: boolean;
+  private readonly reconnectPolicy: SocketReconnectPolicy | null;
+  private readonly heartbeat: SocketHeartbeat | null;
+
+  constructor(private readonly options: SocketConnectionOptions) {
+    this.isAuthModeNegotiated =
+      !!options.isAuthFrameSupported && !CONFIGURED_SOCKET_AUTH_MODE;
+    this.authMode = options.isAuthFrameSupported
+      ? (CONFIGURED_SOCKET_AUTH_MODE ??
+        negotiatedAuthMode ??
+        SOCKET_AUTH_MODE.MESSAGE)
+      : SOCKET_AUTH_MODE.QUERY;
+    this.reconnectPolicy =
+      options.reconnect === false
+        ? null
+        : { ...DEFAULT_SOCKET_RECONNECT_POLICY, ...options.reconnect };
+    this.heartbeat = !options.heartbeat
+      ? null
+      : options.heartbeat === true
+        ? DEFAULT_SOCKET_HEARTBEAT
+        : { ...DEFAULT_SOCKET_HEARTBEAT, ...options.heartbeat };
+  }
+
+  getState(): SOCKET_STATE {
+    return this.state;
+  }
+
+  // open and authenticated
+  isOpen(): boolean {
+    return (
+      this.state === SOCKET_STATE.OPEN &&
+      this.socket?.readyState === WebSocket.OPEN
+    );
+  }
+
+  getBufferedAmount(): number {
+    return this.socket?.bufferedAmount || 0;
+  }
+
+  connect(): void {
+    if (this.socket || this.state === SOCKET_STATE.CLOSED) return;
+
+    const token = retrieveAuthToken();
+    if (!token) {
+      logger.warn('WebSocket not opened: no auth token.');
+      this.finish();
+      this.options.onClose?.();
+      return;
+    }
+
+    window.addEventListener('online', this.handleOnline);
+    // another socket may have found out meanwhile
+    if (this.isAuthModeNegotiated && negotiatedAuthMode)
+      this.authMode = negotiatedAuthMode;
+
+    this.setState(
+      this.hasConnected ? SOCKET_STATE.RECONNECTING : SOCKET_STATE.CONNECTING
+    );
+
+    const url = this.options.getUrl();
+    const handshake = this.options.getHandshake?.() || {};
+    const socket = new WebSocket(
+      this.authMode === SOCKET_AUTH_MODE.QUERY
+        ? withQuery(url, { ...handshake, token })
+        : url
+    );
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.authMode === SOCKET_AUTH_MODE.QUERY) {
+        this.handleAuthenticated();
+        return;
+      }
+
+      socket.send(
+        JSON.stringify({ ...handshake, type: CONTROL_FRAME.AUTH, token })
+      );
+      this.authTimer = setTimeout(() => {
+        this.authTimer = null;
+        if (this.fallBackToQueryAuth()) return;
+
+        logger.warn('WebSocket auth timed out, reconnecting.');
+        this.dropSocket();
+      }, AUTH_TIMEOUT);
+    };
+
+    socket.onmessage = (event) => {
+      // any frame proves the connection is alive
+      this.clearPongTimer();
+
+      switch (getControlFrame(event.data)) {
+        case CONTROL_FRAME.PONG:
+          this.isPongSupported = true;
+          return;
+        case CONTROL_FRAME.AUTH_ACK:
+          this.handleAuthenticated();
+          return;
+        case CONTROL_FRAME.AUTH_DENY:
+          this.handleAuthDenied();
+          return;
+        default:
+          this.options.onMessage?.(event);
+      }
+    };
+
+    socket.onerror = (error) => logger.error('WebSocket error:', error);
+
+    socket.onclose = (event) => this.handleClose(event);
+  }
+
+  send(data: string | Blob | ArrayBufferView | ArrayBufferLike): boolean {
+    if (!this.isOpen()) return false;
+
+    this.socket!.send(data);
+    return true;
+  }
+
+  sendJSON(data: unknown): boolean {
+    return this.send(JSON.stringify(data));
+  }
+
+  // closes the connection for good, no reconnect follows
+  close(code: number = NORMAL_CLOSURE, reason?: string): void {
+    if (this.state === SOCKET_STATE.CLOSED) return;
+
+    const socket = this.detachSocket();
+    if (
+      socket &&
+      (socket.readyState === WebSocket.OPEN ||
+        socket.readyState === WebSocket.CONNECTING)
+    )
+      socket.close(code, reason);
+
+    this.finish();
+  }
+
+  // drops the current socket and connects again right away
+  reconnect(): void {
+    if (this.state === SOCKET_STATE.CLOSED) return;
+
+    this.detachSocket()?.close(RECONNECT_CLOSE_CODE, RECONNECT_CLOSE_REASON);
+    this.attempt = 0;
+    this.connect();
+  }
+
+  private handleAuthenticated(): void {
+    if (this.authTimer) clearTimeout(this.authTimer);
+    this.authTimer = null;
+    if (this.state === SOCKET_STATE.OPEN) return;
+
+    if (this.isAuthModeNegotiated) negotiatedAuthMode = this.authMode;
+
+    const isReconnect = this.hasConnected;
+    this.attempt = 0;
+    this.hasConnected = true;
+    this.setState(SOCKET_STATE.OPEN);
+    this.startHeartbeat();
+    this.options.onOpen?.({ isReconnect });
+  }
+
+  private handleAuthDenied(): void {
+    logger.warn('WebSocket auth denied.');
+    this.detachSocket()?.close(NORMAL_CLOSURE);
+    notifyUnauthorizedUser();
+    this.finish();
+    this.options.onClose?.();
+  }
+
+  /**
+   * Reconnects with the token in the URL when the server ignored or hung up
+   * on the auth frame, and makes that the mode for every later socket. Only
+   * while the mode is still unknown; returns whether it fell back.
+   */
+  private fallBackToQueryAuth(): boolean {
+    if (
+      !this.isAuthModeNegotiated ||
+      negotiatedAuthMode ||
+      this.authMode !== SOCKET_AUTH_MODE.MESSAGE
+    )
+      return false;
+
+    logger.warn(
+      'WebSocket auth frame not acknowledged, using the token query.'
+    );
+    negotiatedAuthMode = SOCKET_AUTH_MODE.QUERY;
+    this.authMode = SOCKET_AUTH_MODE.QUERY;
+    this.detachSocket()?.close(RECONNECT_CLOSE_CODE, RECONNECT_CLOSE_REASON);
+    this.connect();
+    return true;
+  }
+
+  // a half-open socket may never fire `onclose`, so don't wait for it
+  private dropSocket(): void {
+    this.socket?.close(RECONNECT_CLOSE_CODE, RECONNECT_CLOSE_REASON);
+    this.handleClose(
+      new CloseEvent('close', { code: DEAD_CONNECTION_CLOSE_CODE })
+    );
+  }
+
+  private handleClose(event: CloseEvent): void {
+    // closed while the auth frame waited for its ack
+    const isAuthFrameRefused = !!this.authTimer;
+    this.detachSocket();
+
+    if (WS_AUTH_FAILURE_CLOSE_CODES.includes(event.code)) {
+      notifyUnauthorizedUser();
+      this.finish();
+      this.options.onClose?.(event);
+      return;
+    }
+
+    if (isAuthFrameRefused && this.fallBackToQueryAuth()) return;
+
+    const policy = this.reconnectPolicy;
+    if (
+      event.code === NORMAL_CLOSURE ||
+      !policy ||
+      this.attempt >= policy.retries
+    ) {
+      this.finish();
+      this.options.onClose?.(event);
+      return;
+    }
+
+    // exponential backoff with full jitter
+    const delay = Math.round(
+      Math.random() *
+        Math.min(policy.baseDelay * 2 ** this.attempt, policy.maxDelay)
+    );
+    this.attempt += 1;
+    logger.warn(
+      `WebSocket closed (${event.code}), reconnecting in ${delay}ms (attempt ${this.attempt}/${policy.retries})`
+    );
+
+    this.setState(SOCKET_STATE.RECONNECTING);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // retry right away instead of waiting out the backoff
+  private handleOnline = (): void => {
+    if (!this.reconnectTimer) return;
+
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.connect();
+  };
+
+  private startHeartbeat(): void {
+    const heartbeat = this.heartbeat;
+    if (!heartbeat) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.isOpen() || this.pongTimer) return;
+
+      this.send(PING_FRAME);
+      if (!this.isPongSupported) return;
+
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        logger.warn('WebSocket heartbeat timed out, reconnecting.');
+        this.dropSocket();
+      }, heartbeat.timeout);
+    }, heartbeat.interval);
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer) clearTimeout(this.pongTimer);
+    this.pongTimer = null;
+  }
+
+  private stopTimers(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.authTimer) clearTimeout(this.authTimer);
+    this.clearPongTimer();
+    this.reconnectTimer = null;
+    this.heartbeatTimer = null;
+    this.authTimer = null;
+  }
+
+  private detachSocket(): WebSocket | null {
+    const socket = this.socket;
+    this.socket = null;
+    this.stopTimers();
+
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+    }
+
+    return socket;
+  }
+
+  private finish(): void {
+    this.stopTimers();
+    window.removeEventListener('online', this.handleOnline);
+    this.setState(SOCKET_STATE.CLOSED);
+  }
+
+  private setState(state: SOCKET_STATE): void {
+    if (this.state === state) return;
+
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
@@ -0,0 +1,85 @@
+import logger from '@/lib/logger';
+
+const CHANNEL_PREFIX = 'live-stream:';
+
+export type TabChannel<T> = {
+  post: (message: T) => void;
+  subscribe: (onMessage: (message: T) => void) => () => void;
+};
+
+/**
+ * Messages between the open tabs of the app. Without BroadcastChannel
+ * support every tab is on its own and posting does nothing.
+ */
+export const createTabChannel = <T>(name: string): TabChannel<T> => {
+  if (typeof BroadcastChannel === 'undefined')
+    return { post: () => {}, subscribe: () => () => {} };
+
+  const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${name}`);
+
+  return {
+    post: (message) => {
+      try {
+        channel.postMessage(message);
+      } catch (error) {
+        logger.error('Error posting to other tabs:', error);
+      }
+    },
+    subscribe: (onMessage) => {
+      const handleMessage = (event: MessageEvent<T>) => onMessage(event.data);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+};
+
+/**
+ * Runs `task` while holding the `name` Web Lock, so one tab at a time runs
+ * it. Without Web Locks support the task runs right away.
+ */
+export const runWithTabLock = <T>(
+  name: string,
+  task: () => Promise<T>
+): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+
+  return navigator.locks.request(`${CHANNEL_PREFIX}${name}`, () => task());
+};
+
+/**
+ * Waits until this tab holds the `name` Web Lock and calls `onLeader`. The
+ * lock passes on to a waiting tab when the leader releases it or closes.
+ * Without Web Locks support every tab leads. Returns the release function.
+ */
+export const requestTabLeadership = (
+  name: string,
+  onLeader: () => void
+): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onLeader();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release = () => {};
+
+  navigator.locks
+    .request(
+      `${CHANNEL_PREFIX}${name}`,
+      { signal: controller.signal },
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+          onLeader();
+        })
+    )
+    .catch((error) => {
+      if (!controller.signal.aborted)
+        logger.error('Error requesting tab leadership:', error);
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+};
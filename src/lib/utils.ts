@@ -22,6 +22,38 @@ export function getObjectsByIds<T, K extends keyof T>(
   return data.filter((item) => idSet.has(item[idKey] as string | number));
 }
 
+/**
+ * Merges a freshly fetched page into a list, replacing items that are
+ * already present and appending the new ones.
+ *
+ * @param prev - Items currently in the list.
+ * @param next - Items from the latest response.
+ * @returns The merged list without duplicate IDs.
+ */
+export function mergeById<T extends { id: unknown }>(
+  prev: T[],
+  next: T[]
+): T[] {
+  const nextById = new Map(next.map((item) => [item.id, item]));
+  const prevIds = new Set(prev.map((item) => item.id));
+
+  return [
+    ...prev.map((item) => nextById.get(item.id) ?? item),
+    ...next.filter((item) => !prevIds.has(item.id)),
+  ];
+}
+
+/**
+ *
+ * @param bytes (number)
+ * @returns size in B, KB, MB format (eg: 512 B, 1.2 MB)
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function convertToHashtagStyle(str: string): string {
   return `#${str.replace(/\s+/g, '&').toLowerCase()}`;
 }
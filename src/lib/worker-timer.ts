@@ -0,0 +1,68 @@
+import logger from '@/lib/logger';
+
+// runs the intervals off the main thread, whose timers hidden tabs throttle
+const WORKER_SOURCE = `
+const timers = new Map();
+self.onmessage = ({ data }) => {
+  if (data.delay === undefined) {
+    clearInterval(timers.get(data.id));
+    timers.delete(data.id);
+    return;
+  }
+  timers.set(data.id, setInterval(() => self.postMessage(data.id), data.delay));
+};
+`;
+
+type WorkerTimerMessage = { id: number; delay?: number };
+
+const callbacks = new Map<number, () => void>();
+let worker: Worker | null = null;
+let nextTimerId = 1;
+
+const getWorker = (): Worker | null => {
+  if (worker || typeof Worker === 'undefined') return worker;
+
+  try {
+    const url = URL.createObjectURL(
+      new Blob([WORKER_SOURCE], { type: 'text/javascript' })
+    );
+    worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = (event: MessageEvent<number>) =>
+      callbacks.get(event.data)?.();
+  } catch (error) {
+    // eg: a content security policy without blob: workers
+    logger.warn('Timer worker unavailable, using main thread timers:', error);
+  }
+
+  return worker;
+};
+
+/**
+ * `setInterval` that keeps its pace in a hidden tab, where main thread
+ * timers run once a second at best. The callback still runs on the main
+ * thread. Falls back to `setInterval` without Worker support. Returns the
+ * function that clears it.
+ */
+export const setWorkerInterval = (
+  callback: () => void,
+  delay: number
+): (() => void) => {
+  const timerWorker = getWorker();
+  if (!timerWorker) {
+    const timer = setInterval(callback, delay);
+    return () => clearInterval(timer);
+  }
+
+  const id = nextTimerId++;
+  callbacks.set(id, callback);
+  const start: WorkerTimerMessage = { id, delay };
+  timerWorker.postMessage(start);
+
+  return () => {
+    if (!callbacks.delete(id)) return;
+
+    const clear: WorkerTimerMessage = { id };
+    timerWorker.postMessage(clear);
+  };
+};
@@ -1,3 +1,4 @@
+import AppAlert from '@/components/AppAlert';
 import FormErrorMessage from '@/components/FormErrorMsg';
 import { Icons } from '@/components/Icons';
 import RequiredInput from '@/components/RequiredInput';
@@ -5,10 +6,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { retrieveAuthToken } from '@/data/model/userAccount';
-import { FORGOT_PASSWORD_PATH, FEED_PATH } from '@/data/route';
+import {
+  FORGOT_PASSWORD_PATH,
+  FEED_PATH,
+  LoginRedirectState,
+} from '@/data/route';
 import { login, LoginError } from '@/services/auth';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 
 type LoginFormError = {
   loginFailure: boolean;
@@ -19,6 +24,8 @@ type LoginFormError = {
 
 const UserAuthForm = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { from, sessionExpired } = (location.state || {}) as LoginRedirectState;
 
   const _inDirecting = useRef<boolean>(false);
   const _isMounted = useRef<boolean>(false);
@@ -65,9 +72,10 @@ const UserAuthForm = () => {
     if (!_inDirecting.current) {
       _inDirecting.current = true;
 
-      navigate(FEED_PATH);
+      // return to the page the user was sent away from, if any
+      navigate(from || FEED_PATH);
     }
-  }, [navigate]);
+  }, [navigate, from]);
 
   const onAuthenticateCredentialFail = (error: LoginFormError): void => {
     if (_isMounted.current) {
@@ -152,6 +160,12 @@ const UserAuthForm = () => {
 
   return (
     <div className="grid gap-6">
+      {sessionExpired && (
+        <AppAlert
+          title="Session expired"
+          description="Your session has expired. Please log in again to continue."
+        />
+      )}
       <form onSubmit={onUserLogin}>
         <div className="grid gap-2">
           <div className="grid gap-1">
@@ -5,30 +5,27 @@ import NotFoundCentered from '@/components/NotFoundCentered';
 import VideoItem from '@/components/VideoItem';
 import { StreamsResponse } from '@/data/dto/stream';
 import { CONTENT_STATUS } from '@/data/types/stream';
-import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from '@/data/validations';
+import { DEFAULT_PAGE_SIZE } from '@/data/validations';
 import useVideosList from '@/hooks/useVideosList';
 import LayoutHeading from '@/layouts/LayoutHeading';
 import { unBookmarkVideo } from '@/services/stream';
 import { Trash2, VideoOff } from 'lucide-react';
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useRef } from 'react';
 import { toast } from 'sonner';
 
 const title = 'Bookmark Videos';
 
 const BookmarkVideos = () => {
-  const [currentPage, setCurrentPage] = useState(DEFAULT_PAGE);
-
   const {
     videos,
     totalItems,
     hasMore,
     isLoading,
     error: isFetchingError,
+    fetchNextPage,
     refetchVideos,
-    setVideos,
-    setTotalItems,
+    removeVideo,
   } = useVideosList({
-    page: currentPage,
     limit: DEFAULT_PAGE_SIZE,
     is_saved: true,
     status: CONTENT_STATUS.VIDEO,
@@ -41,24 +38,19 @@ const BookmarkVideos = () => {
       if (observerRef.current) observerRef.current.disconnect();
       observerRef.current = new IntersectionObserver((entries) => {
         if (entries[0].isIntersecting && hasMore) {
-          setCurrentPage((prev) => prev + 1);
+          fetchNextPage();
         }
       });
       if (node) observerRef.current.observe(node); // Observe the last element in the list
     },
-    [isLoading, hasMore]
+    [isLoading, hasMore, fetchNextPage]
   );
 
   const handleUnBookmarkVideo = async (video: StreamsResponse) => {
     if (video && video?.id) {
-      const isSuccess = await unBookmarkVideo(video?.id);
-      if (isSuccess) {
-        setVideos((prev) => {
-          const oldVideos = prev;
-          const updatedVideos = oldVideos.filter((v) => v.id !== video.id);
-          return updatedVideos;
-        });
-        setTotalItems((prev) => prev - 1);
+      const { success } = await unBookmarkVideo(video?.id);
+      if (success) {
+        removeVideo(video.id);
         toast.success('Removed from Bookmark videos!');
       } else {
         toast.error('Cannot remove from Bookmark videos at this moment!');
@@ -1,10 +1,10 @@
 import { CATEGORY_FILTER_KEYWORD, SEARCH_QUERY_KEYWORD } from '@/data/route';
-import { DATA_API_LIMIT, DEFAULT_PAGE } from '@/data/validations';
+import { DATA_API_LIMIT } from '@/data/validations';
 import useVideosList from '@/hooks/useVideosList';
 import { useLocation } from 'react-router-dom';
 import NotFoundCentered from '@/components/NotFoundCentered';
 import { VideoOff } from 'lucide-react';
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useRef } from 'react';
 import EndOfResults from '../../../components/EndOfResults';
 import VideoItem from '@/components/VideoItem';
 import InlineLoading from '../../../components/InlineLoading';
@@ -23,7 +23,6 @@ const FeedSearch = () => {
   const _filteredCategoryId = isNaN(Number(_fCategoryId))
     ? undefined
     : Number(_fCategoryId);
-  const [currentPage, setCurrentPage] = useState(DEFAULT_PAGE);
 
   // fetch videos
   const {
@@ -31,9 +30,9 @@ const FeedSearch = () => {
     hasMore,
     isLoading,
     error: isFetchingError,
+    fetchNextPage,
     refetchVideos,
   } = useVideosList({
-    page: currentPage,
     limit: DATA_API_LIMIT[screenSize], // fetch videos based on screen size
     title: _searchQuery || undefined,
     categoryId1:
@@ -54,12 +53,12 @@ const FeedSearch = () => {
       if (observerRef.current) observerRef.current.disconnect();
       observerRef.current = new IntersectionObserver((entries) => {
         if (entries[0].isIntersecting && hasMore) {
-          setCurrentPage((prev) => prev + 1);
+          fetchNextPage();
         }
       });
       if (node) observerRef.current.observe(node); // Observe the last element in the list
     },
-    [isLoading, hasMore]
+    [isLoading, hasMore, fetchNextPage]
   );
 
   return (
@@ -1,7 +1,7 @@
-import { DATA_API_LIMIT, DEFAULT_PAGE } from '@/data/validations';
+import { DATA_API_LIMIT } from '@/data/validations';
 import useVideosList from '@/hooks/useVideosList';
 import { VideoOff } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import EndOfResults from '../../components/EndOfResults';
 import NotFoundCentered from '@/components/NotFoundCentered';
 import InlineLoading from '@/components/InlineLoading';
@@ -12,14 +12,13 @@ import { CONTENT_STATUS } from '@/data/types/stream';
 import { useScreenSize } from '@/hooks/useScreenSize';
 import ApiFetchingError from '@/components/ApiFetchingError';
 import { StreamsResponse } from '@/data/dto/stream';
-import { bookmarkVideo } from '@/services/stream';
+import { bookmarkVideo, unBookmarkVideo } from '@/services/stream';
 import { toast } from 'sonner';
 import VideoList from './VideoList';
 
 const Feed = () => {
   const screenSize = useScreenSize();
   const { filteredCategory } = useCategory();
-  const [currentPage, setCurrentPage] = useState(DEFAULT_PAGE);
 
   // fetch videos
   const {
@@ -27,10 +26,9 @@ const Feed = () => {
     hasMore,
     isLoading,
     error: isFetchingError,
+    fetchNextPage,
     refetchVideos,
-    setVideos,
   } = useVideosList({
-    page: currentPage,
     limit: DATA_API_LIMIT[screenSize], // fetch videos based on screen size
     categoryId1:
       filteredCategory?.id === FixedCategories[0].id ||
@@ -45,18 +43,11 @@ const Feed = () => {
 
   const handleBookmarkVideo = async (video: StreamsResponse) => {
     if (video && video.id) {
-      const previousVideos = [...videos];
+      const { success } = video.is_saved
+        ? await unBookmarkVideo(video.id)
+        : await bookmarkVideo(video.id);
 
-      setVideos((prev) =>
-        prev.map((v) =>
-          v.id === video.id ? { ...v, is_saved: !v.is_saved } : v
-        )
-      );
-
-      const isSuccess = await bookmarkVideo(video.id);
-
-      if (!isSuccess) {
-        setVideos(previousVideos);
+      if (!success) {
         toast.error('Error saving to Bookmark videos');
       } else {
         const message = video.is_saved
@@ -74,7 +65,7 @@ const Feed = () => {
 
     const bottom = scrollTop + clientHeight + 10 >= scrollHeight; // 10 tolerence
 
-    if (bottom && hasMore && !isLoading) setCurrentPage((prev) => prev + 1);
+    if (bottom && hasMore && !isLoading) fetchNextPage();
   }, 500);
 
   useEffect(() => {
@@ -82,10 +73,6 @@ const Feed = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [handleScroll]);
 
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [filteredCategory]);
-
   return (
     <div>
       {/* Videos List */}
@@ -1,8 +1,8 @@
 import VideoItem from '@/components/VideoItem';
-import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from '@/data/validations';
+import { DEFAULT_PAGE_SIZE } from '@/data/validations';
 import useVideosList from '@/hooks/useVideosList';
 import LayoutHeading from '@/layouts/LayoutHeading';
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useRef } from 'react';
 import EndOfResults from '../../components/EndOfResults';
 import InlineLoading from '@/components/InlineLoading';
 import NotFoundCentered from '@/components/NotFoundCentered';
@@ -17,19 +17,16 @@ import { CONTENT_STATUS } from '@/data/types/stream';
 const title = 'Liked Videos';
 
 const LikedVideos = () => {
-  const [currentPage, setCurrentPage] = useState(DEFAULT_PAGE);
-
   const {
     videos,
     totalItems,
     hasMore,
     isLoading,
     error: isFetchingError,
+    fetchNextPage,
     refetchVideos,
-    setVideos,
-    setTotalItems,
+    removeVideo,
   } = useVideosList({
-    page: currentPage,
     limit: DEFAULT_PAGE_SIZE,
     is_liked: true,
     status: CONTENT_STATUS.VIDEO,
@@ -42,12 +39,12 @@ const LikedVideos = () => {
       if (observerRef.current) observerRef.current.disconnect();
       observerRef.current = new IntersectionObserver((entries) => {
         if (entries[0].isIntersecting && hasMore) {
-          setCurrentPage((prev) => prev + 1);
+          fetchNextPage();
         }
       });
       if (node) observerRef.current.observe(node); // Observe the last element in the list
     },
-    [isLoading, hasMore]
+    [isLoading, hasMore, fetchNextPage]
   );
 
   const handleRemoveFromLikedVideos = async (video: StreamsResponse) => {
@@ -58,12 +55,7 @@ const LikedVideos = () => {
       likeType: Reaction.LIKE, // this is unnecessary, because we are removing given reaction
     });
     if (data) {
-      setVideos((prev) => {
-        const oldVideos = prev;
-        const updatedVideos = oldVideos.filter((v) => v.id !== video.id);
-        return updatedVideos;
-      });
-      setTotalItems((prev) => prev - 1);
+      removeVideo(video.id);
       toast.success('Removed reaction!');
     } else {
       toast.error('Cannot remove reaction at this moment!');
@@ -0,0 +1,46 @@
+import { AudioLevels } from '@/lib/audio-mixer';
+import { useAudioLevels } from '@/hooks/useAudioLevels';
+import TooltipComponent from '@/components/TooltipComponent';
+import { SlidersHorizontal } from 'lucide-react';
+import AudioMeter from './AudioMeter';
+
+interface ComponentProps {
+  getLevels: () => AudioLevels | null;
+  onClick: () => void;
+}
+
+// the mix going out, with a warning while it clips; opens the mixer
+const AudioLevelIndicator = ({ getLevels, onClick }: ComponentProps) => {
+  const { levels, clipping } = useAudioLevels(getLevels);
+  const isClipping = clipping.length > 0;
+
+  return (
+    <TooltipComponent
+      text={
+        isClipping
+          ? 'Audio is clipping, lower the loudest source'
+          : 'Audio mixer'
+      }
+    >
+      <button
+        type="button"
+        onClick={onClick}
+        className="flex items-center space-x-2 bg-white/70 backdrop-blur-md rounded-sm px-2 py-1 text-sm text-gray-800 shadow-md"
+      >
+        <SlidersHorizontal className="w-3 h-3" />
+        <AudioMeter
+          level={levels?.master || null}
+          isClipping={isClipping}
+          className="w-16 md:w-24"
+        />
+        {isClipping && (
+          <span className="font-bold uppercase text-xs text-red-600">
+            Clipping
+          </span>
+        )}
+      </button>
+    </TooltipComponent>
+  );
+};
+
+export default AudioLevelIndicator;
@@ -0,0 +1,45 @@
+import { AudioLevel, MIN_LEVEL } from '@/lib/audio-mixer';
+import { cn } from '@/lib/utils';
+
+interface ComponentProps {
+  level: AudioLevel | null;
+  isClipping?: boolean;
+  className?: string;
+}
+
+const toPercent = (decibels: number): number =>
+  Math.min(100, Math.max(0, ((decibels - MIN_LEVEL) / -MIN_LEVEL) * 100));
+
+// the bar follows the RMS (loudness), the tick the peak
+const AudioMeter = (props: ComponentProps) => {
+  const { level, isClipping, className } = props;
+  const rms = toPercent(level?.rms ?? MIN_LEVEL);
+  const peak = toPercent(level?.peak ?? MIN_LEVEL);
+
+  return (
+    <div
+      className={cn(
+        'relative h-2 w-full rounded-full bg-gray-300/60 overflow-hidden',
+        className
+      )}
+    >
+      <div
+        className={cn(
+          'absolute inset-y-0 left-0 transition-[width] duration-75',
+          isClipping
+            ? 'bg-red-500'
+            : rms > 80
+              ? 'bg-yellow-500'
+              : 'bg-green-500'
+        )}
+        style={{ width: `${rms}%` }}
+      />
+      <div
+        className="absolute inset-y-0 w-0.5 bg-gray-800"
+        style={{ left: `calc(${peak}% - 2px)` }}
+      />
+    </div>
+  );
+};
+
+export default AudioMeter;
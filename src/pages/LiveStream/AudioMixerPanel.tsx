@@ -0,0 +1,223 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAudioLevels } from '@/hooks/useAudioLevels';
+import {
+  AUDIO_SOURCE,
+  AudioLevels,
+  AudioMixerSettings,
+  MAX_GAIN,
+} from '@/lib/audio-mixer';
+import { Music, Pause, Play, X } from 'lucide-react';
+import { ChangeEvent, useRef } from 'react';
+import AudioMeter from './AudioMeter';
+
+const AUDIO_SOURCE_LABELS = {
+  [AUDIO_SOURCE.MIC]: 'Microphone',
+  [AUDIO_SOURCE.SYSTEM]: 'Tab / system audio',
+  [AUDIO_SOURCE.MUSIC]: 'Background music',
+};
+
+const NOISE_GATE_RANGE = { min: -80, max: -20 }; // dBFS
+
+const formatGain = (gain: number): string =>
+  gain > 0 ? `${(20 * Math.log10(gain)).toFixed(1)} dB` : 'Off';
+
+interface ComponentProps {
+  isOpen: boolean;
+  sources: AUDIO_SOURCE[]; // the ones this kind of broadcast captures
+  settings: AudioMixerSettings;
+  musicName: string | null;
+  isMusicPlaying: boolean;
+  getLevels: () => AudioLevels | null;
+  onGainChange: (source: AUDIO_SOURCE, gain: number) => void;
+  onSettingsChange: (changes: Partial<AudioMixerSettings>) => void;
+  onMusicChange: (file: File | null) => void;
+  onToggleMusic: () => void;
+  onClose: () => void;
+}
+
+const AudioMixerPanel = (props: ComponentProps) => {
+  const {
+    isOpen,
+    sources,
+    settings,
+    musicName,
+    isMusicPlaying,
+    getLevels,
+    onGainChange,
+    onSettingsChange,
+    onMusicChange,
+    onToggleMusic,
+    onClose,
+  } = props;
+
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const { levels, clipping } = useAudioLevels(getLevels, isOpen);
+
+  const handleMusicChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onMusicChange(file);
+    event.target.value = '';
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Audio Mixer</DialogTitle>
+          <DialogDescription>
+            Keep the output meter out of the red; viewers hear the mix below.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-5">
+          {sources.map((source) => (
+            <div key={source} className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`gain-${source}`}>
+                  {AUDIO_SOURCE_LABELS[source]}
+                </Label>
+                <span className="text-xs text-muted-foreground">
+                  {formatGain(settings.gains[source])}
+                </span>
+              </div>
+              {source === AUDIO_SOURCE.MUSIC && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 justify-start truncate"
+                    onClick={() => musicInputRef.current?.click()}
+                  >
+                    <Music />
+                    <span className="truncate">
+                      {musicName || 'Choose a music file'}
+                    </span>
+                  </Button>
+                  {musicName && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="px-2"
+                        onClick={onToggleMusic}
+                      >
+                        {isMusicPlaying ? <Pause /> : <Play />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="px-2"
+                        onClick={() => onMusicChange(null)}
+                      >
+                        <X />
+                      </Button>
+                    </>
+                  )}
+                  <input
+                    ref={musicInputRef}
+                    type="file"
+                    accept="audio/*"
+                    className="hidden"
+                    onChange={handleMusicChange}
+                  />
+                </div>
+              )}
+              <input
+                id={`gain-${source}`}
+                type="range"
+                min={0}
+                max={MAX_GAIN}
+                step={0.05}
+                value={settings.gains[source]}
+                onChange={(event) =>
+                  onGainChange(source, Number(event.target.value))
+                }
+                className="w-full accent-primary"
+              />
+              <AudioMeter
+                level={levels?.[source] || null}
+                isClipping={clipping.includes(source)}
+              />
+            </div>
+          ))}
+
+          <div className="flex flex-col gap-3 border-t pt-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="noise-gate"
+                checked={settings.isNoiseGateOn}
+                onCheckedChange={(isNoiseGateOn) =>
+                  onSettingsChange({ isNoiseGateOn })
+                }
+              />
+              <Label htmlFor="noise-gate">Noise gate on the microphone</Label>
+            </div>
+            {settings.isNoiseGateOn && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="noise-gate-threshold">
+                    Cut the mic below
+                  </Label>
+                  <span className="text-xs text-muted-foreground">
+                    {settings.noiseGateThreshold} dB
+                  </span>
+                </div>
+                <input
+                  id="noise-gate-threshold"
+                  type="range"
+                  min={NOISE_GATE_RANGE.min}
+                  max={NOISE_GATE_RANGE.max}
+                  step={1}
+                  value={settings.noiseGateThreshold}
+                  onChange={(event) =>
+                    onSettingsChange({
+                      noiseGateThreshold: Number(event.target.value),
+                    })
+                  }
+                  className="w-full accent-primary"
+                />
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="compressor"
+                checked={settings.isCompressorOn}
+                onCheckedChange={(isCompressorOn) =>
+                  onSettingsChange({ isCompressorOn })
+                }
+              />
+              <Label htmlFor="compressor">
+                Compressor, evens out loud and quiet parts
+              </Label>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2 border-t pt-4">
+            <div className="flex items-center justify-between">
+              <Label>Output</Label>
+              {clipping.includes('master') && (
+                <span className="font-bold uppercase text-xs text-red-600">
+                  Clipping
+                </span>
+              )}
+            </div>
+            <AudioMeter
+              level={levels?.master || null}
+              isClipping={clipping.includes('master')}
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AudioMixerPanel;
@@ -0,0 +1,314 @@
+import { Button } from '@/components/ui/button';
+import { LetterText, MessageSquare } from 'lucide-react';
+import DetailsForm from './DetailsForm';
+import { NotifyModal } from '@/components/NotificationModal';
+import { ConfirmModal } from '@/components/ConfirmationModal';
+import { modalTexts } from '@/data/stream';
+import LiveIndicator from './LiveIndicator';
+import UploadHealthIndicator from './UploadHealthIndicator';
+import PauseIndicator from './PauseIndicator';
+import PauseSettings from './PauseSettings';
+import ReconnectingOverlay from './ReconnectingOverlay';
+import AudioLevelIndicator from './AudioLevelIndicator';
+import AudioMixerPanel from './AudioMixerPanel';
+import { StreamDetailsResponse } from '@/data/dto/stream';
+import useUserAccount from '@/hooks/useUserAccount';
+import StreamerAvatar from '@/components/StreamerAvatar';
+import Chat from '@/components/Chat';
+import { cn, getObjectsByIds } from '@/lib/utils';
+import { FORM_MODE } from '@/data/types/ui/form';
+import VideoDescriptionBox from '@/components/VideoDescriptionBox';
+import ControlButtons from './ControlButtons';
+import { SOCKET_STATE } from '@/lib/socket-connection';
+import { AUDIO_SOURCE } from '@/lib/audio-mixer';
+import { Broadcast } from '@/hooks/useBroadcast';
+
+interface ComponentProps {
+  broadcast: Broadcast;
+  isMicOn: boolean;
+  audioSources: AUDIO_SOURCE[];
+  isAudioLevelShown?: boolean;
+  reconnectingSource?: string; // what keeps capturing meanwhile
+  previewClassName?: string;
+  preview: React.ReactNode; // the capture, under the indicators
+  // shown instead of the studio, eg: when the capture isn't allowed
+  unavailable?: React.ReactNode;
+  children?: React.ReactNode; // the capture's own panels
+  onToggleMic: () => void;
+  onOpenDeviceSettings?: () => void;
+  onOpenScene?: () => void;
+}
+
+// the layout and modals every browser broadcast shares, around the capture
+const BroadcastStudio = (props: ComponentProps) => {
+  const {
+    broadcast,
+    isMicOn,
+    audioSources,
+    isAudioLevelShown = true,
+    reconnectingSource,
+    previewClassName,
+    preview,
+    unavailable,
+    children,
+    onToggleMic,
+    onOpenDeviceSettings,
+    onOpenScene,
+  } = props;
+  const {
+    type,
+    streamCategories,
+    streamDetails,
+    isStreamDetailsModalOpen,
+    notifyModal,
+    confirmModal,
+    isPauseSettingsOpen,
+    isAudioMixerOpen,
+    activeStream,
+    isStreamStarted,
+    isPaused,
+    streamConnectionState,
+    uploadHealth,
+    audioMixer,
+    chat,
+  } = broadcast;
+  const currentUser = useUserAccount();
+
+  const categories = streamCategories?.map((cat) => ({
+    id: cat.id.toString(),
+    name: cat.name,
+  }));
+
+  const controlButtons = (
+    <ControlButtons
+      type={type}
+      isMicOn={isMicOn}
+      isPaused={isPaused}
+      isStreamStarted={isStreamStarted}
+      onToggleMic={onToggleMic}
+      onPause={broadcast.handlePauseSettingsOpen}
+      onResume={broadcast.handleResumeStream}
+      onOpenDeviceSettings={onOpenDeviceSettings}
+      onOpenScene={onOpenScene}
+      onEndStream={broadcast.handleEndStream}
+      onInitializeStreamModalOpen={broadcast.handleStreamDetailsModalOpen}
+      onInitializeStreamCancel={broadcast.handleInitializeStreamCancel}
+    />
+  );
+
+  return (
+    <div>
+      {unavailable || (
+        <>
+          {!isStreamStarted && (
+            <DetailsForm
+              type={type}
+              mode={FORM_MODE.CREATE}
+              isOpen={isStreamDetailsModalOpen}
+              categories={categories}
+              onSuccess={(data: StreamDetailsResponse) =>
+                broadcast.handleStreamSaveSuccess(data, FORM_MODE.CREATE)
+              }
+              onClose={broadcast.handleStreamDetailsModalClose}
+            />
+          )}
+
+          <div className="flex flex-col w-full h-full gap-3 overflow-hidden box-border">
+            <div className="flex w-full lg:h-full items-center justify-center overflow-hidden">
+              {/* Video and Chat Layout */}
+              <div className="flex flex-col lg:flex-row w-full h-full gap-3">
+                {/* Capture View */}
+                <div
+                  className={cn(
+                    'flex-1 flex items-center justify-center border rounded-md overflow-hidden relative',
+                    previewClassName
+                  )}
+                >
+                  {/* Live indicators */}
+                  {isStreamStarted && (
+                    <div className="absolute top-3 left-3 z-20 flex flex-wrap gap-2">
+                      <LiveIndicator
+                        isStreamStarted={isStreamStarted}
+                        likeCount={chat.liveInitialStats.like_count}
+                        commentCount={chat.liveInitialStats.comments?.length}
+                        viewerCount={chat.liveViewersCount}
+                        sharedCount={
+                          chat.liveSharesCount ||
+                          chat.liveInitialStats.share_count ||
+                          0
+                        }
+                      />
+                      <UploadHealthIndicator health={uploadHealth} />
+                      <PauseIndicator isPaused={isPaused} />
+                    </div>
+                  )}
+                  {/* sm: Control buttons */}
+                  <div className="absolute bottom-3 z-10 inline md:hidden">
+                    {controlButtons}
+                  </div>
+                  {isStreamStarted &&
+                    streamConnectionState === SOCKET_STATE.RECONNECTING && (
+                      <ReconnectingOverlay source={reconnectingSource} />
+                    )}
+                  {isAudioLevelShown && (
+                    <div className="absolute top-3 right-3 z-20">
+                      <AudioLevelIndicator
+                        getLevels={audioMixer.getLevels}
+                        onClick={broadcast.handleAudioMixerOpen}
+                      />
+                    </div>
+                  )}
+                  {preview}
+                </div>
+
+                {/* Chat */}
+                {isStreamStarted && chat.isChatVisible && (
+                  <div className="w-full lg:w-1/4 flex flex-col h-[50vh] md:h-full border rounded-md overflow-hidden">
+                    <Chat
+                      currentUser={currentUser}
+                      initialStats={chat.liveInitialStats}
+                      onToggleVisibility={chat.toggleChat}
+                      onReactOnLive={chat.sendReaction}
+                      onCommentOnLive={chat.sendComment}
+                      connectionState={chat.connectionState}
+                      commentGaps={chat.commentGaps}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Control bars */}
+            <div className="bottom-0 flex items-center md:justify-center">
+              {/* Stream details card */}
+              {streamDetails && streamDetails?.id && (
+                <>
+                  <div className="hidden md:inline-block absolute left-5">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={broadcast.handleStreamDetailsModalOpen}
+                    >
+                      <LetterText />
+                      Details
+                    </Button>
+                    {isStreamStarted && (
+                      <DetailsForm
+                        type={type}
+                        mode={FORM_MODE.VIEW}
+                        isOpen={isStreamDetailsModalOpen}
+                        data={streamDetails}
+                        categories={categories}
+                        onSuccess={(data: StreamDetailsResponse) =>
+                          broadcast.handleStreamSaveSuccess(
+                            data,
+                            FORM_MODE.EDIT
+                          )
+                        }
+                        onClose={broadcast.handleStreamDetailsModalClose}
+                      />
+                    )}
+                  </div>
+                  {/* Start - Mobile stream details card */}
+                  {!chat.isChatVisible && isStreamStarted && (
+                    <div className="block w-full md:hidden">
+                      <div className="flex justify-between items-start">
+                        <StreamerAvatar />
+                        <Button
+                          onClick={chat.toggleChat}
+                          variant="outline"
+                          size="sm"
+                        >
+                          <MessageSquare /> Show Chat
+                        </Button>
+                      </div>
+                      <div className="flex flex-col gap-3 mt-3">
+                        <p className="bg-secondary/40 p-4 rounded-lg text-xl font-semibold">
+                          {streamDetails?.title || '—'}
+                        </p>
+                        <VideoDescriptionBox
+                          totalViews={chat.liveViewersCount}
+                          description={streamDetails?.description || '—'}
+                          createdAt={
+                            streamDetails?.started_at ||
+                            new Date()?.toDateString()
+                          }
+                          categories={getObjectsByIds(
+                            streamCategories,
+                            streamDetails?.category_ids || [],
+                            'id'
+                          )}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {/* End - Mobile stream details card */}
+                </>
+              )}
+
+              {/* md: Control buttons */}
+              <div className="hidden md:inline-block">{controlButtons}</div>
+              {/* Chat toggle button */}
+              <div className="hidden md:inline-block absolute right-5">
+                {isStreamStarted && (
+                  <Button variant="ghost" size="sm" onClick={chat.toggleChat}>
+                    <MessageSquare /> {chat.isChatVisible ? 'Hide' : 'Show'}{' '}
+                    chat
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      <NotifyModal
+        type={notifyModal.type}
+        isOpen={notifyModal.isOpen}
+        title={notifyModal.title}
+        description={notifyModal.description}
+        onClose={broadcast.closeNotifyModal}
+      />
+      <ConfirmModal
+        isDanger={confirmModal.isDanger}
+        isOpen={confirmModal.isOpen}
+        title={confirmModal.title}
+        description={confirmModal.description}
+        proceedBtnText={confirmModal.proceedBtnText}
+        onConfirm={confirmModal.onConfirm}
+        onCancel={broadcast.closeConfirmationModal}
+      />
+      {children}
+      <AudioMixerPanel
+        isOpen={isAudioMixerOpen}
+        sources={audioSources}
+        settings={audioMixer.settings}
+        musicName={audioMixer.musicName}
+        isMusicPlaying={audioMixer.isMusicPlaying}
+        getLevels={audioMixer.getLevels}
+        onGainChange={audioMixer.changeGain}
+        onSettingsChange={audioMixer.changeSettings}
+        onMusicChange={audioMixer.changeMusic}
+        onToggleMusic={audioMixer.toggleMusic}
+        onClose={broadcast.handleAudioMixerClose}
+      />
+      <PauseSettings
+        isOpen={isPauseSettingsOpen}
+        thumbnailUrl={streamDetails.thumbnail_url}
+        onConfirm={broadcast.handlePauseStream}
+        onClose={broadcast.handlePauseSettingsClose}
+      />
+      <ConfirmModal
+        isOpen={!!activeStream}
+        title={modalTexts.stream.inProgress.title}
+        description={modalTexts.stream.inProgress.description}
+        cancelBtnText="End Stream"
+        proceedBtnText="Resume"
+        onConfirm={broadcast.handleResumeActiveStream}
+        onCancel={broadcast.handleEndActiveStream}
+      />
+    </div>
+  );
+};
+
+export default BroadcastStudio;
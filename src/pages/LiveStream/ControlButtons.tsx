@@ -1,13 +1,28 @@
 import { Button } from "@/components/ui/button";
 import { STREAM_TYPE } from "@/data/types/stream";
-import { Ban, CircleSlash, Mic, MicOff, Radio } from "lucide-react";
+import {
+  Ban,
+  CircleSlash,
+  Coffee,
+  Layers,
+  Mic,
+  MicOff,
+  Play,
+  Radio,
+  Settings2,
+} from "lucide-react";
 
 interface ComponentProps {
   isStartStreamBtnVisible?: boolean;
   type: STREAM_TYPE;
   isMicOn?: boolean;
   isStreamStarted: boolean;
+  isPaused?: boolean;
   onToggleMic?: () => void;
+  onOpenDeviceSettings?: () => void;
+  onOpenScene?: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
   onEndStream: () => void;
   onInitializeStreamModalOpen: () => void;
   onInitializeStreamCancel: () => void;
@@ -19,7 +34,12 @@ const ControlButtons = (props: ComponentProps) => {
     type,
     isMicOn,
     isStreamStarted,
+    isPaused,
     onToggleMic,
+    onOpenDeviceSettings,
+    onOpenScene,
+    onPause,
+    onResume,
     onEndStream,
     onInitializeStreamModalOpen,
     onInitializeStreamCancel,
@@ -27,7 +47,7 @@ const ControlButtons = (props: ComponentProps) => {
 
   return (
     <div className='flex gap-2'>
-      {type === STREAM_TYPE.CAMERA && (
+      {(type === STREAM_TYPE.CAMERA || type === STREAM_TYPE.SCREEN) && (
         <Button
           onClick={() => {
             if (onToggleMic) onToggleMic();
@@ -39,6 +59,39 @@ const ControlButtons = (props: ComponentProps) => {
           {isMicOn ? <Mic /> : <MicOff />}
         </Button>
       )}
+      {onOpenDeviceSettings && (
+        <Button
+          onClick={onOpenDeviceSettings}
+          variant='ghost'
+          size='sm'
+          className='rounded-full px-2.5'
+        >
+          <Settings2 />
+        </Button>
+      )}
+      {onOpenScene && (
+        <Button
+          onClick={onOpenScene}
+          variant='ghost'
+          size='sm'
+          className='rounded-full px-2.5'
+        >
+          <Layers />
+        </Button>
+      )}
+      {isStreamStarted && onPause && (
+        <Button
+          size='sm'
+          variant={isPaused ? 'default' : 'secondary'}
+          className='rounded-full'
+          onClick={isPaused ? onResume : onPause}
+        >
+          {isPaused ? <Play /> : <Coffee />}{' '}
+          <span className='hidden md:inline'>
+            {isPaused ? 'Resume' : 'Be Right Back'}
+          </span>
+        </Button>
+      )}
       {isStreamStarted ? (
         <Button
           size='sm'
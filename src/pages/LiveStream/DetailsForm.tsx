@@ -14,7 +14,16 @@ import RequiredInput from '@/components/RequiredInput';
 import FormErrorMessage from '@/components/FormErrorMsg';
 import { Textarea } from '@/components/ui/textarea';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
-import { Blocks, Camera, Check, Copy, Pencil, Radio, Save } from 'lucide-react';
+import {
+  Blocks,
+  Camera,
+  Check,
+  Copy,
+  MonitorUp,
+  Pencil,
+  Radio,
+  Save,
+} from 'lucide-react';
 import ImageUpload from '@/components/ImageUpload';
 import { Separator } from '@/components/ui/separator';
 import { DialogClose } from '@radix-ui/react-dialog';
@@ -33,6 +42,8 @@ import { fetchImageWithAuth } from '@/api/image';
 import TooltipComponent from '@/components/TooltipComponent';
 import { useCopyToClipboard } from '@/hooks/useCopyToClipboard';
 import { toast } from 'sonner';
+import UploadProgress from '@/components/UploadProgress';
+import { useUploadProgress } from '@/hooks/useUploadProgress';
 
 interface ComponentProps {
   type: STREAM_TYPE;
@@ -108,6 +119,8 @@ const DetailsForm = (props: ComponentProps) => {
   const [isStreamServerCopied, setIsStreamServerCopied] = useState(false);
   const [isStreamKeyCopied, setIsStreamKeyCopied] = useState(false);
   const [copiedText, copy, isCopied] = useCopyToClipboard();
+  const { progress, startUpload, finishUpload, cancelUpload } =
+    useUploadProgress();
 
   /**
    *
@@ -117,6 +130,7 @@ const DetailsForm = (props: ComponentProps) => {
    */
   const handleStreamDetailsSave = async (mode: FORM_MODE): Promise<void> => {
     setIsLoading(true);
+    const uploadOptions = startUpload();
 
     let responseData: StreamDetailsResponse | undefined,
       responseErrors: Record<StreamInitializeError, boolean> | undefined;
@@ -131,7 +145,8 @@ const DetailsForm = (props: ComponentProps) => {
           thumbnailImage: thumbnailImage?.file,
           thumbnailPreview: thumbnailImage?.preview,
         },
-        FORM_MODE.CREATE
+        FORM_MODE.CREATE,
+        uploadOptions
       );
       responseData = _data;
       responseErrors = _errors;
@@ -146,13 +161,17 @@ const DetailsForm = (props: ComponentProps) => {
           thumbnailImage: thumbnailImage?.file,
           thumbnailPreview: thumbnailImage?.preview,
         },
-        FORM_MODE.EDIT
+        FORM_MODE.EDIT,
+        uploadOptions
       );
       responseData = _data;
       responseErrors = _errors;
     }
+    finishUpload();
 
-    if (!!responseData && !responseErrors) {
+    if (uploadOptions.signal?.aborted) {
+      toast.info('Upload cancelled.');
+    } else if (!!responseData && !responseErrors) {
       onSuccess(responseData);
       setMode(FORM_MODE.VIEW);
       if (isSidebarOpen) setSidebarOpen(false);
@@ -267,6 +286,7 @@ const DetailsForm = (props: ComponentProps) => {
   };
 
   const handleClose = () => {
+    cancelUpload();
     setMode(FORM_MODE.VIEW);
     if (data) {
       setSelectedCategories(() =>
@@ -630,11 +650,19 @@ const DetailsForm = (props: ComponentProps) => {
                     <ToggleGroupItem value={STREAM_TYPE.SOFTWARE}>
                       <Blocks /> Software
                     </ToggleGroupItem>
+                    <ToggleGroupItem value={STREAM_TYPE.SCREEN}>
+                      <MonitorUp /> Screen
+                    </ToggleGroupItem>
                   </ToggleGroup>
                 </div>
               </div>
             </div>
           </div>
+          {progress && (
+            <div className="pt-3">
+              <UploadProgress progress={progress} onCancel={cancelUpload} />
+            </div>
+          )}
           <DialogFooter className="sm:flex gap-1 w-full px-0 pt-3">
             {!isEditMode && (
               <DialogClose asChild>
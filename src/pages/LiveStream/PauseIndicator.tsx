@@ -0,0 +1,20 @@
+import { Coffee } from 'lucide-react';
+import { PAUSE_SLATE_TEXT } from '@/lib/pause-slate';
+
+interface ComponentProps {
+  isPaused: boolean;
+}
+
+// shown to the streamer and the viewers while the broadcast is on a slate
+const PauseIndicator = ({ isPaused }: ComponentProps) => {
+  if (!isPaused) return null;
+
+  return (
+    <div className="flex items-center space-x-2 bg-amber-500 text-white rounded-sm px-2 py-1 text-xs shadow-md">
+      <Coffee className="w-3 h-3" />
+      <span className="font-bold uppercase text-xs">{PAUSE_SLATE_TEXT}</span>
+    </div>
+  );
+};
+
+export default PauseIndicator;
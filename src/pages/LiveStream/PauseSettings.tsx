@@ -0,0 +1,160 @@
+import { fetchImageWithAuth } from '@/api/image';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { PauseOptions } from '@/hooks/webSocket/useLiveStreamWebSocket';
+import logger from '@/lib/logger';
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+
+enum SLATE_IMAGE {
+  THUMBNAIL = 'thumbnail',
+  CUSTOM = 'custom',
+}
+
+interface ComponentProps {
+  isOpen: boolean;
+  thumbnailUrl: string | null;
+  onConfirm: (options: PauseOptions) => void;
+  onClose: () => void;
+}
+
+const PauseSettings = (props: ComponentProps) => {
+  const { isOpen, thumbnailUrl, onConfirm, onClose } = props;
+
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [slateImage, setSlateImage] = useState(SLATE_IMAGE.THUMBNAIL);
+  const [thumbnailSrc, setThumbnailSrc] = useState<string | null>(null);
+  const [customImageSrc, setCustomImageSrc] = useState<string | null>(null);
+  const [isAudioMuted, setIsAudioMuted] = useState(true);
+
+  const imageUrl =
+    slateImage === SLATE_IMAGE.CUSTOM ? customImageSrc : thumbnailSrc;
+
+  const handleSlateImageChange = (value: string) => {
+    if (!value) return; // the selected item was clicked again
+
+    setSlateImage(value as SLATE_IMAGE);
+    if (value === SLATE_IMAGE.CUSTOM && !customImageSrc)
+      imageInputRef.current?.click();
+  };
+
+  const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setCustomImageSrc(URL.createObjectURL(file));
+    event.target.value = '';
+  };
+
+  const handleConfirm = () => onConfirm({ imageUrl, isAudioMuted });
+
+  // fetch authed thumbnail img, kept while the page is open since a slate
+  // may be drawing it
+  useEffect(() => {
+    if (!thumbnailUrl) return;
+
+    let blobUrl: string | null = null;
+    const fetchAuthThumbnail = async () => {
+      try {
+        blobUrl = await fetchImageWithAuth(thumbnailUrl);
+        setThumbnailSrc(blobUrl);
+      } catch (error) {
+        logger.warn('Slate thumbnail not loaded:', error);
+      }
+    };
+    fetchAuthThumbnail();
+
+    return () => {
+      if (blobUrl) URL.revokeObjectURL(blobUrl);
+    };
+  }, [thumbnailUrl]);
+
+  // a picked image lives until another one is picked
+  useEffect(() => {
+    return () => {
+      if (customImageSrc) URL.revokeObjectURL(customImageSrc);
+    };
+  }, [customImageSrc]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Be Right Back</DialogTitle>
+          <DialogDescription>
+            Viewers see a still slate until you resume. Your stream and chat
+            stay live.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label>Slate image</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={slateImage}
+              onValueChange={handleSlateImageChange}
+            >
+              <ToggleGroupItem value={SLATE_IMAGE.THUMBNAIL}>
+                Stream thumbnail
+              </ToggleGroupItem>
+              <ToggleGroupItem value={SLATE_IMAGE.CUSTOM}>
+                Custom image
+              </ToggleGroupItem>
+            </ToggleGroup>
+            {slateImage === SLATE_IMAGE.CUSTOM && (
+              <Button
+                variant="link"
+                size="sm"
+                className="self-start px-0"
+                onClick={() => imageInputRef.current?.click()}
+              >
+                {customImageSrc ? 'Change image' : 'Choose an image'}
+              </Button>
+            )}
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleImageChange}
+            />
+            {imageUrl && (
+              <img
+                src={imageUrl}
+                alt="Slate"
+                className="w-full aspect-video object-contain bg-black rounded-md"
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="pause-audio-muted"
+              checked={isAudioMuted}
+              onCheckedChange={setIsAudioMuted}
+            />
+            <Label htmlFor="pause-audio-muted">Mute audio while away</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm}>Pause Stream</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PauseSettings;
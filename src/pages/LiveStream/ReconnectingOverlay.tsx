@@ -0,0 +1,22 @@
+import { Loader2 } from 'lucide-react';
+
+interface ComponentProps {
+  source?: string; // what keeps capturing meanwhile
+}
+
+const ReconnectingOverlay = (props: ComponentProps) => {
+  const { source = 'camera' } = props;
+
+  return (
+    <div className="absolute top-0 left-0 w-full h-full flex flex-col items-center justify-center bg-black bg-opacity-50 z-10 text-white pointer-events-none">
+      <Loader2 className="w-8 h-8 animate-spin" />
+      <h2 className="text-lg font-bold mt-3">Reconnecting...</h2>
+      <p className="text-sm text-center">
+        Your {source} is still on, the stream resumes once the connection is
+        back.
+      </p>
+    </div>
+  );
+};
+
+export default ReconnectingOverlay;
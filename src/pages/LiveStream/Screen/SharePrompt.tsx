@@ -0,0 +1,38 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MonitorUp } from 'lucide-react';
+
+interface ComponentProps {
+  isSystemAudioShared: boolean;
+  onSystemAudioSharedChange: (isShared: boolean) => void;
+  onShare: () => void;
+}
+
+const SharePrompt = (props: ComponentProps) => {
+  const { isSystemAudioShared, onSystemAudioSharedChange, onShare } = props;
+
+  return (
+    <div className="absolute top-0 left-0 w-full h-full flex flex-col items-center justify-center bg-black z-[5] text-white p-4">
+      <MonitorUp className="w-10 h-10" />
+      <h2 className="text-2xl font-bold mb-4 mt-5">Share Your Screen</h2>
+      <p className="text-lg mb-6 text-center">
+        Pick a screen, window or tab to broadcast. Your microphone is added to
+        it.
+      </p>
+      <div className="flex items-center gap-2 mb-6">
+        <Switch
+          id="share-system-audio"
+          checked={isSystemAudioShared}
+          onCheckedChange={onSystemAudioSharedChange}
+        />
+        <Label htmlFor="share-system-audio">Share tab or system audio</Label>
+      </div>
+      <Button onClick={onShare} size="sm">
+        Choose what to share
+      </Button>
+    </div>
+  );
+};
+
+export default SharePrompt;
@@ -0,0 +1,93 @@
+import { useRef, useState } from 'react';
+import { NotifyModalType } from '@/components/UITypes';
+import { modalTexts } from '@/data/stream';
+import SharePrompt from './SharePrompt';
+import BroadcastStudio from '../BroadcastStudio';
+import { useBroadcast } from '@/hooks/useBroadcast';
+import { useScreenCapture } from '@/hooks/useScreenCapture';
+import { AUDIO_SOURCE } from '@/lib/audio-mixer';
+import { STREAM_TYPE } from '@/data/types/stream';
+
+const LiveStreamScreen = () => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const [isSystemAudioShared, setIsSystemAudioShared] = useState(true);
+
+  // the broadcast itself, the same upload as the webcam
+  const broadcast = useBroadcast({
+    type: STREAM_TYPE.SCREEN,
+    videoRef,
+    // set up below, the shared screen
+    getVideoTrack: () => getVideoTrack(),
+    scaleVideo: (height) => scaleVideo(height),
+    // pick what to share first, the stream starts with it. Sharing has to
+    // be picked again after a reload
+    prepareCapture: async () => isSharing || handleStartSharing(),
+    stopCapture: () => stopCapture(),
+  });
+  const { audioMixer } = broadcast;
+
+  // ending the share from the browser's own controls ends the broadcast
+  const handleShareEnded = () => {
+    if (!broadcast.isStreamStarted) return;
+
+    broadcast.endStream(
+      NotifyModalType.INFO,
+      modalTexts.stream.screenShareEnded
+    );
+  };
+
+  const {
+    isSharing,
+    isMicOn,
+    startCapture,
+    stopCapture,
+    toggleMic,
+    getVideoTrack,
+    scaleVideo,
+  } = useScreenCapture({
+    videoRef,
+    onEnded: handleShareEnded,
+    onAudioTracksChange: ({ mic, system }) =>
+      audioMixer.setSourceTracks({
+        [AUDIO_SOURCE.MIC]: mic,
+        [AUDIO_SOURCE.SYSTEM]: system,
+      }),
+  });
+
+  const handleStartSharing = () => startCapture(isSystemAudioShared);
+
+  return (
+    <BroadcastStudio
+      broadcast={broadcast}
+      isMicOn={isMicOn}
+      audioSources={[AUDIO_SOURCE.MIC, AUDIO_SOURCE.SYSTEM, AUDIO_SOURCE.MUSIC]}
+      isAudioLevelShown={isSharing}
+      reconnectingSource="screen share"
+      previewClassName="min-h-[50vh] bg-black"
+      preview={
+        <>
+          {!isSharing && (
+            <SharePrompt
+              isSystemAudioShared={isSystemAudioShared}
+              onSystemAudioSharedChange={setIsSystemAudioShared}
+              onShare={handleStartSharing}
+            />
+          )}
+          {/* video */}
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted // the shared tab would hear itself
+            draggable={false}
+            className="w-full h-full object-contain"
+          />
+        </>
+      }
+      onToggleMic={toggleMic}
+    />
+  );
+};
+
+export default LiveStreamScreen;
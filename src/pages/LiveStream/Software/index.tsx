@@ -10,7 +10,11 @@ import {
 import { Fragment, useCallback, useEffect, useState } from 'react';
 import DetailsForm, { getStreamCrendentials } from '../DetailsForm';
 import { useNavigate } from 'react-router-dom';
-import { LIVE_STREAM_PATH, WATCH_VIDEO_PATH } from '@/data/route';
+import {
+  LIVE_STREAM_PATH,
+  LIVE_STREAM_PATH_BY_TYPE,
+  WATCH_VIDEO_PATH,
+} from '@/data/route';
 import {
   NotificationModalProps,
   NotifyModal,
@@ -29,6 +33,16 @@ import StreamerAvatar from '@/components/StreamerAvatar';
 import Chat from '@/components/Chat';
 import { useIsMobile } from '@/hooks/useMobile';
 import { fetchCategories } from '@/services/category';
+import {
+  ActiveStream,
+  endLiveStream,
+  fetchActiveStream,
+} from '@/services/stream';
+import {
+  clearActiveStream,
+  saveActiveStream,
+  updateActiveStream,
+} from '@/data/model/activeStream';
 import { CategoryResponse } from '@/data/dto/category';
 import { cn, getObjectsByIds } from '@/lib/utils';
 import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
@@ -97,6 +111,8 @@ const LiveStreamSoftware = () => {
     onConfirm: () => {},
     onCancel: () => {},
   });
+  // a broadcast left running by a reload, until the streamer resumes or ends it
+  const [activeStream, setActiveStream] = useState<ActiveStream | null>(null);
 
   // stream websocket
   const {
@@ -113,7 +129,9 @@ const LiveStreamSoftware = () => {
   const {
     isChatVisible,
     isLiveEndEventReceived,
+    connectionState,
     liveInitialStats,
+    commentGaps,
     liveViewersCount,
     liveSharesCount,
     toggleChat,
@@ -159,7 +177,7 @@ const LiveStreamSoftware = () => {
         broadcast_url,
         category_ids,
       } = data;
-      setStreamDetails({
+      const details = {
         id,
         title,
         description,
@@ -168,15 +186,11 @@ const LiveStreamSoftware = () => {
         broadcast_url,
         category_ids,
         started_at: null,
-      });
-
-      const [streamServerValue, streamKeyValue] = getStreamCrendentials(
-        push_url || ''
-      );
-      if (streamServerValue) setStreamServer(streamServerValue);
-      if (streamKeyValue) setStreamKey(streamKeyValue);
+      };
+      applyStreamDetails(details);
 
       if (mode === FORM_MODE.CREATE) {
+        saveActiveStream(STREAM_TYPE.SOFTWARE, details);
         if (!isMobile) openChat();
 
         openNotifyModal(
@@ -186,13 +200,70 @@ const LiveStreamSoftware = () => {
         );
 
         startStream(data.id);
-      } else if (mode === FORM_MODE.EDIT)
+      } else if (mode === FORM_MODE.EDIT) {
+        updateActiveStream(details);
         openNotifyModal(
           NotifyModalType.SUCCESS,
           modalTexts.stream.successUpdate.title,
           modalTexts.stream.successUpdate.description
         );
+      }
+    }
+  };
+
+  const applyStreamDetails = (details: StreamDetailsResponse): void => {
+    setStreamDetails(details);
+
+    const [streamServerValue, streamKeyValue] = getStreamCrendentials(
+      details.push_url || ''
+    );
+    if (streamServerValue) setStreamServer(streamServerValue);
+    if (streamKeyValue) setStreamKey(streamKeyValue);
+  };
+
+  // reattach to the broadcast and go back to monitoring the software ingest
+  const handleResumeActiveStream = (): void => {
+    if (!activeStream?.details.id) return;
+
+    const { details, status } = activeStream;
+    setActiveStream(null);
+    applyStreamDetails(details);
+    if (!isMobile) openChat();
+
+    // the server only announces the start once, it may have happened already
+    if (status === CONTENT_STATUS.LIVE) {
+      setIsStreamStarted(true);
+      EventEmitter.emit(EVENT_EMITTER_NAME.LIVE_STREAM_START);
+    }
+
+    startStream(details.id!);
+  };
+
+  const handleEndActiveStream = async (): Promise<void> => {
+    if (!activeStream?.details.id) return;
+
+    const { details } = activeStream;
+    setActiveStream(null);
+
+    const isEnded = await endLiveStream(details.id!);
+    if (!isEnded) {
+      openNotifyModal(
+        NotifyModalType.ERROR,
+        modalTexts.stream.failedToEnd.title,
+        modalTexts.stream.failedToEnd.description,
+        () => setActiveStream(activeStream)
+      );
+      return;
     }
+
+    openNotifyModal(
+      NotifyModalType.SUCCESS,
+      modalTexts.stream.successEnd.title,
+      modalTexts.stream.successEnd.description,
+      () => {
+        navigate(WATCH_VIDEO_PATH.replace(':id', details.id!.toString()));
+      }
+    );
   };
 
   // cancel streaming.
@@ -304,12 +375,25 @@ const LiveStreamSoftware = () => {
     getCategories();
   }, []);
 
+  // offer to pick up a broadcast left running by a reload
+  useEffect(() => {
+    const checkActiveStream = async () => {
+      const data = await fetchActiveStream();
+      if (!data) return;
+
+      if (data.type === STREAM_TYPE.SOFTWARE) setActiveStream(data);
+      else navigate(LIVE_STREAM_PATH_BY_TYPE[data.type], { replace: true });
+    };
+    checkActiveStream();
+  }, [navigate]);
+
   // show modal alert when live ends
   useEffect(() => {
     if (
       streamDetails &&
       (isLiveEndEventReceived || isLiveEndEventReceivedSoftware)
     ) {
+      clearActiveStream();
       openNotifyModal(
         NotifyModalType.SUCCESS,
         isLiveEndEventReceived
@@ -599,6 +683,8 @@ const LiveStreamSoftware = () => {
                   onToggleVisibility={toggleChat}
                   onReactOnLive={sendReaction}
                   onCommentOnLive={sendComment}
+                  connectionState={connectionState}
+                  commentGaps={commentGaps}
                 />
               </div>
             )}
@@ -704,6 +790,15 @@ const LiveStreamSoftware = () => {
         onConfirm={confirmModal.onConfirm}
         onCancel={closeConfirmationModal}
       />
+      <ConfirmModal
+        isOpen={!!activeStream}
+        title={modalTexts.stream.inProgress.title}
+        description={modalTexts.stream.inProgress.description}
+        cancelBtnText="End Stream"
+        proceedBtnText="Resume"
+        onConfirm={handleResumeActiveStream}
+        onCancel={handleEndActiveStream}
+      />
     </div>
   );
 };
@@ -0,0 +1,52 @@
+import { Gauge } from 'lucide-react';
+import { UPLOAD_BUFFER_STATE, UploadHealth } from '@/lib/adaptive-bitrate';
+import { cn, formatFileSize } from '@/lib/utils';
+import TooltipComponent from '@/components/TooltipComponent';
+
+interface ComponentProps {
+  health: UploadHealth | null;
+}
+
+const BUFFER_STATE_LABELS = {
+  [UPLOAD_BUFFER_STATE.HEALTHY]: 'Upload is keeping up',
+  [UPLOAD_BUFFER_STATE.BUFFERING]: 'Upload is buffering',
+  [UPLOAD_BUFFER_STATE.CONGESTED]: 'Upload is congested, lowering quality',
+};
+
+const formatBitrate = (bitsPerSecond: number): string =>
+  bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+// current upload quality and socket buffer, for the streamer only
+const UploadHealthIndicator = ({ health }: ComponentProps) => {
+  if (!health) return null;
+
+  const { level, bufferedAmount, bufferState } = health;
+
+  return (
+    <TooltipComponent
+      text={`${BUFFER_STATE_LABELS[bufferState]} (${formatFileSize(bufferedAmount)} queued)`}
+    >
+      <div className="flex items-center space-x-2 bg-white/70 backdrop-blur-md rounded-sm px-2 py-1 text-sm text-gray-800 shadow-md">
+        <span
+          className={cn(
+            'w-2 h-2 rounded-full',
+            bufferState === UPLOAD_BUFFER_STATE.HEALTHY && 'bg-green-500',
+            bufferState === UPLOAD_BUFFER_STATE.BUFFERING && 'bg-yellow-500',
+            bufferState === UPLOAD_BUFFER_STATE.CONGESTED && 'bg-red-500'
+          )}
+        />
+        <Gauge className="w-3 h-3" />
+        <span className="font-medium text-xs">
+          {level.height}p{' '}
+          <span className="hidden md:inline">
+            · {formatBitrate(level.videoBitsPerSecond)}
+          </span>
+        </span>
+      </div>
+    </TooltipComponent>
+  );
+};
+
+export default UploadHealthIndicator;
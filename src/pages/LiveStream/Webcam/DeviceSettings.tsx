@@ -0,0 +1,130 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MediaDeviceSelection } from '@/hooks/useMediaDevices';
+import { MediaInputDevices, VIDEO_PRESET } from '@/lib/media-devices';
+
+// not `default`, some browsers list a device under that id
+const DEFAULT_DEVICE = 'browser-default';
+
+const VIDEO_PRESET_LABELS = {
+  [VIDEO_PRESET.HD_60]: '720p, 60 fps',
+  [VIDEO_PRESET.HD_30]: '720p, 30 fps',
+  [VIDEO_PRESET.SD_30]: '480p, 30 fps',
+  [VIDEO_PRESET.LOW_30]: '360p, 30 fps',
+};
+
+interface ComponentProps {
+  isOpen: boolean;
+  devices: MediaInputDevices;
+  selection: MediaDeviceSelection;
+  onVideoDeviceChange: (deviceId: string) => void;
+  onAudioDeviceChange: (deviceId: string) => void;
+  onVideoPresetChange: (preset: VIDEO_PRESET) => void;
+  onClose: () => void;
+}
+
+const DeviceSelect = ({
+  label,
+  value,
+  devices,
+  onChange,
+}: {
+  label: string;
+  value: string | null;
+  devices: MediaDeviceInfo[];
+  onChange: (deviceId: string) => void;
+}) => (
+  <div className="flex flex-col gap-2">
+    <Label>{label}</Label>
+    <Select value={value || DEFAULT_DEVICE} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {/* the browser's pick, until one is chosen */}
+        {!value && <SelectItem value={DEFAULT_DEVICE}>Default</SelectItem>}
+        {devices
+          .filter(({ deviceId }) => deviceId)
+          .map(({ deviceId, label: deviceLabel }, index) => (
+            <SelectItem key={deviceId} value={deviceId}>
+              {deviceLabel || `${label} ${index + 1}`}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const DeviceSettings = (props: ComponentProps) => {
+  const {
+    isOpen,
+    devices,
+    selection,
+    onVideoDeviceChange,
+    onAudioDeviceChange,
+    onVideoPresetChange,
+    onClose,
+  } = props;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Camera & Microphone</DialogTitle>
+          <DialogDescription>
+            Changes apply right away, even while you're live.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4">
+          <DeviceSelect
+            label="Camera"
+            value={selection.videoDeviceId}
+            devices={devices.videoInputs}
+            onChange={onVideoDeviceChange}
+          />
+          <DeviceSelect
+            label="Microphone"
+            value={selection.audioDeviceId}
+            devices={devices.audioInputs}
+            onChange={onAudioDeviceChange}
+          />
+          <div className="flex flex-col gap-2">
+            <Label>Video quality</Label>
+            <Select
+              value={selection.videoPreset}
+              onValueChange={(value) =>
+                onVideoPresetChange(value as VIDEO_PRESET)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(VIDEO_PRESET).map((preset) => (
+                  <SelectItem key={preset} value={preset}>
+                    {VIDEO_PRESET_LABELS[preset]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeviceSettings;
@@ -0,0 +1,211 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SceneLayerChanges } from '@/hooks/useSceneCompositor';
+import {
+  LAYER_PLACEMENT,
+  SCENE_LAYER_TYPE,
+  SceneLayer,
+} from '@/lib/scene-compositor';
+import {
+  ArrowDown,
+  ArrowUp,
+  Clock,
+  Eye,
+  EyeOff,
+  ImagePlus,
+  MonitorUp,
+  Trash2,
+  Type,
+} from 'lucide-react';
+import { ChangeEvent, useRef } from 'react';
+
+const LAYER_PLACEMENT_LABELS = {
+  [LAYER_PLACEMENT.FULL]: 'Full frame',
+  [LAYER_PLACEMENT.TOP_LEFT]: 'Top left',
+  [LAYER_PLACEMENT.TOP_RIGHT]: 'Top right',
+  [LAYER_PLACEMENT.BOTTOM_LEFT]: 'Bottom left',
+  [LAYER_PLACEMENT.BOTTOM_RIGHT]: 'Bottom right',
+  [LAYER_PLACEMENT.LOWER_THIRD]: 'Lower third',
+};
+
+interface ComponentProps {
+  isOpen: boolean;
+  layers: SceneLayer[];
+  onAddScreen: () => void;
+  onAddImage: (file: File) => void;
+  onAddText: () => void;
+  onAddClock: () => void;
+  onUpdateLayer: (id: string, changes: SceneLayerChanges) => void;
+  onMoveLayer: (id: string, direction: 'up' | 'down') => void;
+  onRemoveLayer: (id: string) => void;
+  onClose: () => void;
+}
+
+const ScenePanel = (props: ComponentProps) => {
+  const {
+    isOpen,
+    layers,
+    onAddScreen,
+    onAddImage,
+    onAddText,
+    onAddClock,
+    onUpdateLayer,
+    onMoveLayer,
+    onRemoveLayer,
+    onClose,
+  } = props;
+
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onAddImage(file);
+    event.target.value = ''; // the same file can be added again
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Scene</DialogTitle>
+          <DialogDescription>
+            Layers on top cover the ones below. Changes apply right away, even
+            while you're live.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={onAddScreen}>
+            <MonitorUp /> Screen
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => imageInputRef.current?.click()}
+          >
+            <ImagePlus /> Image
+          </Button>
+          <Button variant="outline" size="sm" onClick={onAddText}>
+            <Type /> Lower third
+          </Button>
+          <Button variant="outline" size="sm" onClick={onAddClock}>
+            <Clock /> Clock
+          </Button>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleImageChange}
+          />
+        </div>
+        {/* top layer first */}
+        <div className="flex flex-col gap-3 max-h-[50vh] overflow-y-auto">
+          {[...layers].reverse().map((layer, index) => (
+            <div
+              key={layer.id}
+              className="flex flex-col gap-2 border rounded-md p-3"
+            >
+              <div className="flex items-center gap-1">
+                <p className="flex-1 text-sm font-medium truncate">
+                  {layer.name}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  onClick={() =>
+                    onUpdateLayer(layer.id, { isVisible: !layer.isVisible })
+                  }
+                >
+                  {layer.isVisible ? <Eye /> : <EyeOff />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  disabled={index === 0}
+                  onClick={() => onMoveLayer(layer.id, 'up')}
+                >
+                  <ArrowUp />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  disabled={index === layers.length - 1}
+                  onClick={() => onMoveLayer(layer.id, 'down')}
+                >
+                  <ArrowDown />
+                </Button>
+                {/* the camera stays, hide it instead */}
+                {layer.type !== SCENE_LAYER_TYPE.CAMERA && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="px-2"
+                    onClick={() => onRemoveLayer(layer.id)}
+                  >
+                    <Trash2 />
+                  </Button>
+                )}
+              </div>
+              <Select
+                value={layer.placement}
+                onValueChange={(value) =>
+                  onUpdateLayer(layer.id, {
+                    placement: value as LAYER_PLACEMENT,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(LAYER_PLACEMENT).map((placement) => (
+                    <SelectItem key={placement} value={placement}>
+                      {LAYER_PLACEMENT_LABELS[placement]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {layer.type === SCENE_LAYER_TYPE.TEXT && (
+                <>
+                  <Input
+                    placeholder="Title"
+                    value={layer.title}
+                    onChange={(event) =>
+                      onUpdateLayer(layer.id, { title: event.target.value })
+                    }
+                  />
+                  <Input
+                    placeholder="Subtitle"
+                    value={layer.subtitle}
+                    onChange={(event) =>
+                      onUpdateLayer(layer.id, { subtitle: event.target.value })
+                    }
+                  />
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScenePanel;
@@ -7,12 +7,13 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import {
+  LIVE_STREAM_SCREEN_PATH,
   LIVE_STREAM_SOFTWARE_PATH,
   LIVE_STREAM_WEBCAM_PATH,
 } from '@/data/route';
 import LayoutHeading from '@/layouts/LayoutHeading';
 import { useNavigate } from 'react-router-dom';
-import { Blocks, Camera, LucideIcon, MoveRight } from 'lucide-react';
+import { Blocks, Camera, LucideIcon, MonitorUp, MoveRight } from 'lucide-react';
 
 const title = 'Live Stream';
 
@@ -29,6 +30,13 @@ const streamOptions: {
     Icon: Camera,
     funcKey: 'handleGoLiveWebcam',
   },
+  {
+    title: 'Screen Share',
+    description:
+      'Share your screen, a window or a tab with your voice, great for tutorials and walkthroughs.',
+    Icon: MonitorUp,
+    funcKey: 'handleGoLiveScreen',
+  },
   {
     title: 'Streaming Software',
     description:
@@ -43,10 +51,12 @@ const LiveStream = () => {
 
   const handleGoLiveWebcam = () => navigate(LIVE_STREAM_WEBCAM_PATH);
   const handleGoLiveSoftware = () => navigate(LIVE_STREAM_SOFTWARE_PATH);
+  const handleGoLiveScreen = () => navigate(LIVE_STREAM_SCREEN_PATH);
 
   const funcMap: Record<string, () => void> = {
     handleGoLiveWebcam,
     handleGoLiveSoftware,
+    handleGoLiveScreen,
   };
 
   const data = streamOptions.map((option) => ({
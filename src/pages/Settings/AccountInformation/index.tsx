@@ -22,6 +22,9 @@ import useUserAccount from '@/hooks/useUserAccount';
 import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
 import { updateUserProfileInfo, UserInfoUpdateError } from '@/services/user';
 import { useEffect, useState } from 'react';
+import UploadProgress from '@/components/UploadProgress';
+import { useUploadProgress } from '@/hooks/useUploadProgress';
+import { toast } from 'sonner';
 
 const validationRules = {
   displayName: 'Required, max 50 characters.',
@@ -37,6 +40,8 @@ type UserInfoUpdateFormError = {
 
 const AccountInformation = () => {
   const currentUser = useUserAccount();
+  const { progress, startUpload, finishUpload, cancelUpload } =
+    useUploadProgress();
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [displayName, setDisplayName] = useState<string>('');
@@ -112,13 +117,20 @@ const AccountInformation = () => {
     event.preventDefault();
 
     setIsLoading(true);
-    const { data, errors: _errors } = await updateUserProfileInfo({
-      displayName,
-      avatarFile: avatarImage.file || null,
-      avatarPreview: avatarImage.preview || null,
-    });
+    const uploadOptions = startUpload();
+    const { data, errors: _errors } = await updateUserProfileInfo(
+      {
+        displayName,
+        avatarFile: avatarImage.file || null,
+        avatarPreview: avatarImage.preview || null,
+      },
+      uploadOptions
+    );
+    finishUpload();
 
-    if (!!data && !_errors) {
+    if (uploadOptions.signal?.aborted) {
+      toast.info('Upload cancelled.');
+    } else if (!!data && !_errors) {
       // set ui according to response
       setDisplayName(data?.display_name);
 
@@ -336,6 +348,12 @@ const AccountInformation = () => {
               </div>
             </div>
 
+            {progress && (
+              <div className="lg:w-1/2">
+                <UploadProgress progress={progress} onCancel={cancelUpload} />
+              </div>
+            )}
+
             {/* Submit Button */}
             <div className="flex gap-2 mt-4">
               <Button type="submit" disabled={isLoading}>
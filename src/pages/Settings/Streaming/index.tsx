@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  getStreamSettings,
+  RECORDER_PREFERENCE,
+  RECOVERY_GRACE_PERIODS,
+  saveStreamSettings,
+} from '@/data/model/streamSettings';
+import { pickRecorderFormat } from '@/lib/recorder-format';
+
+const Content = {
+  recorder: {
+    title: 'Webcam recording format',
+    description:
+      'Used when you go live from the browser. Quality picks the most efficient codec your browser supports, compatibility picks the one every stream server accepts.',
+  },
+  recovery: {
+    title: 'Reconnect window',
+    description:
+      'How long a webcam stream keeps trying to reconnect after the connection drops before it ends.',
+  },
+};
+
+const formatGracePeriod = (seconds: number) =>
+  seconds < 60 ? `${seconds} sec` : `${seconds / 60} min`;
+
+const RECORDER_PREFERENCE_LABELS = {
+  [RECORDER_PREFERENCE.QUALITY]: 'Prefer quality',
+  [RECORDER_PREFERENCE.COMPATIBILITY]: 'Prefer compatibility',
+};
+
+const Streaming = () => {
+  const [recorderPreference, setRecorderPreference] = useState(
+    () => getStreamSettings().recorderPreference
+  );
+  const [recoveryGracePeriod, setRecoveryGracePeriod] = useState(
+    () => getStreamSettings().recoveryGracePeriod
+  );
+  const recorderFormat = pickRecorderFormat(recorderPreference);
+
+  const handleRecorderPreferenceChange = (value: string) => {
+    if (!value) return; // the selected item was clicked again
+
+    const { recorderPreference } = saveStreamSettings({
+      recorderPreference: value as RECORDER_PREFERENCE,
+    });
+    setRecorderPreference(recorderPreference);
+    toast.success('Streaming settings saved!');
+  };
+
+  const handleRecoveryGracePeriodChange = (value: string) => {
+    if (!value) return;
+
+    const { recoveryGracePeriod } = saveStreamSettings({
+      recoveryGracePeriod: Number(value),
+    });
+    setRecoveryGracePeriod(recoveryGracePeriod);
+    toast.success('Streaming settings saved!');
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <Label className="text-base">{Content.recorder.title}</Label>
+        <p className="text-sm text-muted-foreground">
+          {Content.recorder.description}
+        </p>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          className="justify-start"
+          value={recorderPreference}
+          onValueChange={handleRecorderPreferenceChange}
+        >
+          {Object.values(RECORDER_PREFERENCE).map((preference) => (
+            <ToggleGroupItem key={preference} value={preference}>
+              {RECORDER_PREFERENCE_LABELS[preference]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">
+          {recorderFormat
+            ? `This browser will record ${recorderFormat.videoCodec.toUpperCase()} in ${recorderFormat.container.toUpperCase()}.`
+            : "This browser can't record a supported format."}
+        </p>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-base">{Content.recovery.title}</Label>
+        <p className="text-sm text-muted-foreground">
+          {Content.recovery.description}
+        </p>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          className="justify-start"
+          value={String(recoveryGracePeriod)}
+          onValueChange={handleRecoveryGracePeriodChange}
+        >
+          {RECOVERY_GRACE_PERIODS.map((seconds) => (
+            <ToggleGroupItem key={seconds} value={String(seconds)}>
+              {formatGracePeriod(seconds)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    </div>
+  );
+};
+
+export default Streaming;
@@ -3,14 +3,16 @@ import LayoutHeading from '@/layouts/LayoutHeading';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import AccountInformation from './AccountInformation';
 import Security from './Security';
+import Streaming from './Streaming';
 import { useEffect, useState } from 'react';
-import { ShieldCheck, UserRound } from 'lucide-react';
+import { ShieldCheck, UserRound, Video } from 'lucide-react';
 
 const title = 'Settings';
 
 enum SETTINGS_TABS {
   ACCOUNT_INFO = 'account-info',
   SECURITY = 'security',
+  STREAMING = 'streaming',
 }
 
 const tabs: SettingsTabs[] = [
@@ -26,6 +28,12 @@ const tabs: SettingsTabs[] = [
     value: SETTINGS_TABS.SECURITY,
     Page: <Security />,
   },
+  {
+    label: 'Streaming',
+    Icon: Video,
+    value: SETTINGS_TABS.STREAMING,
+    Page: <Streaming />,
+  },
 ];
 
 const Settings = () => {
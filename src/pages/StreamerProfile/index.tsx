@@ -6,7 +6,7 @@ import InlineLoading from '@/components/InlineLoading';
 import NotFoundCentered from '@/components/NotFoundCentered';
 import { getLoggedInUserInfo } from '@/data/model/userAccount';
 import { USER_ROLE } from '@/data/types/role';
-import { DATA_API_LIMIT, DEFAULT_PAGE } from '@/data/validations';
+import { DATA_API_LIMIT } from '@/data/validations';
 import useStreamerDetails from '@/hooks/useStreamerDetails';
 import useVideosList from '@/hooks/useVideosList';
 import LayoutHeading from '@/layouts/LayoutHeading';
@@ -15,7 +15,11 @@ import {
   getCorrectUnit,
   KMBformatter,
 } from '@/lib/utils';
-import { bookmarkVideo, subscribeUnsubscribe } from '@/services/stream';
+import {
+  bookmarkVideo,
+  subscribeUnsubscribe,
+  unBookmarkVideo,
+} from '@/services/stream';
 import { toggleMuteNotificationsFromChannel } from '@/services/subscription';
 import {
   BellOff,
@@ -26,7 +30,7 @@ import {
   ThumbsUp,
   VideoOff,
 } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { toast } from 'sonner';
 import NotFound from '../NotFound';
@@ -35,6 +39,7 @@ import VideoList from '../Feed/VideoList';
 import { debounce } from 'lodash';
 import { useScreenSize } from '@/hooks/useScreenSize';
 import { StreamsResponse } from '@/data/dto/stream';
+import { PENDING_SYNC_DESCRIPTION } from '@/data/types/outbox';
 
 const StreamerProfile = () => {
   const screenSize = useScreenSize();
@@ -43,52 +48,41 @@ const StreamerProfile = () => {
 
   const { id: streamerId } = useParams<{ id: string }>();
 
-  const [currentPage, setCurrentPage] = useState(DEFAULT_PAGE);
-
   const {
     data: streamerDetails,
     subscribedCount,
     isSubscribed,
     isNotiMuted,
     isLoading: isStreamerDetailsFetching,
-    setSubscribedCount,
-    setIsSubscribed,
-    setIsNotiMuted,
   } = useStreamerDetails(streamerId || null);
   const {
     videos,
     hasMore,
     isLoading,
     error: isFetchingError,
+    fetchNextPage,
     refetchVideos,
-    setVideos,
   } = useVideosList({
-    page: currentPage,
     limit: DATA_API_LIMIT[screenSize],
     streamer_id: Number(streamerId),
   });
 
   const handleSubscribeUnsubscribe = async () => {
     if (streamerDetails && streamerDetails?.id) {
-      const isSuccess = await subscribeUnsubscribe(streamerDetails?.id);
-      if (isSuccess) {
-        if (isSubscribed) {
-          setSubscribedCount((prev) => prev - 1);
-          toast.success(`Subscription Removed!`);
-        } else {
-          setSubscribedCount((prev) => prev + 1);
-          toast.success(`Subscription Added!`);
-        }
-
-        setIsSubscribed(!isSubscribed);
+      const { success, pending } = await subscribeUnsubscribe(
+        streamerDetails?.id
+      );
+      if (success) {
+        const description = pending ? PENDING_SYNC_DESCRIPTION : undefined;
+        if (isSubscribed)
+          toast.success(`Subscription Removed!`, { description });
+        else toast.success(`Subscription Added!`, { description });
       }
     }
   };
 
   const handleToggleMuteNotifications = async () => {
-    const oldData = isNotiMuted;
-    const newData = !oldData;
-    setIsNotiMuted(newData);
+    const newData = !isNotiMuted;
 
     try {
       const isSuccess = await toggleMuteNotificationsFromChannel({
@@ -98,15 +92,15 @@ const StreamerProfile = () => {
 
       if (isSuccess?.success) {
         const action = newData ? 'muted' : 'turned on';
-        toast.success(`Notification ${action}!`);
+        toast.success(`Notification ${action}!`, {
+          description: isSuccess.pending ? PENDING_SYNC_DESCRIPTION : undefined,
+        });
       } else {
-        setIsNotiMuted(oldData);
         toast.error(
           `Failed to ${newData ? 'mute' : 'turn on'} the notification.`
         );
       }
     } catch {
-      setIsNotiMuted(oldData);
       toast.error(
         `An error occurred while ${
           newData ? 'muting' : 'unmuting'
@@ -117,18 +111,11 @@ const StreamerProfile = () => {
 
   const handleBookmarkVideo = async (video: StreamsResponse) => {
     if (video && video.id) {
-      const previousVideos = [...videos];
-
-      setVideos((prev) =>
-        prev.map((v) =>
-          v.id === video.id ? { ...v, is_saved: !v.is_saved } : v
-        )
-      );
-
-      const isSuccess = await bookmarkVideo(video.id);
+      const { success } = video.is_saved
+        ? await unBookmarkVideo(video.id)
+        : await bookmarkVideo(video.id);
 
-      if (!isSuccess) {
-        setVideos(previousVideos);
+      if (!success) {
         toast.error('Error saving to Bookmark videos');
       } else {
         const message = video.is_saved
@@ -146,7 +133,7 @@ const StreamerProfile = () => {
 
     const bottom = scrollTop + clientHeight + 10 >= scrollHeight; // 10 tolerence
 
-    if (bottom && hasMore && !isLoading) setCurrentPage((prev) => prev + 1);
+    if (bottom && hasMore && !isLoading) fetchNextPage();
   }, 500);
 
   useEffect(() => {
@@ -18,6 +18,7 @@ import ApiFetchingError from '@/components/ApiFetchingError';
 import { toggleMuteNotificationsFromChannel } from '@/services/subscription';
 import { RESOURCE_ID, STREAMER_PROFILE_PATH } from '@/data/route';
 import { useNavigate } from 'react-router-dom';
+import { PENDING_SYNC_DESCRIPTION } from '@/data/types/outbox';
 
 const title = 'Subscriptions';
 
@@ -41,15 +42,18 @@ const Subscriptions = () => {
     totalItems,
     isLoading,
     error: isFetchingError,
-    setSubscriptions,
-    setTotalItems,
     refetchSubscriptions,
+    removeSubscription,
+    updateSubscription,
   } = useSubscriptions({
     isInfiniteList: false,
     page: currentPage,
     limit: DEFAULT_PAGE_SIZE,
   });
 
+  const getSubscriptionId = (streamerId: number) =>
+    subscriptions.find((sub) => sub.streamer_id === streamerId)?.id;
+
   const handleUnsubscribe = async (streamerId: number) => {
     openConfirmModal(
       modalTexts.unsubscribe.confirm.title,
@@ -60,14 +64,13 @@ const Subscriptions = () => {
     );
   };
   const handleUnsubscribeConfirmed = async (streamerId: number) => {
-    const isSuccess = await subscribeUnsubscribe(streamerId);
-    if (isSuccess) {
-      setSubscriptions((prev) => {
-        const oldPrev = prev;
-        return oldPrev.filter((d) => d.streamer_id !== streamerId);
+    const { success, pending } = await subscribeUnsubscribe(streamerId);
+    if (success) {
+      const subscriptionId = getSubscriptionId(streamerId);
+      if (subscriptionId) removeSubscription(subscriptionId);
+      toast.success('Subscription Removed!', {
+        description: pending ? PENDING_SYNC_DESCRIPTION : undefined,
       });
-      setTotalItems((prev) => prev - 1);
-      toast.success('Subscription Removed!');
     }
   };
 
@@ -75,13 +78,11 @@ const Subscriptions = () => {
     streamerId: number,
     isMute: boolean
   ) => {
-    const oldData = isMute;
-    const newData = !oldData;
-    setSubscriptions((prev) =>
-      prev.map((sub) =>
-        sub.streamer_id === streamerId ? { ...sub, is_mute: newData } : sub
-      )
-    );
+    const newData = !isMute;
+    const subscriptionId = getSubscriptionId(streamerId);
+    const rollback = subscriptionId
+      ? updateSubscription(subscriptionId, { is_mute: newData })
+      : () => {};
 
     try {
       const isSuccess = await toggleMuteNotificationsFromChannel({
@@ -91,23 +92,17 @@ const Subscriptions = () => {
 
       if (isSuccess?.success) {
         const action = newData ? 'muted' : 'turned on';
-        toast.success(`Notification ${action}!`);
+        toast.success(`Notification ${action}!`, {
+          description: isSuccess.pending ? PENDING_SYNC_DESCRIPTION : undefined,
+        });
       } else {
-        setSubscriptions((prev) =>
-          prev.map((sub) =>
-            sub.streamer_id === streamerId ? { ...sub, is_mute: oldData } : sub
-          )
-        );
+        rollback();
         toast.error(
           `Failed to ${newData ? 'mute' : 'turn on'} the notification.`
         );
       }
     } catch {
-      setSubscriptions((prev) =>
-        prev.map((sub) =>
-          sub.streamer_id === streamerId ? { ...sub, is_mute: oldData } : sub
-        )
-      );
+      rollback();
       toast.error(
         `An error occurred while ${
           newData ? 'muting' : 'unmuting'
@@ -1,6 +1,7 @@
 import useVideoDetails from '@/hooks/useVideoDetails';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import LiveIndicator from '../LiveStream/LiveIndicator';
+import PauseIndicator from '../LiveStream/PauseIndicator';
 import {
   Popover,
   PopoverContent,
@@ -56,6 +57,7 @@ import AppButton from '@/components/AppButton';
 import { useCopyToClipboard } from '@/hooks/useCopyToClipboard';
 import DefaultThumbnail from '@/assets/images/video-thumbnail.jpg';
 import SubscribeButton from '@/components/SubscribeButton';
+import { PENDING_SYNC_DESCRIPTION } from '@/data/types/outbox';
 
 const WatchLive = () => {
   const isMobile = useIsMobile();
@@ -98,7 +100,10 @@ const WatchLive = () => {
     isChatVisible,
     // isStreamStarted,
     isLiveEndEventReceived,
+    isLivePaused,
+    connectionState,
     liveInitialStats,
+    commentGaps,
     liveViewersCount,
     liveSharesCount,
     setIsChatVisible,
@@ -140,7 +145,9 @@ const WatchLive = () => {
 
       if (isSuccess?.success) {
         const action = newData ? 'muted' : 'turned on';
-        toast.success(`Notification ${action}!`);
+        toast.success(`Notification ${action}!`, {
+          description: isSuccess.pending ? PENDING_SYNC_DESCRIPTION : undefined,
+        });
       } else {
         setIsNotiMuted(oldData);
         toast.error(
@@ -293,7 +300,7 @@ const WatchLive = () => {
             <div className='flex-1 flex items-center justify-center border rounded-md overflow-hidden relative'>
               {/* Live indicators */}
               {isStreamStarted && (
-                <div className='absolute top-3 left-3 z-20'>
+                <div className='absolute top-3 left-3 z-20 flex flex-wrap gap-2'>
                   <LiveIndicator
                     isStreamStarted
                     startedAt={videoDetails?.started_at}
@@ -310,6 +317,7 @@ const WatchLive = () => {
                     viewerCount={liveViewersCount || videoDetails?.views || 0}
                     sharedCount={liveSharesCount || videoDetails?.shares || 0}
                   />
+                  <PauseIndicator isPaused={isLivePaused} />
                 </div>
               )}
               {/* video */}
@@ -346,6 +354,8 @@ const WatchLive = () => {
                   onToggleVisibility={toggleChat}
                   onReactOnLive={sendReaction}
                   onCommentOnLive={sendComment}
+                  connectionState={connectionState}
+                  commentGaps={commentGaps}
                 />
               </div>
             )}
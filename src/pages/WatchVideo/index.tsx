@@ -46,6 +46,8 @@ import { API_ERROR } from '@/data/api';
 import { toggleMuteNotificationsFromChannel } from '@/services/subscription';
 import { useCopyToClipboard } from '@/hooks/useCopyToClipboard';
 import SubscribeButton from '@/components/SubscribeButton';
+import { useStreamerEntity, useVideoEntity } from '@/hooks/useEntities';
+import { PENDING_SYNC_DESCRIPTION } from '@/data/types/outbox';
 
 const WatchVideo = () => {
   const navigate = useNavigate();
@@ -71,38 +73,27 @@ const WatchVideo = () => {
     height: number;
   } | null>(null);
 
-  // subscription
-  const [isSubscribed, setIsSubscribed] = useState(false);
-  const [isNotiMuted, setIsNotiMuted] = useState(true);
-  const [isSaved, setIsSaved] = useState(false);
-  const [sharedCount, setSharedCount] = useState(0);
-  const [subscribedCount, setSubscribedCount] = useState(0);
-  // view
-  const [viewsCount, setViewsCount] = useState(0);
-  // reaction
-  const [currentReactionType, setCurrentReactionType] =
-    useState<Reaction | null>(null);
-  const [reactionStats, setReactionStats] = useState<ReactionStats>({});
+  // bookmark, reaction, view and subscription state shared with other pages
+  const video = useVideoEntity(videoDetails?.id);
+  const streamer = useStreamerEntity(videoDetails?.user_id);
+
+  const isSubscribed = streamer?.is_subscribed ?? false;
+  const isNotiMuted = streamer?.is_mute ?? true;
+  const subscribedCount = streamer?.subscriptions ?? 0;
+  const isSaved = video?.is_saved ?? false;
+  const sharedCount = video?.shares ?? 0;
+  const viewsCount = video?.views ?? 0;
+  const currentReactionType = video?.current_like_type ?? null;
+  const reactionStats: ReactionStats = video?.like_stats ?? {};
 
   const handleSubscribeUnsubscribe = async () => {
     if (videoDetails && videoDetails?.user_id) {
-      const isSuccess = await subscribeUnsubscribe(videoDetails?.user_id);
-      if (isSuccess) {
-        if (isSubscribed) {
-          setSubscribedCount((prev) => prev - 1);
-        } else {
-          setSubscribedCount((prev) => prev + 1);
-        }
-
-        setIsSubscribed(!isSubscribed);
-      }
+      await subscribeUnsubscribe(videoDetails?.user_id);
     }
   };
 
   const handleToggleMuteNotifications = async () => {
-    const oldData = isNotiMuted;
-    const newData = !oldData;
-    setIsNotiMuted(newData);
+    const newData = !isNotiMuted;
 
     try {
       const isSuccess = await toggleMuteNotificationsFromChannel({
@@ -112,15 +103,15 @@ const WatchVideo = () => {
 
       if (isSuccess?.success) {
         const action = newData ? 'muted' : 'turned on';
-        toast.success(`Notification ${action}!`);
+        toast.success(`Notification ${action}!`, {
+          description: isSuccess.pending ? PENDING_SYNC_DESCRIPTION : undefined,
+        });
       } else {
-        setIsNotiMuted(oldData);
         toast.error(
           `Failed to ${newData ? 'mute' : 'turn on'} the notification.`
         );
       }
     } catch {
-      setIsNotiMuted(oldData);
       toast.error(
         `An error occurred while ${
           newData ? 'muting' : 'unmuting'
@@ -131,46 +122,29 @@ const WatchVideo = () => {
 
   const handleReactOnVideo = async ({ reaction }: { reaction: Reaction }) => {
     if (videoDetails) {
-      const data = await reactOnVideo({
+      await reactOnVideo({
         videoId: videoDetails?.id,
         likeStatus: currentReactionType !== reaction,
         likeType: reaction,
       });
-      if (data) {
-        setReactionStats(data);
-        if (currentReactionType === reaction) setCurrentReactionType(null);
-        else setCurrentReactionType(reaction);
-      }
     }
   };
 
   const handleBookmarkVideo = async () => {
     if (videoDetails && videoDetails?.id) {
       if (!isSaved) {
-        setIsSaved(true);
-
-        const isSuccess = await bookmarkVideo(videoDetails?.id);
-        if (!isSuccess) {
-          setIsSaved(false);
-          toast.error('Error saving to Bookmark videos');
-        }
-      } else if (isSaved) {
-        setIsSaved(false);
-        const isSuccess = await unBookmarkVideo(videoDetails?.id);
-        if (!isSuccess) {
-          setIsSaved(true);
-          toast.error('Error removing from Bookmark videos');
-        }
+        const { success } = await bookmarkVideo(videoDetails?.id);
+        if (!success) toast.error('Error saving to Bookmark videos');
+      } else {
+        const { success } = await unBookmarkVideo(videoDetails?.id);
+        if (!success) toast.error('Error removing from Bookmark videos');
       }
     }
   };
 
   const handleShare = async () => {
     if (videoDetails && videoDetails?.id) {
-      const data = await addShare(videoDetails?.id);
-      if (data?.is_added) {
-        setSharedCount((prev) => prev + 1);
-      }
+      await addShare(videoDetails?.id);
       copy(
         window.location.origin +
           getFEUrl(WATCH_VIDEO_PATH, videoDetails.id.toString())
@@ -248,33 +222,11 @@ const WatchVideo = () => {
     };
   }, [videoDetails]);
 
-  // update subscribe button, views count, current reaction type
-  useEffect(() => {
-    if (videoDetails) {
-      setIsSaved(videoDetails?.is_saved);
-      setIsSubscribed(videoDetails?.is_subscribed);
-      if (videoDetails && typeof videoDetails?.is_mute !== 'undefined')
-        setIsNotiMuted(videoDetails?.is_mute);
-      setSubscribedCount(videoDetails?.subscriptions);
-      setSharedCount(videoDetails?.shares);
-
-      setViewsCount(videoDetails?.views);
-
-      if (videoDetails?.current_like_type)
-        setCurrentReactionType(videoDetails.current_like_type as Reaction);
-
-      setReactionStats(videoDetails.likes);
-    }
-  }, [videoDetails]);
-
   // add view count, fetch thumbnail img after few seconds
   useEffect(() => {
     const addViewAfterDelay = async () => {
       if (videoDetails && videoDetails?.id && !isFetching) {
-        const data = await addView(videoDetails?.id);
-        if (data?.is_added) {
-          setViewsCount((prev) => prev + 1);
-        }
+        await addView(videoDetails?.id);
       }
     };
 
@@ -3,26 +3,24 @@ import EndOfResults from '@/components/EndOfResults';
 import InlineLoading from '@/components/InlineLoading';
 import NotFoundCentered from '@/components/NotFoundCentered';
 import VideoItem from '@/components/VideoItem';
-import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from '@/data/validations';
+import { DEFAULT_PAGE_SIZE } from '@/data/validations';
 import useVideosList from '@/hooks/useVideosList';
 import LayoutHeading from '@/layouts/LayoutHeading';
 import { VideoOff } from 'lucide-react';
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useRef } from 'react';
 
 const title = 'Watch History';
 
 const WatchedHistory = () => {
-  const [currentPage, setCurrentPage] = useState(DEFAULT_PAGE);
-
   const {
     videos,
     totalItems,
     hasMore,
     isLoading,
     error: isFetchingError,
+    fetchNextPage,
     refetchVideos,
   } = useVideosList({
-    page: currentPage,
     limit: DEFAULT_PAGE_SIZE,
     is_history: true,
   });
@@ -34,12 +32,12 @@ const WatchedHistory = () => {
       if (observerRef.current) observerRef.current.disconnect();
       observerRef.current = new IntersectionObserver((entries) => {
         if (entries[0].isIntersecting && hasMore) {
-          setCurrentPage((prev) => prev + 1);
+          fetchNextPage();
         }
       });
       if (node) observerRef.current.observe(node); // Observe the last element in the list
     },
-    [isLoading, hasMore]
+    [isLoading, hasMore, fetchNextPage]
   );
 
   return (
@@ -59,6 +59,7 @@ export const login = async (
         avatar_file_url,
         role_type,
         token,
+        refresh_token,
         expiration_time,
       } = data;
 
@@ -70,7 +71,8 @@ export const login = async (
         avatar_file_url,
         role_type,
         token,
-        moment(expiration_time)
+        moment(expiration_time),
+        refresh_token
       );
       result = {
         id,
@@ -81,6 +83,7 @@ export const login = async (
         role_type,
 
         token,
+        refresh_token,
         expiration_time,
       };
     } else {
@@ -150,6 +153,7 @@ export const register = async ({
         avatar_file_url,
         role_type,
         token,
+        refresh_token,
         expiration_time,
       } = data; // code, message, data
 
@@ -161,7 +165,8 @@ export const register = async ({
         avatar_file_url,
         role_type,
         token,
-        moment(expiration_time)
+        moment(expiration_time),
+        refresh_token
       );
       result = {
         id,
@@ -172,6 +177,7 @@ export const register = async ({
         role_type,
 
         token,
+        refresh_token,
         expiration_time,
       };
     } else {
@@ -1,7 +1,9 @@
 import { apiFetchCategories } from '@/api/category';
 import { CategoryResponse } from '@/data/dto/category';
 
-export const fetchCategories = async (): Promise<CategoryResponse[]> => {
-  const { data } = await apiFetchCategories();
+export const fetchCategories = async (
+  signal?: AbortSignal
+): Promise<CategoryResponse[]> => {
+  const { data } = await apiFetchCategories(signal);
   return data;
 };
@@ -14,6 +14,24 @@ import {
   NotificationCountResponse,
   NotificationResponse,
 } from '@/data/dto/notification';
+import {
+  NOTIFICATION_TAB_EVENT,
+  NotificationTabMessage,
+} from '@/data/types/notification';
+import { invalidateQueries, QUERY_SCOPE } from '@/lib/query-cache';
+import { createTabChannel } from '@/lib/tab-channel';
+
+// keeps the badge, the socket feed and read/hidden state in sync across tabs
+export const notificationTabChannel =
+  createTabChannel<NotificationTabMessage>('notifications');
+
+notificationTabChannel.subscribe((message) => {
+  if (
+    message.type === NOTIFICATION_TAB_EVENT.READ ||
+    message.type === NOTIFICATION_TAB_EVENT.HIDE
+  )
+    invalidateQueries(QUERY_SCOPE.NOTIFICATIONS);
+});
 
 export const fetchNotificationsCount =
   async (): Promise<NotificationCountResponse> => {
@@ -28,9 +46,10 @@ export const resetNotificationsCount =
   };
 
 export const fetchNotificationsList = async (
-  payload: CommonFilters
+  payload: CommonFilters,
+  signal?: AbortSignal
 ): Promise<FindAndCountResponse<NotificationResponse>> => {
-  const { data, error } = await apiFetchNotificationsList(payload);
+  const { data, error } = await apiFetchNotificationsList(payload, signal);
   if (data && !error) return data;
 
   return [];
@@ -40,6 +59,11 @@ export const readNotification = async (
   id: number
 ): Promise<SuccessResponse> => {
   const { data } = await apiReadNotification(id);
+  if (data?.success) {
+    invalidateQueries(QUERY_SCOPE.NOTIFICATIONS);
+    notificationTabChannel.post({ type: NOTIFICATION_TAB_EVENT.READ, id });
+  }
+
   return {
     success: data && data!.success,
   };
@@ -49,6 +73,11 @@ export const hideNotification = async (
   id: number
 ): Promise<SuccessResponse> => {
   const { data } = await apiHideNotification(id);
+  if (data?.success) {
+    invalidateQueries(QUERY_SCOPE.NOTIFICATIONS);
+    notificationTabChannel.post({ type: NOTIFICATION_TAB_EVENT.HIDE, id });
+  }
+
   return {
     success: data && data!.success,
   };
@@ -0,0 +1,116 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiBookmarkVideo, apiFetchVideoDetails } from '@/api/stream';
+import { API_ERROR } from '@/data/api';
+import { OUTBOX_ACTION, OutboxEntry } from '@/data/types/outbox';
+import { idbDelete, idbGetAll, IDB_STORE } from '@/lib/indexed-db';
+import {
+  enqueueMutation,
+  REJECTED_STATUSES,
+  replayOutbox,
+} from '@/services/outbox';
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+vi.mock('@/data/model/userAccount', () => ({
+  getLoggedInUserInfo: () => ({ id: 'user-1' }),
+  subscribeAccountChange: vi.fn(),
+}));
+vi.mock('@/api/stream', () => ({
+  apiBookmarkVideo: vi.fn(),
+  apiUnBookmarkVideo: vi.fn(),
+  apiReactOnVideo: vi.fn(),
+  apiSubscribeUnSubscribe: vi.fn(),
+  apiFetchVideoDetails: vi.fn(),
+}));
+vi.mock('@/api/subscription', () => ({
+  apiToggleMuteNotificationsFromChannel: vi.fn(),
+}));
+vi.mock('@/api/streamer', () => ({ apiFetchStreamerDetails: vi.fn() }));
+vi.mock('@/services/streamer', () => ({ fetchStreamerDetails: vi.fn() }));
+
+const bookmark = (videoId: number) => ({
+  action: OUTBOX_ACTION.BOOKMARK as const,
+  videoId,
+  isSaved: true,
+});
+
+const respondWith = (code: number | null, error?: API_ERROR) =>
+  vi.mocked(apiBookmarkVideo).mockResolvedValue({
+    data: { success: code === 200 },
+    message: '',
+    code: code as number,
+    error,
+  });
+
+const getQueuedVideoIds = async () =>
+  (await idbGetAll<OutboxEntry>(IDB_STORE.OUTBOX)).map(
+    (entry) => 'videoId' in entry && entry.videoId
+  );
+
+describe('outbox replay', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(apiFetchVideoDetails).mockResolvedValue({
+      data: null,
+      message: '',
+      code: 200,
+    });
+
+    const entries = await idbGetAll<OutboxEntry>(IDB_STORE.OUTBOX);
+    await Promise.all(
+      entries.map((entry) => idbDelete(IDB_STORE.OUTBOX, entry.id!))
+    );
+
+    await enqueueMutation(bookmark(1));
+    await enqueueMutation(bookmark(2));
+  });
+
+  it('drops synced changes', async () => {
+    respondWith(200);
+
+    await replayOutbox();
+
+    expect(apiBookmarkVideo).toHaveBeenCalledTimes(2);
+    expect(await getQueuedVideoIds()).toEqual([]);
+  });
+
+  it.each(REJECTED_STATUSES)(
+    'drops and reverts a change refused with %i',
+    async (code) => {
+      respondWith(code);
+
+      await replayOutbox();
+
+      expect(await getQueuedVideoIds()).toEqual([]);
+      expect(apiFetchVideoDetails).toHaveBeenCalledWith('1');
+      expect(apiFetchVideoDetails).toHaveBeenCalledWith('2');
+    }
+  );
+
+  it.each([500, 502, 503, 401, 408, 429])(
+    'keeps every change after a %i for the next replay',
+    async (code) => {
+      respondWith(code);
+
+      await replayOutbox();
+
+      expect(apiBookmarkVideo).toHaveBeenCalledTimes(1);
+      expect(apiFetchVideoDetails).not.toHaveBeenCalled();
+      expect(await getQueuedVideoIds()).toEqual([1, 2]);
+    }
+  );
+
+  it('keeps every change while the server is unreachable', async () => {
+    respondWith(null, API_ERROR.NETWORK_ERROR);
+
+    await replayOutbox();
+
+    expect(await getQueuedVideoIds()).toEqual([1, 2]);
+  });
+
+  it('replaces a queued change of the same target', async () => {
+    await enqueueMutation({ ...bookmark(1), isSaved: false });
+
+    expect(await getQueuedVideoIds()).toEqual([2, 1]);
+  });
+});
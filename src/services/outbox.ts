@@ -0,0 +1,331 @@
+import { toast } from 'sonner';
+import {
+  apiBookmarkVideo,
+  apiFetchVideoDetails,
+  apiReactOnVideo,
+  apiSubscribeUnSubscribe,
+  apiUnBookmarkVideo,
+} from '@/api/stream';
+import { apiToggleMuteNotificationsFromChannel } from '@/api/subscription';
+import { apiFetchStreamerDetails } from '@/api/streamer';
+import { API_ERROR, ApiResult, SuccessResponse } from '@/data/api';
+import {
+  OUTBOX_ACTION,
+  OutboxEntry,
+  OutboxMutation,
+} from '@/data/types/outbox';
+import {
+  getLoggedInUserInfo,
+  subscribeAccountChange,
+} from '@/data/model/userAccount';
+import {
+  fromVideoDetails,
+  patchVideo,
+  upsertStreamers,
+  upsertVideos,
+} from '@/data/model/entities';
+import { idbAdd, idbDelete, idbGetAll, IDB_STORE } from '@/lib/indexed-db';
+import { invalidateQueries, QUERY_SCOPE } from '@/lib/query-cache';
+import { EVENT_EMITTER_NAME, EventEmitter } from '@/lib/event-emitter';
+import { createTabChannel, runWithTabLock } from '@/lib/tab-channel';
+import { fetchStreamerDetails } from '@/services/streamer';
+import { getCorrectUnit } from '@/lib/utils';
+import logger from '@/lib/logger';
+
+// pending: kept for the next replay
+type ReplayResult = 'synced' | 'rejected' | 'pending';
+
+const REPLAY_LOCK = 'outbox-replay';
+
+// only a definitive refusal drops a change. Server errors, an expired
+// session (401), timeouts (408) and rate limits (429) are tried again
+export const REJECTED_STATUSES: number[] = [400, 403, 404, 409, 422];
+
+// while online, kept changes are tried again after a growing delay
+export const REPLAY_RETRY_POLICY = {
+  baseDelay: 30 * 1000, // doubled on every attempt
+  maxDelay: 5 * 60 * 1000,
+};
+
+// rejected changes, for the other tabs to drop their optimistic state too
+const rejectedChannel = createTabChannel<OutboxEntry>('outbox-rejected');
+
+let pendingCount = 0;
+let isReplaying = false;
+let retryCount = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const isOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const isNetworkError = (error?: unknown): boolean =>
+  error === API_ERROR.NETWORK_ERROR;
+
+const getTargetKey = (mutation: OutboxMutation): string =>
+  'videoId' in mutation
+    ? `${mutation.action}:${mutation.videoId}`
+    : `${mutation.action}:${mutation.streamerId}`;
+
+const loadEntries = async (): Promise<OutboxEntry[]> => {
+  const { id } = getLoggedInUserInfo();
+  if (!id) return [];
+
+  const entries = await idbGetAll<OutboxEntry>(IDB_STORE.OUTBOX);
+  return entries
+    .filter((entry) => entry.userId === id)
+    .sort((a, b) => (a.id || 0) - (b.id || 0));
+};
+
+const refreshPendingCount = async (): Promise<void> => {
+  try {
+    pendingCount = (await loadEntries()).length;
+  } catch {
+    pendingCount = 0;
+  }
+
+  EventEmitter.emit(EVENT_EMITTER_NAME.OUTBOX_CHANGE, pendingCount);
+};
+
+export const getPendingMutationsCount = (): number => pendingCount;
+
+export const subscribeOutboxChange = (
+  onChange: (count: number) => void
+): void => {
+  EventEmitter.subscribe(EVENT_EMITTER_NAME.OUTBOX_CHANGE, onChange);
+};
+
+export const unsubscribeOutboxChange = (
+  onChange: (count: number) => void
+): void => {
+  EventEmitter.unsubscribe(EVENT_EMITTER_NAME.OUTBOX_CHANGE, onChange);
+};
+
+/**
+ * Stores a mutation to send once the connection is back. A queued mutation
+ * of the same target is replaced, so only the latest state is replayed.
+ */
+export const enqueueMutation = async (
+  mutation: OutboxMutation
+): Promise<boolean> => {
+  const { id: userId } = getLoggedInUserInfo();
+  if (!userId) return false;
+
+  try {
+    const targetKey = getTargetKey(mutation);
+    const entries = await loadEntries();
+    await Promise.all(
+      entries
+        .filter((entry) => entry.id && getTargetKey(entry) === targetKey)
+        .map((entry) => idbDelete(IDB_STORE.OUTBOX, entry.id!))
+    );
+
+    await idbAdd<OutboxEntry>(IDB_STORE.OUTBOX, {
+      ...mutation,
+      userId,
+      createdAt: Date.now(),
+    });
+    await refreshPendingCount();
+
+    return true;
+  } catch (error) {
+    logger.error('Error queueing offline change:', error);
+    return false;
+  }
+};
+
+// keeps the optimistic state when the mutation is queued, reverts it otherwise
+export const queueMutation = async (
+  mutation: OutboxMutation,
+  rollback?: () => void
+): Promise<SuccessResponse> => {
+  const isQueued = await enqueueMutation(mutation);
+  if (!isQueued) rollback?.();
+
+  return { success: isQueued, pending: isQueued };
+};
+
+const toReplayResult = (
+  success: boolean | undefined,
+  code: ApiResult<unknown>['code']
+): ReplayResult => {
+  if (success) return 'synced';
+  return REJECTED_STATUSES.includes(Number(code)) ? 'rejected' : 'pending';
+};
+
+const replayMutation = async (entry: OutboxEntry): Promise<ReplayResult> => {
+  switch (entry.action) {
+    case OUTBOX_ACTION.BOOKMARK: {
+      const { data, code } = entry.isSaved
+        ? await apiBookmarkVideo(entry.videoId)
+        : await apiUnBookmarkVideo(entry.videoId);
+      return toReplayResult(data?.success, code);
+    }
+
+    case OUTBOX_ACTION.REACTION: {
+      const { data, code } = await apiReactOnVideo({
+        videoId: entry.videoId,
+        likeStatus: entry.likeStatus,
+        likeType: entry.likeType,
+      });
+      if (data)
+        patchVideo(entry.videoId, {
+          like_stats: data,
+          like_count: data.total,
+        });
+      return toReplayResult(!!data, code);
+    }
+
+    case OUTBOX_ACTION.SUBSCRIPTION: {
+      // the endpoint toggles, so skip it when the server already matches
+      const { data: streamer, code: fetchCode } = await apiFetchStreamerDetails(
+        String(entry.streamerId)
+      );
+      if (!streamer) return toReplayResult(false, fetchCode);
+      if (streamer.is_subscribed === entry.isSubscribed) return 'synced';
+
+      const { data, code } = await apiSubscribeUnSubscribe(entry.streamerId);
+      return toReplayResult(data?.success, code);
+    }
+
+    case OUTBOX_ACTION.MUTE_NOTIFICATIONS: {
+      const { data, code } = await apiToggleMuteNotificationsFromChannel(
+        entry.isMute,
+        entry.streamerId
+      );
+      return toReplayResult(data?.success, code);
+    }
+  }
+};
+
+const invalidateReplayedQueries = (
+  entry: OutboxEntry,
+  result: ReplayResult
+): void => {
+  if ('videoId' in entry) {
+    invalidateQueries(
+      QUERY_SCOPE.VIDEOS_LIST,
+      entry.action === OUTBOX_ACTION.BOOKMARK
+        ? { is_saved: true }
+        : { is_liked: true }
+    );
+    // a rejected change refetches the server state over the optimistic one
+    if (result === 'rejected')
+      invalidateQueries(QUERY_SCOPE.VIDEO_DETAILS, { id: entry.videoId });
+    return;
+  }
+
+  invalidateQueries(QUERY_SCOPE.SUBSCRIPTIONS);
+  if (result === 'rejected') {
+    invalidateQueries(QUERY_SCOPE.STREAMER_DETAILS, { id: entry.streamerId });
+    invalidateQueries(QUERY_SCOPE.VIDEO_DETAILS);
+  }
+};
+
+// overwrites the optimistic entity state with what the server kept
+const restoreServerState = async (entry: OutboxEntry): Promise<void> => {
+  try {
+    if ('videoId' in entry) {
+      const { data } = await apiFetchVideoDetails(String(entry.videoId));
+      if (!data) return;
+
+      const { video, streamer } = fromVideoDetails(data);
+      upsertVideos([video]);
+      upsertStreamers([streamer]);
+    } else {
+      await fetchStreamerDetails(String(entry.streamerId));
+    }
+  } catch (error) {
+    logger.error('Error restoring a rejected offline change:', error);
+  }
+};
+
+const scheduleReplay = (): void => {
+  const { baseDelay, maxDelay } = REPLAY_RETRY_POLICY;
+  const delay = Math.min(baseDelay * 2 ** retryCount, maxDelay);
+  retryCount += 1;
+
+  retryTimer = setTimeout(() => replayOutbox(), delay);
+};
+
+/**
+ * Sends queued mutations in the order they were made. Stops at the first
+ * failure a retry may get past and keeps the rest for the next replay.
+ * Changes the server refuses for good are dropped and reverted.
+ * One tab replays at a time, the others find the entries already gone.
+ */
+export const replayOutbox = async (): Promise<void> => {
+  if (isReplaying || isOffline()) return;
+  isReplaying = true;
+
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  let syncedCount = 0;
+  let rejectedCount = 0;
+  let isStopped = false;
+
+  try {
+    await runWithTabLock(REPLAY_LOCK, async () => {
+      const entries = await loadEntries();
+      for (const entry of entries) {
+        const result = await replayMutation(entry);
+        if (result === 'pending') {
+          isStopped = true;
+          break;
+        }
+
+        if (entry.id) await idbDelete(IDB_STORE.OUTBOX, entry.id);
+        if (result === 'rejected') {
+          rejectedCount += 1;
+          rejectedChannel.post(entry);
+          await restoreServerState(entry);
+        } else {
+          syncedCount += 1;
+        }
+
+        invalidateReplayedQueries(entry, result);
+      }
+    });
+  } catch (error) {
+    logger.error('Error replaying offline changes:', error);
+  } finally {
+    isReplaying = false;
+    await refreshPendingCount();
+  }
+
+  // going offline replays on the way back, anything else on a timer
+  if (isStopped && !isOffline()) scheduleReplay();
+  else if (!isStopped) retryCount = 0;
+
+  if (syncedCount)
+    toast.success(
+      `Synced ${syncedCount}${getCorrectUnit(syncedCount, 'offline change')}.`
+    );
+  if (rejectedCount)
+    toast.error(
+      `${rejectedCount}${getCorrectUnit(rejectedCount, 'offline change')} could not be synced and ${rejectedCount > 1 ? 'were' : 'was'} reverted.`
+    );
+};
+
+if (typeof window !== 'undefined')
+  window.addEventListener('online', () => replayOutbox());
+
+rejectedChannel.subscribe((entry) => {
+  restoreServerState(entry);
+  invalidateReplayedQueries(entry, 'rejected');
+  refreshPendingCount();
+});
+
+// the outbox is per user; replay whatever the signed-in user left behind
+let outboxUserId = getLoggedInUserInfo().id;
+
+subscribeAccountChange(({ id }) => {
+  if (id === outboxUserId) return;
+
+  outboxUserId = id;
+  refreshPendingCount();
+  replayOutbox();
+});
+
+refreshPendingCount();
+replayOutbox();
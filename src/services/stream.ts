@@ -14,6 +14,7 @@ import {
   apiBookmarkVideo,
   apiUnBookmarkVideo,
   apiShareVideo,
+  apiEndStream,
 } from '@/api/stream';
 import {
   API_ERROR,
@@ -21,6 +22,7 @@ import {
   FindAndCountResponse,
   ServiceResponse,
   SuccessResponse,
+  UploadOptions,
 } from '@/data/api';
 import {
   StreamDetailsResponse,
@@ -34,10 +36,35 @@ import {
   AddViewResponse,
   AddShareResponse,
 } from '@/data/dto/stream';
-import { STREAM_TYPE, StreamDetailsUpdateRequest } from '@/data/types/stream';
+import {
+  CONTENT_STATUS,
+  STREAM_TYPE,
+  StreamDetailsUpdateRequest,
+} from '@/data/types/stream';
 import { MAX_CATEGORY_COUNT, StreamDetailsRules } from '@/data/validations';
 import { Reaction, ReactionStats } from '@/data/chat';
 import { FORM_MODE } from '@/data/types/ui/form';
+import { invalidateQueries, QUERY_SCOPE } from '@/lib/query-cache';
+import {
+  fromVideoDetails,
+  getEntities,
+  patchComment,
+  patchStreamer,
+  patchVideo,
+  removeComment,
+  toVideoEntity,
+  upsertComments,
+  upsertStreamers,
+  upsertVideos,
+} from '@/data/model/entities';
+import {
+  ActiveStreamModel,
+  clearActiveStream,
+  getActiveStream,
+} from '@/data/model/activeStream';
+import { OUTBOX_ACTION } from '@/data/types/outbox';
+import { SocketConnection } from '@/lib/socket-connection';
+import { isNetworkError, isOffline, queueMutation } from '@/services/outbox';
 
 export enum StreamInitializeError {
   INVALID_TITLE = 'INVALID_TITLE',
@@ -49,12 +76,14 @@ export enum StreamInitializeError {
 }
 
 type ApiFunction = (
-  params: StreamDetailsUpdateRequest
+  params: StreamDetailsUpdateRequest,
+  options?: UploadOptions
 ) => Promise<ApiResult<StreamDetailsResponse | null>>;
 
 export const saveVideoOrStream = async (
   payload: StreamDetailsUpdateRequest,
-  mode: FORM_MODE
+  mode: FORM_MODE,
+  uploadOptions?: UploadOptions
 ): Promise<ServiceResponse<StreamDetailsResponse, StreamInitializeError>> => {
   const {
     title,
@@ -96,14 +125,17 @@ export const saveVideoOrStream = async (
     !invalidStreamType
   ) {
     if (apiFunction) {
-      const { data, error, message } = await apiFunction({
-        id: mode === FORM_MODE.EDIT ? payload?.id : undefined,
-        title,
-        description,
-        categories,
-        streamType,
-        thumbnailImage,
-      });
+      const { data, error, message } = await apiFunction(
+        {
+          id: mode === FORM_MODE.EDIT ? payload?.id : undefined,
+          title,
+          description,
+          categories,
+          streamType,
+          thumbnailImage,
+        },
+        uploadOptions
+      );
       if (!error && !_.isEmpty(data)) {
         errors = {};
         const {
@@ -125,6 +157,9 @@ export const saveVideoOrStream = async (
           push_url,
           broadcast_url,
         };
+
+        invalidateQueries(QUERY_SCOPE.VIDEOS_LIST);
+        invalidateQueries(QUERY_SCOPE.VIDEO_DETAILS, { id });
       } else {
         msg = message;
       }
@@ -147,19 +182,28 @@ export const saveVideoOrStream = async (
 };
 
 export const fetchVideosList = async (
-  payload: VideosListRequest
+  payload: VideosListRequest,
+  signal?: AbortSignal
 ): Promise<FindAndCountResponse<StreamsResponse>> => {
-  const { data, error } = await apiFetchVideosList(payload);
-  if (data && !error) return data;
+  const { data, error } = await apiFetchVideosList(payload, signal);
+  if (data && !error) {
+    upsertVideos((data.page || []).map(toVideoEntity));
+    return data;
+  }
 
   return [];
 };
 
 export const fetchVideoDetails = async (
-  id: string
+  id: string,
+  signal?: AbortSignal
 ): Promise<VideoDetailsResponse | API_ERROR> => {
-  const response = await apiFetchVideoDetails(id);
+  const response = await apiFetchVideoDetails(id, signal);
   if (response && response?.data) {
+    const { video, streamer } = fromVideoDetails(response.data);
+    upsertVideos([video]);
+    upsertStreamers([streamer]);
+
     return response?.data;
   }
 
@@ -169,7 +213,30 @@ export const fetchVideoDetails = async (
 export const subscribeUnsubscribe = async (
   streamerId: number
 ): Promise<SuccessResponse> => {
-  const { data } = await apiSubscribeUnSubscribe(streamerId);
+  const isSubscribed = !!getEntities().streamers[streamerId]?.is_subscribed;
+  const applySubscription = () =>
+    patchStreamer(streamerId, (streamer) => ({
+      is_subscribed: !isSubscribed,
+      subscriptions: Math.max(
+        (streamer?.subscriptions || 0) + (isSubscribed ? -1 : 1),
+        0
+      ),
+    }));
+  const mutation = {
+    action: OUTBOX_ACTION.SUBSCRIPTION,
+    streamerId,
+    isSubscribed: !isSubscribed,
+  } as const;
+  if (isOffline()) return queueMutation(mutation, applySubscription());
+
+  const { data, error } = await apiSubscribeUnSubscribe(streamerId);
+  if (data?.success) {
+    applySubscription();
+    invalidateQueries(QUERY_SCOPE.SUBSCRIPTIONS);
+  } else if (isNetworkError(error)) {
+    return queueMutation(mutation, applySubscription());
+  }
+
   return {
     success: data && data!.success,
   };
@@ -179,6 +246,9 @@ export const addView = async (
   videoId: number
 ): Promise<AddViewResponse | null> => {
   const { data } = await apiAddView(videoId);
+  if (data?.is_added)
+    patchVideo(videoId, (video) => ({ views: (video?.views || 0) + 1 }));
+
   if (data) return data;
   return null;
 };
@@ -192,8 +262,29 @@ export const reactOnVideo = async ({
   likeStatus: boolean;
   likeType: Reaction;
 }): Promise<ReactionStats | null> => {
+  // offline reactions keep the current stats until the outbox syncs them
+  const queueReaction = async () => {
+    const rollback = patchVideo(videoId, {
+      current_like_type: likeStatus ? likeType : null,
+    });
+    const { pending } = await queueMutation(
+      { action: OUTBOX_ACTION.REACTION, videoId, likeStatus, likeType },
+      rollback
+    );
+
+    return pending ? getEntities().videos[videoId]?.like_stats || {} : null;
+  };
+  if (isOffline()) return queueReaction();
+
   const response = await apiReactOnVideo({ videoId, likeStatus, likeType });
+  if (isNetworkError(response.error)) return queueReaction();
   if (response && response?.data) {
+    patchVideo(videoId, {
+      like_stats: response.data,
+      like_count: response.data.total,
+      current_like_type: likeStatus ? likeType : null,
+    });
+    invalidateQueries(QUERY_SCOPE.VIDEOS_LIST, { is_liked: true });
     return response?.data;
   }
 
@@ -201,10 +292,14 @@ export const reactOnVideo = async ({
 };
 
 export const fetchCommentsList = async (
-  payload: CommentsListRequest
+  payload: CommentsListRequest,
+  signal?: AbortSignal
 ): Promise<FindAndCountResponse<CommentsResponse>> => {
-  const { data, error } = await apiFetchCommentsList(payload);
-  if (data && !error) return data;
+  const { data, error } = await apiFetchCommentsList(payload, signal);
+  if (data && !error) {
+    upsertComments(data.page || []);
+    return data;
+  }
 
   return [];
 };
@@ -215,6 +310,9 @@ export const createComment = async ({
 }: CreateCommentRequest): Promise<CommentsResponse | null> => {
   const response = await apiCreateComment({ videoId, content });
   if (response && response?.data) {
+    upsertComments([{ ...response.data, is_me: true }]);
+    patchVideo(videoId, (video) => ({ comments: (video?.comments || 0) + 1 }));
+    invalidateQueries(QUERY_SCOPE.COMMENTS, { videoId });
     return response?.data;
   }
 
@@ -225,6 +323,11 @@ export const deleteComment = async (
   commentId: number
 ): Promise<SuccessResponse> => {
   const { data } = await apiDeleteComment(commentId);
+  if (data?.success) {
+    removeComment(commentId);
+    invalidateQueries(QUERY_SCOPE.COMMENTS);
+  }
+
   return {
     success: data && data!.success,
   };
@@ -236,34 +339,110 @@ export const updateComment = async ({
 }: UpdateCommentRequest): Promise<CommentsResponse | null> => {
   const response = await apiUpdateComment({ commentId, content });
   if (response && response?.data) {
+    patchComment(commentId, { content, is_edited: true });
+    invalidateQueries(QUERY_SCOPE.COMMENTS);
     return response?.data;
   }
 
   return null;
 };
 
-export const bookmarkVideo = async (
-  videoId: number
+// bookmarks are applied optimistically and rolled back if the request fails,
+// unless the change could be queued for when the connection is back
+const saveBookmark = async (
+  videoId: number,
+  isSaved: boolean
 ): Promise<SuccessResponse> => {
-  const { data } = await apiBookmarkVideo(videoId);
-  return {
-    success: data && data!.success,
-  };
-};
+  const rollback = patchVideo(videoId, { is_saved: isSaved });
+  const mutation = {
+    action: OUTBOX_ACTION.BOOKMARK,
+    videoId,
+    isSaved,
+  } as const;
+  if (isOffline()) return queueMutation(mutation, rollback);
+
+  const { data, error } = isSaved
+    ? await apiBookmarkVideo(videoId)
+    : await apiUnBookmarkVideo(videoId);
+
+  if (data?.success) {
+    invalidateQueries(QUERY_SCOPE.VIDEOS_LIST, { is_saved: true });
+  } else if (isNetworkError(error)) {
+    return queueMutation(mutation, rollback);
+  } else {
+    rollback();
+  }
 
-export const unBookmarkVideo = async (
-  videoId: number
-): Promise<SuccessResponse> => {
-  const { data } = await apiUnBookmarkVideo(videoId);
   return {
     success: data && data!.success,
   };
 };
 
+export const bookmarkVideo = (videoId: number): Promise<SuccessResponse> =>
+  saveBookmark(videoId, true);
+
+export const unBookmarkVideo = (videoId: number): Promise<SuccessResponse> =>
+  saveBookmark(videoId, false);
+
 export const addShare = async (
   videoId: number
 ): Promise<AddShareResponse | null> => {
   const { data } = await apiShareVideo(videoId);
+  if (data?.is_added)
+    patchVideo(videoId, (video) => ({ shares: (video?.shares || 0) + 1 }));
+
   if (data) return data;
   return null;
 };
+
+export type ActiveStream = ActiveStreamModel & {
+  status: CONTENT_STATUS | null; // null when the server couldn't be reached
+};
+
+// the stored broadcast if it's still going. One that has ended, or that the
+// server doesn't know, is forgotten.
+export const fetchActiveStream = async (): Promise<ActiveStream | null> => {
+  const activeStream = getActiveStream();
+  if (!activeStream) return null;
+
+  const { data, error } = await apiFetchVideoDetails(
+    String(activeStream.details.id)
+  );
+  if (
+    error === API_ERROR.NOT_FOUND ||
+    (data &&
+      data.status !== CONTENT_STATUS.LIVE &&
+      data.status !== CONTENT_STATUS.PENDING_SOFTWARE)
+  ) {
+    clearActiveStream();
+    return null;
+  }
+
+  return {
+    ...activeStream,
+    details: {
+      ...activeStream.details,
+      started_at: data?.started_at || activeStream.details.started_at,
+    },
+    status: data?.status || null,
+  };
+};
+
+// closing an upload connection normally ends its broadcast; one without a
+// connection, eg: left behind by a reload or a software stream, is ended here
+export const endLiveStream = async (streamId: number): Promise<boolean> => {
+  const { data } = await apiEndStream(streamId);
+  if (data.success) clearActiveStream();
+
+  return data.success;
+};
+
+// a normal close ends the broadcast, reconnects close with a code of their
+// own; while reconnecting there is nothing to close, the server is told
+export const closeLiveStream = (
+  streamWs: SocketConnection,
+  streamId: number | null
+): void => {
+  if (!streamWs.isOpen() && streamId) endLiveStream(streamId);
+  streamWs.close();
+};
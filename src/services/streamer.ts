@@ -1,9 +1,13 @@
 import { apiFetchStreamerDetails } from '@/api/streamer';
 import { StreamerDetailsResponse } from '@/data/dto/streamer';
+import { toStreamerEntity, upsertStreamers } from '@/data/model/entities';
 
 export const fetchStreamerDetails = async (
-  id: string
+  id: string,
+  signal?: AbortSignal
 ): Promise<StreamerDetailsResponse | null> => {
-  const { data } = await apiFetchStreamerDetails(id);
+  const { data } = await apiFetchStreamerDetails(id, signal);
+  if (data) upsertStreamers([toStreamerEntity(data)]);
+
   return data;
 };
@@ -7,11 +7,16 @@ import {
   SubscriptionListRequest,
   SubscriptionResponse,
 } from '@/data/dto/subscription';
+import { invalidateQueries, QUERY_SCOPE } from '@/lib/query-cache';
+import { patchStreamer } from '@/data/model/entities';
+import { OUTBOX_ACTION } from '@/data/types/outbox';
+import { isNetworkError, isOffline, queueMutation } from '@/services/outbox';
 
 export const fetchSubscriptionList = async (
-  payload: SubscriptionListRequest
+  payload: SubscriptionListRequest,
+  signal?: AbortSignal
 ): Promise<FindAndCountResponse<SubscriptionResponse>> => {
-  const { data, error } = await apiFetchSubscriptionList(payload);
+  const { data, error } = await apiFetchSubscriptionList(payload, signal);
   if (data && !error) return data;
 
   return [];
@@ -24,10 +29,22 @@ export const toggleMuteNotificationsFromChannel = async ({
   isMute: boolean;
   streamerId: number;
 }): Promise<SuccessResponse> => {
-  const { data } = await apiToggleMuteNotificationsFromChannel(
+  const rollback = patchStreamer(streamerId, { is_mute: isMute });
+  const mutation = {
+    action: OUTBOX_ACTION.MUTE_NOTIFICATIONS,
+    streamerId,
+    isMute,
+  } as const;
+  if (isOffline()) return queueMutation(mutation, rollback);
+
+  const { data, error } = await apiToggleMuteNotificationsFromChannel(
     isMute,
     streamerId
   );
+  if (data?.success) invalidateQueries(QUERY_SCOPE.SUBSCRIPTIONS);
+  else if (isNetworkError(error)) return queueMutation(mutation, rollback);
+  else rollback();
+
   return {
     success: data && data!.success,
   };
@@ -5,7 +5,7 @@ import {
   apiVerity2FactorAuthWithOTP,
   apiUpdateUserProfileInfo,
 } from '@/api/user';
-import { ServiceResponse } from '@/data/api';
+import { API_ERROR, ServiceResponse, UploadOptions } from '@/data/api';
 import {
   User2FACheckResponse,
   User2FAVerityResponse,
@@ -48,8 +48,9 @@ export const verity2FactorAuthWithOTP = async (
   let result: User2FAVerityResponse | undefined = undefined;
   let msg: string = '';
   if (!otpFailure) {
-    const { data, message, code } = await apiVerity2FactorAuthWithOTP(otpCode);
-    if (data && code !== 500) {
+    const { data, message, code, error } =
+      await apiVerity2FactorAuthWithOTP(otpCode);
+    if (data && !error && code !== 500) {
       result = { is_verified: data.is_verified };
     } else {
       msg = message;
@@ -82,8 +83,8 @@ export const changePassword = async (
 
   let result: ChangePasswordResponse | undefined = undefined;
   let msg: string = '';
-  const { data, message, code } = await apiChangePassword(payload);
-  if (data && code !== 500) {
+  const { data, message, code, error } = await apiChangePassword(payload);
+  if (data && !error && code !== 500) {
     result = {
       display_name: data.display_name,
       username: data.username,
@@ -108,7 +109,8 @@ export const changePassword = async (
 };
 
 export const updateUserProfileInfo = async (
-  payload: UserProfileInfoUpdateRequest
+  payload: UserProfileInfoUpdateRequest,
+  uploadOptions?: UploadOptions
 ): Promise<
   ServiceResponse<UserProfileInfoUpdateResponse, UserInfoUpdateError>
 > => {
@@ -122,9 +124,12 @@ export const updateUserProfileInfo = async (
   let result: UserProfileInfoUpdateResponse | undefined = undefined;
   let msg: string = '';
   if (!invalidDisplayName && !invalidAvatar) {
-    const { data, message, code } = await apiUpdateUserProfileInfo(payload);
+    const { data, message, code, error } = await apiUpdateUserProfileInfo(
+      payload,
+      uploadOptions
+    );
 
-    if (data && code !== 500) {
+    if (data && !error && code !== 500) {
       result = {
         display_name: data.display_name,
         username: data.username,
@@ -134,7 +139,9 @@ export const updateUserProfileInfo = async (
       };
     } else {
       msg = message;
-      errors[UserInfoUpdateError.ACTION_FAILURE] = true;
+      // a cancelled upload is not a failure to report on the form
+      if (error !== API_ERROR.CANCELLED)
+        errors[UserInfoUpdateError.ACTION_FAILURE] = true;
     }
   } else {
     errors[UserInfoUpdateError.INVALID_DISPLAY_NAME] = invalidDisplayName;
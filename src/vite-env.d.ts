@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ENV: string;
+  readonly VITE_BE_API_URL: string;
+  readonly VITE_WS_STREAM_URL: string;
+  readonly VITE_WS_NOTIFICATION_URL: string;
+  // `message` or `query`, unset negotiates it per server
+  readonly VITE_WS_AUTH_MODE?: 'message' | 'query';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}